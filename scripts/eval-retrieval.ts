@@ -0,0 +1,113 @@
+// Offline retrieval evaluation. Indexes the fixtures through the same
+// chunking/indexing code as uploads, runs the golden questions through the
+// chat's retrieval path with an in-memory backend and an extractive stand-in
+// for the answer model, and prints recall@k, MRR and citation/number accuracy.
+// Embeddings, query rewriting and reranking use the fake provider unless
+// --live is passed, which uses the LLM_PROVIDER configured in the environment.
+//
+//   npm run eval -- [--k 5] [--strategy heading] [--chunk-size 800]
+//                   [--overlap 120] [--golden path] [--fixtures dir]
+//                   [--json out.json] [--min-recall 0.8] [--live] [--verbose]
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { runEvaluation, GoldenQuestion } from "../src/lib/evaluation";
+import type { ChunkStrategy } from "../src/lib/chunking";
+import { getLLMProvider } from "../src/lib/llm-provider";
+
+const EVAL_DIR = resolve(__dirname, "eval");
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith("--")) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const str = (key: string) =>
+    typeof args[key] === "string" ? (args[key] as string) : undefined;
+  const num = (key: string) => (str(key) ? Number(str(key)) : undefined);
+
+  const fixturesDir = resolve(str("fixtures") || join(EVAL_DIR, "fixtures"));
+  const goldenPath = resolve(str("golden") || join(EVAL_DIR, "golden.json"));
+
+  const documents = readdirSync(fixturesDir)
+    .filter((f) => /\.(txt|md)$/i.test(f))
+    .sort()
+    .map((filename) => ({
+      filename,
+      text: readFileSync(join(fixturesDir, filename), "utf8"),
+    }));
+  const questions = JSON.parse(
+    readFileSync(goldenPath, "utf8"),
+  ) as GoldenQuestion[];
+
+  // The pipeline logs every step; keep the report readable unless asked.
+  const consoleLog = console.log;
+  if (!args.verbose) console.log = () => {};
+
+  const report = await runEvaluation(documents, questions, {
+    k: num("k"),
+    provider: args.live ? getLLMProvider() : undefined,
+    chunking: {
+      strategy: str("strategy") as ChunkStrategy | undefined,
+      chunkSize: num("chunk-size"),
+      overlap: num("overlap"),
+    },
+  }).finally(() => {
+    console.log = consoleLog;
+  });
+
+  for (const [filename, indexing] of Object.entries(report.indexing)) {
+    console.log(
+      `indexed ${filename}: ${indexing.chunksIndexed}/${indexing.chunksTotal} chunks, ${indexing.pagesIndexed}/${indexing.pagesTotal} pages`,
+    );
+  }
+  console.log("");
+
+  for (const r of report.results) {
+    const number =
+      r.numberFound === null ? "" : r.numberFound ? "  number ok" : "  number MISSING";
+    console.log(
+      `${r.hitAtK ? "PASS" : "MISS"}  ${r.id.padEnd(16)} rank ${String(r.rank ?? "-").padEnd(3)} cited ${r.citedPages.join(", ") || "-"}${r.citationCorrect ? "" : " (wrong page)"}${number}`,
+    );
+  }
+
+  console.log("");
+  console.log(`questions               ${report.questions}`);
+  console.log(`recall@${report.k}                ${pct(report.recallAtK)}`);
+  console.log(`MRR                     ${report.mrr.toFixed(3)}`);
+  console.log(`citation page accuracy  ${pct(report.citationPageAccuracy)}`);
+  console.log(
+    `answer contains number  ${report.numberAccuracy === null ? "n/a" : pct(report.numberAccuracy)}`,
+  );
+
+  if (str("json")) {
+    writeFileSync(resolve(str("json")!), JSON.stringify(report, null, 2));
+  }
+
+  const minRecall = num("min-recall");
+  if (minRecall !== undefined && report.recallAtK < minRecall) {
+    console.error(
+      `recall@${report.k} ${pct(report.recallAtK)} is below --min-recall ${pct(minRecall)}`,
+    );
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,121 +1,110 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  generateEmbeddings,
   generateChatResponse,
   generateWithoutDocuments,
   ChatMessage,
   SourceContext,
 } from "@/lib/gemini";
-import { queryDocuments } from "@/lib/pinecone";
+import { retrieveContext } from "@/lib/retrieval";
 import { getSession, addMessage } from "@/lib/redis";
 import { getSessionGraph } from "@/lib/neo4j";
 import {
   extractFinancialMetrics,
   generateRiskReport,
+  detectContagionScenario,
+  resolveGraphEntity,
+  simulateRiskContagion,
+  ContagionSimulation,
 } from "@/lib/risk-analyzer";
-import { queryWithLlamaIndex } from "@/lib/llamaindex-rag";
+import { createChatTools } from "@/lib/chat-tools";
+import {
+  extractStructuredBlocks,
+  StructuredBlocks,
+  StructuredKey,
+} from "@/lib/structured-output";
 
 export const runtime = "edge";
 
 export const maxDuration = 30;
 
-export async function POST(request: NextRequest) {
-  try {
-    const { message, sessionId, isEdit, originalMessageId } =
-      await request.json();
-
-    if (!message) {
-      return NextResponse.json(
-        { error: "Message is required" },
-        { status: 400 },
-      );
-    }
-
-    let session = null;
-    let hasDocuments = false;
-    let sources: SourceContext[] = [];
-    let documentFilenames: string[] = [];
-    let graphData = null;
-
-    if (sessionId) {
-      session = await getSession(sessionId);
+const STRUCTURED_EVENTS: Record<StructuredKey, string> = {
+  chartConfig: "chart",
+  riskAnalysis: "risk",
+  metrics: "metrics",
+};
 
-      const sessionDocuments =
-        session?.documents?.map((d: any) =>
-          typeof d === "string" ? d : (d?.filename as string),
-        ) || [];
+export async function POST(request: NextRequest) {
+  const { message, sessionId, isEdit, originalMessageId } = await request
+    .json()
+    .catch(() => ({}));
 
-      if (session && sessionDocuments.length > 0) {
-        hasDocuments = true;
-        documentFilenames = sessionDocuments.filter(Boolean);
+  if (!message) {
+    return NextResponse.json({ error: "Message is required" }, { status: 400 });
+  }
 
-        const [queryEmbedding] = await generateEmbeddings([message]);
+  const encoder = new TextEncoder();
 
-        const searchResults = await queryDocuments(
-          queryEmbedding,
-          sessionId,
-          30,
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: object) => {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify({ event, ...data })}\n\n`),
         );
+      };
 
-        sources = searchResults.map((result) => {
-          const metadata = result.metadata as {
-            content?: string;
-            text?: string;
-            filename?: string;
-            pageNumber?: number;
-            chunkIndex?: number;
-            type?: string;
-          };
-
-          return {
-            filename: metadata.filename || "Unknown",
-            pageNumber: metadata.pageNumber || 1,
-            excerpt: (metadata.content || metadata.text || "").substring(
-              0,
-              4000,
-            ),
-            relevanceScore: result.score || 0,
-            chunkIndex: metadata.chunkIndex,
-          };
+      try {
+        const payload = await answerMessage(
+          { message, sessionId, isEdit, originalMessageId },
+          send,
+        );
+        send("complete", payload);
+      } catch (error) {
+        send("error", {
+          message: "Failed to process message",
+          details: String(error),
         });
+      } finally {
+        controller.close();
+      }
+    },
+  });
 
-        try {
-          const llamaResult = await queryWithLlamaIndex(message, sessionId, {
-            topK: 10,
-          });
-
-          if (llamaResult.sources.length > 0) {
-            const llamaSources = llamaResult.sources.map((s) => ({
-              filename: documentFilenames[0] || "Document",
-              pageNumber: s.pageNumber,
-              excerpt: s.text.substring(0, 4000),
-              relevanceScore: s.score,
-              chunkIndex: 0,
-              type: s.type,
-            }));
-
-            const existingPages = new Set(sources.map((s) => s.pageNumber));
-            for (const ls of llamaSources) {
-              if (!existingPages.has(ls.pageNumber)) {
-                sources.push(ls);
-              }
-            }
-          }
-        } catch {
-          // Continue without LlamaIndex sources if error
-        }
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-        try {
-          graphData = await getSessionGraph(sessionId);
-        } catch {
-          // Continue without graph data if error
-        }
-      }
-    }
+async function answerMessage(
+  {
+    message,
+    sessionId,
+    isEdit,
+    originalMessageId,
+  }: {
+    message: string;
+    sessionId?: string;
+    isEdit?: boolean;
+    originalMessageId?: string;
+  },
+  send: (event: string, data: object) => void,
+) {
+  let session = null;
+  let hasDocuments = false;
+  let sources: SourceContext[] = [];
+  let documentFilenames: string[] = [];
+  let graphData = null;
+  let contagion: ContagionSimulation | undefined = undefined;
 
-    const history: ChatMessage[] = [];
+  const history: ChatMessage[] = [];
 
-    if (session && session.messages) {
+  if (sessionId) {
+    session = await getSession(sessionId);
+
+    if (session?.messages) {
       const messagesToInclude = isEdit
         ? session.messages.filter((m) => m.id !== originalMessageId).slice(-6)
         : session.messages.slice(-6);
@@ -128,92 +117,193 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    history.push({ role: "user", content: message });
-
-    const result = hasDocuments
-      ? await generateChatResponse(history, sources, documentFilenames, true)
-      : await generateWithoutDocuments(history);
-
-    let additionalRiskAnalysis = undefined;
-    let additionalMetrics = undefined;
-
-    if (hasDocuments && sources.length > 0) {
-      const combinedText = sources.map((s) => s.excerpt).join("\n");
-      const financialMetrics = extractFinancialMetrics(combinedText);
-
-      if (financialMetrics.ratios.length > 0) {
-        const entityList =
-          result.entities?.map((e) => ({
-            type: e.type as
-              | "company"
-              | "regulation"
-              | "person"
-              | "amount"
-              | "date"
-              | "sector",
-            name: e.name,
-          })) || [];
-        const riskReport = generateRiskReport(financialMetrics, entityList);
-
-        if (!result.riskAnalysis && riskReport.factors.length > 0) {
-          additionalRiskAnalysis = riskReport;
-        }
+    const sessionDocuments =
+      session?.documents?.map((d: any) =>
+        typeof d === "string" ? d : (d?.filename as string),
+      ) || [];
 
-        if (!result.metrics && financialMetrics.ratios.length > 0) {
-          additionalMetrics = financialMetrics.ratios.map((r) => ({
-            name: r.name,
-            value: r.value,
-            unit: r.name.includes("Ratio") ? "" : "%",
-          }));
+    if (session && sessionDocuments.length > 0) {
+      hasDocuments = true;
+      documentFilenames = sessionDocuments.filter(Boolean);
+      ({ sources } = await retrieveContext(message, sessionId, {
+        history,
+        topK: 15,
+        candidates: 30,
+        onStatus: (status) => send("status", { message: status }),
+      }));
+
+      try {
+        graphData = await getSessionGraph(sessionId);
+      } catch {
+        // Continue without graph data if error
+      }
+
+      const scenario = detectContagionScenario(message);
+      if (scenario) {
+        try {
+          const resolvedEntity = await resolveGraphEntity(
+            sessionId,
+            scenario.sourceEntity,
+          );
+          if (resolvedEntity) {
+            const simulation = await simulateRiskContagion(
+              sessionId,
+              resolvedEntity,
+              scenario.shockMagnitude,
+            );
+            if (simulation.affectedEntities.length > 0) {
+              contagion = simulation;
+            }
+          }
+        } catch {
+          // Continue without contagion simulation if error
         }
       }
     }
+  }
 
-    if (sessionId) {
-      const messageId = `msg_${Date.now()}`;
-
-      await addMessage(sessionId, {
-        id: messageId,
-        role: "user",
-        content: message,
-        timestamp: Date.now(),
-        isEdit: isEdit || false,
-      });
-
-      await addMessage(sessionId, {
-        id: `${messageId}_response`,
-        role: "assistant",
-        content: result.response,
-        timestamp: Date.now(),
-        sources: result.citedSources.slice(0, 5).map((s) => ({
-          filename: s.filename,
-          pageNumber: s.pageNumber,
-          excerpt: s.excerpt,
-        })),
-      });
+  history.push({ role: "user", content: message });
+
+  const tools = createChatTools(hasDocuments ? sessionId : null, sources);
+
+  // Structured blocks are emitted as soon as their closing fence arrives so
+  // the client can draw charts before the answer finishes streaming.
+  let streamedText = "";
+  const emitted = new Set<StructuredKey>();
+  const onToken = (text: string) => {
+    streamedText += text;
+    send("token", { text });
+
+    const { blocks } = extractStructuredBlocks(streamedText);
+    for (const key of Object.keys(STRUCTURED_EVENTS) as StructuredKey[]) {
+      if (blocks[key] && !emitted.has(key)) {
+        emitted.add(key);
+        send(STRUCTURED_EVENTS[key], { [key]: blocks[key] });
+      }
     }
+  };
+
+  send("status", { message: "Generating answer..." });
+
+  const result = hasDocuments
+    ? await generateChatResponse(
+        history,
+        sources,
+        documentFilenames,
+        true,
+        tools,
+        onToken,
+      )
+    : await generateWithoutDocuments(history, tools, onToken);
 
-    return NextResponse.json({
-      success: true,
-      response: result.response,
-      sources: result.citedSources.map((s) => ({
+  let additionalRiskAnalysis = undefined;
+  let additionalMetrics = undefined;
+
+  if (hasDocuments && sources.length > 0) {
+    const combinedText = sources.map((s) => s.excerpt).join("\n");
+    const financialMetrics = extractFinancialMetrics(combinedText);
+
+    if (financialMetrics.ratios.length > 0) {
+      const entityList =
+        result.entities?.map((e) => ({
+          type: e.type as
+            | "company"
+            | "regulation"
+            | "person"
+            | "amount"
+            | "date"
+            | "sector",
+          name: e.name,
+        })) || [];
+      const riskReport = generateRiskReport(financialMetrics, entityList);
+
+      if (!result.riskAnalysis && riskReport.factors.length > 0) {
+        additionalRiskAnalysis = riskReport;
+      }
+
+      if (!result.metrics && financialMetrics.ratios.length > 0) {
+        additionalMetrics = financialMetrics.ratios.map((r) => ({
+          name: r.name,
+          value: r.value,
+          unit: r.name.includes("Ratio") ? "" : "%",
+        }));
+      }
+    }
+  }
+
+  const structured: StructuredBlocks = {
+    chartConfig: result.chartConfig,
+    riskAnalysis: result.riskAnalysis || additionalRiskAnalysis,
+    metrics: result.metrics || additionalMetrics,
+  };
+
+  if (sessionId) {
+    const messageId = `msg_${Date.now()}`;
+
+    await addMessage(sessionId, {
+      id: messageId,
+      role: "user",
+      content: message,
+      timestamp: Date.now(),
+      isEdit: isEdit || false,
+    });
+
+    await addMessage(sessionId, {
+      id: `${messageId}_response`,
+      role: "assistant",
+      content: result.response,
+      timestamp: Date.now(),
+      sources: result.citedSources.slice(0, 5).map((s) => ({
         filename: s.filename,
         pageNumber: s.pageNumber,
         excerpt: s.excerpt,
-        relevanceScore: s.relevanceScore,
       })),
-      chartConfig: result.chartConfig,
-      riskAnalysis: result.riskAnalysis || additionalRiskAnalysis,
-      metrics: result.metrics || additionalMetrics,
-      entities: result.entities,
-      graphData,
-      hasDocuments,
-      documentsAvailable: documentFilenames,
+      ...structured,
     });
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Failed to process message", details: String(error) },
-      { status: 500 },
-    );
   }
+
+  for (const key of Object.keys(STRUCTURED_EVENTS) as StructuredKey[]) {
+    if (structured[key] && !emitted.has(key)) {
+      send(STRUCTURED_EVENTS[key], { [key]: structured[key] });
+    }
+  }
+
+  const citedSources = result.citedSources.map((s) => ({
+    filename: s.filename,
+    pageNumber: s.pageNumber,
+    excerpt: s.excerpt,
+    relevanceScore: s.relevanceScore,
+    ...(s.section ? { section: s.section } : {}),
+    ...(s.boundingBox ? { boundingBox: s.boundingBox } : {}),
+    ...(s.retrievalScores ? { retrievalScores: s.retrievalScores } : {}),
+    ...(s.rerank ? { rerank: s.rerank } : {}),
+  }));
+  const finalContagion = result.contagion || contagion;
+  const toolCalls = result.toolCalls || [];
+
+  const validationErrors = result.validationErrors || [];
+  for (const error of validationErrors) {
+    send("validationError", { block: error.block, errors: error.errors });
+  }
+
+  send("sources", { sources: citedSources });
+  if (finalContagion) send("contagion", { contagion: finalContagion });
+  if (toolCalls.length > 0) send("toolCalls", { toolCalls });
+
+  return {
+    success: true,
+    response: result.response,
+    sources: citedSources,
+    ...structured,
+    entities: result.entities,
+    contagion: finalContagion,
+    toolCalls,
+    validationErrors: validationErrors.map(({ block, errors }) => ({
+      block,
+      errors,
+    })),
+    graphData,
+    hasDocuments,
+    documentsAvailable: documentFilenames,
+  };
 }
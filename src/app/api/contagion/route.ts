@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/redis";
+import {
+  simulateRiskContagion,
+  resolveGraphEntity,
+} from "@/lib/risk-analyzer";
+
+export const runtime = "edge";
+export const maxDuration = 30;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, sourceEntity, shockMagnitude } = await request.json();
+
+    if (!sessionId || !sourceEntity) {
+      return NextResponse.json(
+        { error: "sessionId and sourceEntity are required" },
+        { status: 400 },
+      );
+    }
+
+    const shock = shockMagnitude === undefined ? 0.1 : Number(shockMagnitude);
+    if (!Number.isFinite(shock) || shock <= 0 || shock > 1) {
+      return NextResponse.json(
+        { error: "shockMagnitude must be a number in (0, 1]" },
+        { status: 400 },
+      );
+    }
+
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const resolvedEntity = await resolveGraphEntity(sessionId, sourceEntity);
+    if (!resolvedEntity) {
+      return NextResponse.json(
+        {
+          error: "Entity not found in session knowledge graph",
+          sourceEntity,
+        },
+        { status: 404 },
+      );
+    }
+
+    const simulation = await simulateRiskContagion(
+      sessionId,
+      resolvedEntity,
+      shock,
+    );
+
+    return NextResponse.json({ success: true, simulation });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to simulate contagion", details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -1,16 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PDFDocument } from "pdf-lib";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { createSession, addDocument, updateJobStatus } from "@/lib/redis";
 import { extractEntitiesFromText } from "@/lib/neo4j";
-import { upsertVectors } from "@/lib/pinecone";
-import { deleteFileAdmin } from "@/lib/supabase";
+import { chunkPages, splitBatchPages, PageText } from "@/lib/chunking";
+import {
+  copyPdfPages,
+  extractPdfText,
+  joinPages,
+  toPageRuns,
+  PdfPageText,
+} from "@/lib/pdf-text";
+import { getLLMProvider } from "@/lib/llm-provider";
+import {
+  applyPageConfidence,
+  isOcrEngineChoice,
+  selectOcrEngine,
+  OcrEngine,
+  OcrEngineChoice,
+  OcrPage,
+} from "@/lib/ocr";
+import type { Script } from "@/lib/script-detection";
+import {
+  applyBoundingBoxes,
+  encodeBoundingBox,
+  TextRegion,
+} from "@/lib/bounding-box";
+import {
+  indexChunks,
+  createIndexingProgress,
+  recordError,
+  toIndexingReport,
+  IndexableChunk,
+} from "@/lib/indexing";
 
 export const runtime = "edge";
 
 export const maxDuration = 300;
 
-const CHUNK_SIZE = 2000;
 const MAX_RETRIES = 3;
 
 function calculateOptimalBatchSize(
@@ -24,26 +50,6 @@ function calculateOptimalBatchSize(
   return 12;
 }
 
-function chunkText(text: string): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-  while (start < text.length) {
-    let end = Math.min(start + CHUNK_SIZE, text.length);
-    if (end < text.length) {
-      const lastPeriod = text.lastIndexOf(".", end);
-      const lastNewline = text.lastIndexOf("\n", end);
-      const breakPoint = Math.max(lastPeriod, lastNewline);
-      if (breakPoint > start + CHUNK_SIZE / 2) {
-        end = breakPoint + 1;
-      }
-    }
-    const chunk = text.slice(start, end).trim();
-    if (chunk.length > 50) chunks.push(chunk);
-    start = end;
-  }
-  return chunks;
-}
-
 async function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -69,58 +75,54 @@ async function withRetry<T>(
 
 async function extractPagesWithGemini(
   pdfBytes: ArrayBuffer,
-  startPage: number,
-  endPage: number,
-  genAI: GoogleGenerativeAI,
+  firstPage: number,
+  lastPage: number,
 ): Promise<string> {
-  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
-  const pageCount = pdfDoc.getPageCount();
-  const actualEnd = Math.min(pageCount, endPage);
-
-  const pagesToCopy = [];
-  for (let i = startPage; i < actualEnd; i++) {
-    pagesToCopy.push(i);
-  }
-
-  if (pagesToCopy.length === 0) return "";
-
-  const newPdf = await PDFDocument.create();
-  const copiedPages = await newPdf.copyPages(pdfDoc, pagesToCopy);
-  copiedPages.forEach((page) => newPdf.addPage(page));
-  const batchPdfBytes = await newPdf.save();
+  const batchPdfBytes = await copyPdfPages(pdfBytes, firstPage, lastPage);
   const base64Pdf = Buffer.from(batchPdfBytes).toString("base64");
 
   return withRetry(async () => {
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-    const result = await model.generateContent([
-      `Extract ALL text from this PDF (pages ${startPage + 1}-${actualEnd}). Mark each page as === PAGE X ===. Extract every word, number, table exactly. Tables: markdown | format. Do NOT summarize.`,
-      { inlineData: { mimeType: "application/pdf", data: base64Pdf } },
+    const result = await getLLMProvider().generate([
+      {
+        role: "user",
+        parts: [
+          {
+            text: `Extract ALL text from this PDF (pages ${firstPage}-${lastPage}). Mark each page as === PAGE X ===. Extract every word, number, table exactly. Tables: markdown | format. Do NOT summarize.`,
+          },
+          { inlineData: { mimeType: "application/pdf", data: base64Pdf } },
+        ],
+      },
     ]);
-    return result.response.text();
+    return result.text;
   });
 }
 
-async function generateBatchEmbeddings(
-  chunks: string[],
-  genAI: GoogleGenerativeAI,
-): Promise<number[][]> {
-  const model = genAI.getGenerativeModel({ model: "text-embedding-004" });
-  const embeddings: number[][] = [];
-
-  for (let i = 0; i < chunks.length; i += 5) {
-    const batch = chunks.slice(i, i + 5);
-    const results = await Promise.all(
-      batch.map(async (chunk) => {
-        const truncated = chunk.substring(0, 1500);
-        const result = await model.embedContent(truncated);
-        return result.embedding.values;
-      }),
-    );
-    embeddings.push(...results);
-    if (i + 5 < chunks.length) await sleep(100);
+// Gemini keeps the batch prompt above, tuned to the job's time budget;
+// other engines get the page subset with the same retry policy.
+async function recognizePages(
+  engine: OcrEngine,
+  pdfBytes: ArrayBuffer,
+  firstPage: number,
+  lastPage: number,
+  filename: string,
+  scripts: Script[],
+): Promise<OcrPage[]> {
+  if (engine.name === "gemini") {
+    const visionText = await extractPagesWithGemini(pdfBytes, firstPage, lastPage);
+    return splitBatchPages(visionText, firstPage, lastPage);
   }
 
-  return embeddings;
+  const subset = Buffer.from(await copyPdfPages(pdfBytes, firstPage, lastPage));
+  const result = await withRetry(() =>
+    engine.recognize(subset, {
+      mimeType: "application/pdf",
+      filename,
+      firstPage,
+      lastPage,
+      scripts,
+    }),
+  );
+  return result.pages;
 }
 
 async function processDocumentBackground(
@@ -128,7 +130,7 @@ async function processDocumentBackground(
   blobUrl: string,
   filename: string,
   sessionId: string,
-  storagePath?: string,
+  ocrEngine?: OcrEngineChoice,
 ) {
   const startTime = Date.now();
 
@@ -157,9 +159,43 @@ async function processDocumentBackground(
       message: `Processing ${totalPages} pages (${fileSizeMB.toFixed(1)}MB) in ${numBatches} batches of ${pagesPerBatch} pages...`,
     });
 
-    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
+    // Pages with a usable text layer skip vision entirely.
+    const textLayer = new Map<number, PdfPageText>();
+    try {
+      for (const page of await extractPdfText(pdfBytes)) {
+        if (!page.needsOcr) textLayer.set(page.pageNumber, page);
+      }
+    } catch (textError) {
+      console.log(
+        "[DIRECT-UPLOAD] Text layer unavailable:",
+        String(textError).substring(0, 150),
+      );
+    }
 
-    let totalChunks = 0;
+    // Chosen before any batch runs, so a provider that cannot read PDFs
+    // fails the job up front; a fully text-layer PDF needs no engine. The
+    // first scanned page is the probe when the text layer shows no script.
+    let firstScanned = 1;
+    while (textLayer.has(firstScanned)) firstScanned++;
+    const ocr =
+      firstScanned <= totalPages
+        ? await selectOcrEngine(
+            ocrEngine,
+            "application/pdf",
+            [...textLayer.values()]
+              .map((p) => p.text)
+              .join("\n")
+              .substring(0, 5000),
+            {
+              data: Buffer.from(pdfBytes),
+              mimeType: "application/pdf",
+              pageNumber: firstScanned,
+            },
+          )
+        : null;
+
+    const indexing = createIndexingProgress();
+    let ocrPageCount = 0;
     let totalTextLength = 0;
     let sampleTextForKnowledgeGraph = "";
 
@@ -171,22 +207,64 @@ async function processDocumentBackground(
       await updateJobStatus(jobId, {
         progress,
         message: `Extracting pages ${startPage + 1}-${endPage} of ${totalPages}...`,
+        report: toIndexingReport(indexing, startPage),
       });
 
       try {
-        const batchText = await extractPagesWithGemini(
-          pdfBytes,
-          startPage,
-          endPage,
-          genAI,
-        );
+        const pages: PageText[] = [];
+        const ocrPages: number[] = [];
+        const ocrResults: OcrPage[] = [];
+        const regions: TextRegion[] = [];
+        for (let page = startPage + 1; page <= endPage; page++) {
+          const native = textLayer.get(page);
+          if (native) {
+            pages.push({ pageNumber: page, content: native.text });
+            regions.push(...native.regions);
+          } else {
+            ocrPages.push(page);
+          }
+        }
+        for (const [first, last] of toPageRuns(ocrPages)) {
+          const recognized = await recognizePages(
+            ocr!.engine,
+            pdfBytes,
+            first,
+            last,
+            filename,
+            ocr!.scripts,
+          );
+          pages.push(...recognized);
+          ocrResults.push(...recognized);
+          regions.push(...recognized.flatMap((p) => p.regions || []));
+        }
+        ocrPageCount += ocrPages.length;
+
+        const batchText = joinPages(pages);
         totalTextLength += batchText.length;
 
         if (sampleTextForKnowledgeGraph.length < 15000) {
           sampleTextForKnowledgeGraph += batchText.substring(0, 5000);
         }
 
-        const chunks = chunkText(batchText);
+        const chunks: IndexableChunk[] = applyBoundingBoxes(
+          applyPageConfidence(chunkPages(pages), ocrResults),
+          regions,
+        ).map((chunk, i) => ({
+          id: `${sessionId}_${filename.replace(/[^a-zA-Z0-9]/g, "_")}_p${startPage}_c${i}`,
+          content: chunk.content,
+          pageNumber: chunk.pageNumber,
+          metadata: {
+            text: chunk.content.substring(0, 8000),
+            chunkType: chunk.type,
+            ...(chunk.pageEstimated ? { pageEstimated: true } : {}),
+            ...(chunk.ocrConfidence !== undefined
+              ? { ocrConfidence: chunk.ocrConfidence, ocrEngine: ocr?.engine.name }
+              : {}),
+            ...(chunk.boundingBox
+              ? { boundingBox: encodeBoundingBox(chunk.boundingBox) }
+              : {}),
+          },
+        }));
         if (chunks.length === 0) continue;
 
         await updateJobStatus(jobId, {
@@ -194,30 +272,9 @@ async function processDocumentBackground(
           message: `Embedding ${chunks.length} chunks from pages ${startPage + 1}-${endPage}...`,
         });
 
-        const embeddings = await generateBatchEmbeddings(chunks, genAI);
-
-        const vectors = chunks.map((chunk, i) => ({
-          id: `${sessionId}_p${startPage}_c${i}`,
-          values: embeddings[i],
-          metadata: {
-            text: chunk.substring(0, 8000),
-            content: chunk.substring(0, 8000),
-            filename,
-            pageNumber: startPage + 1 + Math.floor(i / 3),
-            sessionId,
-          },
-        }));
-
-        for (let i = 0; i < vectors.length; i += 50) {
-          await upsertVectors(vectors.slice(i, i + 50));
-        }
-
-        totalChunks += chunks.length;
-
-        if (batchIdx < numBatches - 1 && batchIdx % 3 === 2) {
-          await sleep(1000);
-        }
+        await indexChunks(chunks, { sessionId, filename }, indexing);
       } catch (batchError) {
+        recordError(indexing, batchError);
         console.log(
           `[DIRECT-UPLOAD] Batch ${batchIdx} error:`,
           String(batchError).substring(0, 150),
@@ -234,6 +291,7 @@ async function processDocumentBackground(
       const { entities, relationships } = await extractEntitiesFromText(
         sampleTextForKnowledgeGraph,
         sessionId,
+        filename,
       );
       console.log(
         `[DIRECT-UPLOAD] Knowledge graph: ${entities.length} entities, ${relationships.length} relationships`,
@@ -247,33 +305,31 @@ async function processDocumentBackground(
 
     const duration = Date.now() - startTime;
     const pagesPerSecond = (totalPages / (duration / 1000)).toFixed(2);
+    const report = toIndexingReport(indexing, totalPages);
 
     await updateJobStatus(jobId, {
       status: "completed",
       progress: 100,
-      message: `Complete! ${totalPages} pages processed in ${Math.round(duration / 1000)}s (${pagesPerSecond} pages/sec)`,
+      message: `Complete! ${report.pagesIndexed}/${totalPages} pages and ${report.chunksIndexed}/${report.chunksTotal} chunks indexed in ${Math.round(duration / 1000)}s (${pagesPerSecond} pages/sec)`,
+      report,
       result: {
         sessionId,
         filename,
         pages: totalPages,
-        chunks: totalChunks,
+        chunks: report.chunksIndexed,
         textLength: totalTextLength,
+        ocrPages: ocrPageCount,
+        ...(ocr && ocrPageCount ? { ocrEngine: ocr.engine.name } : {}),
+        processingMethod:
+          ocrPageCount === 0
+            ? "text_extraction"
+            : ocrPageCount === totalPages
+              ? "ocr"
+              : "hybrid",
         duration,
         pagesPerSecond: parseFloat(pagesPerSecond),
       },
     });
-
-    // Storage cleanup (best-effort): delete the uploaded object after indexing.
-    if (storagePath) {
-      try {
-        await deleteFileAdmin(storagePath);
-      } catch (cleanupError) {
-        console.log(
-          "[DIRECT-UPLOAD] Storage cleanup skipped:",
-          String(cleanupError).substring(0, 150),
-        );
-      }
-    }
   } catch (error) {
     await updateJobStatus(jobId, {
       status: "failed",
@@ -291,6 +347,7 @@ export async function POST(request: NextRequest) {
       filename,
       storagePath,
       sessionId: existingSessionId,
+      ocrEngine,
     } = body;
 
     if (!blobUrl || !filename) {
@@ -321,7 +378,7 @@ export async function POST(request: NextRequest) {
       blobUrl,
       filename,
       sessionId,
-      storagePath,
+      isOcrEngineChoice(ocrEngine) ? ocrEngine : undefined,
     ).catch((err) => {
       console.error("[DIRECT-UPLOAD] Background error:", err);
     });
@@ -12,7 +12,17 @@ export async function GET() {
     typeof (globalThis as any).EdgeRuntime !== "undefined" ||
     process.env.NEXT_RUNTIME === "edge";
 
+  const llmProvider = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  const embeddingProvider = (
+    process.env.EMBEDDING_PROVIDER || llmProvider
+  ).toLowerCase();
+
+  const vectorStore = (process.env.VECTOR_STORE || "pinecone").toLowerCase();
+
   const env = {
+    llmProvider,
+    vectorStore,
+    embeddingProvider,
     google: !!process.env.GOOGLE_API_KEY,
     pineconeKey: !!process.env.PINECONE_API_KEY,
     pineconeHost: !!process.env.PINECONE_INDEX_HOST,
@@ -38,9 +48,16 @@ export async function GET() {
   };
 
   const missingRequired: string[] = [];
-  if (!env.google) missingRequired.push("GOOGLE_API_KEY");
-  if (!env.pineconeKey) missingRequired.push("PINECONE_API_KEY");
-  if (!env.pineconeHost) missingRequired.push("PINECONE_INDEX_HOST");
+  if (
+    !env.google &&
+    (llmProvider === "gemini" || embeddingProvider === "gemini")
+  ) {
+    missingRequired.push("GOOGLE_API_KEY");
+  }
+  if (vectorStore === "pinecone") {
+    if (!env.pineconeKey) missingRequired.push("PINECONE_API_KEY");
+    if (!env.pineconeHost) missingRequired.push("PINECONE_INDEX_HOST");
+  }
   if (!env.upstashUrl) missingRequired.push("UPSTASH_REDIS_REST_URL");
   if (!env.upstashToken) missingRequired.push("UPSTASH_REDIS_REST_TOKEN");
   if (!env.supabaseUrl)
@@ -65,7 +82,9 @@ export async function GET() {
   }
 
   // Pinecone check (describe stats)
-  if (env.pineconeKey && env.pineconeHost) {
+  if (vectorStore !== "pinecone") {
+    services.pinecone = { status: "skipped", vectorStore };
+  } else if (env.pineconeKey && env.pineconeHost) {
     try {
       const normalizedHost = process.env
         .PINECONE_INDEX_HOST!.trim()
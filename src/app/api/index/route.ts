@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateEmbeddings } from "@/lib/gemini";
-import { upsertDocumentChunks, DocumentChunk } from "@/lib/pinecone";
 import { createSession, addDocument, getSession } from "@/lib/redis";
+import { chunkDocument } from "@/lib/chunking";
+import { indexChunks, toIndexingReport, IndexableChunk } from "@/lib/indexing";
+import { applyPageConfidence, isOcrEngineChoice } from "@/lib/ocr";
 
 export const runtime = "edge";
 export const maxDuration = 60;
@@ -19,117 +20,13 @@ interface IndexRequest {
   filename: string;
   pages: number;
   sessionId?: string;
-}
-
-function semanticChunk(
-  text: string,
-  chunkSize: number = 500,
-  overlapPercent: number = 15,
-): string[] {
-  const overlap = Math.floor(chunkSize * (overlapPercent / 100));
-  const chunks: string[] = [];
-
-  const paragraphs = text.split(/\n\n+/);
-  let currentChunk = "";
-
-  for (const para of paragraphs) {
-    const cleanPara = para.trim();
-    if (!cleanPara) continue;
-
-    if (
-      currentChunk.length + cleanPara.length > chunkSize &&
-      currentChunk.length > 100
-    ) {
-      chunks.push(currentChunk.trim());
-      const overlapText = currentChunk.slice(-overlap);
-      currentChunk = overlapText + " " + cleanPara;
-    } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + cleanPara;
-    }
-  }
-
-  if (currentChunk.trim().length > 50) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks;
-}
-
-function createSemanticChunks(
-  text: string,
-  maxChunks: number = 75,
-): Array<{
-  content: string;
-  pageNumber: number;
-  chunkIndex: number;
-  type: "text" | "table" | "header";
-}> {
-  const chunks: Array<{
-    content: string;
-    pageNumber: number;
-    chunkIndex: number;
-    type: "text" | "table" | "header";
-  }> = [];
-
-  const pagePattern =
-    /===\s*(?:PAGE|BATCH|SECTION|SHEET)[:\s]*(\d+)(?:[^\n]*)?===/gi;
-  const pages: Array<{ pageNumber: number; content: string }> = [];
-
-  let lastIndex = 0;
-  let currentPageNum = 1;
-  let match;
-
-  while ((match = pagePattern.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      const content = text.substring(lastIndex, match.index).trim();
-      if (content.length > 100) {
-        pages.push({ pageNumber: currentPageNum, content });
-      }
-    }
-    currentPageNum = parseInt(match[1], 10);
-    lastIndex = match.index + match[0].length;
-  }
-
-  if (lastIndex < text.length) {
-    const content = text.substring(lastIndex).trim();
-    if (content.length > 100) {
-      pages.push({ pageNumber: currentPageNum, content });
-    }
-  }
-
-  if (pages.length === 0 && text.length > 100) {
-    pages.push({ pageNumber: 1, content: text });
-  }
-
-  log("Pages parsed", { count: pages.length });
-
-  for (const page of pages) {
-    if (chunks.length >= maxChunks) break;
-
-    const semanticChunks = semanticChunk(page.content, 500, 15);
-
-    for (const chunkText of semanticChunks) {
-      if (chunks.length >= maxChunks) break;
-      if (chunkText.length < 50) continue;
-
-      const isTable =
-        chunkText.includes("|") &&
-        (chunkText.includes("---") || /\|\s*[\d₹]/.test(chunkText));
-      const isHeader =
-        /^#+\s/.test(chunkText) ||
-        /^[A-Z][A-Z\s]{10,}$/.test(chunkText.split("\n")[0]);
-
-      chunks.push({
-        content: chunkText,
-        pageNumber: page.pageNumber,
-        chunkIndex: chunks.length,
-        type: isTable ? "table" : isHeader ? "header" : "text",
-      });
-    }
-  }
-
-  log("Semantic chunks created", { count: chunks.length });
-  return chunks;
+  // Set when the text was recognized in the browser (Tesseract): the engine
+  // and its 0-1 confidence keyed by page number.
+  ocrEngine?: string;
+  pageConfidence?: Record<string, number>;
+  // Where the original was uploaded, kept for the source viewer.
+  storagePath?: string;
+  fileUrl?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -144,6 +41,10 @@ export async function POST(request: NextRequest) {
       filename,
       pages,
       sessionId: existingSessionId,
+      ocrEngine,
+      pageConfidence,
+      storagePath,
+      fileUrl,
     } = body;
 
     log("Request parsed", {
@@ -183,53 +84,55 @@ export async function POST(request: NextRequest) {
     }
 
     log("Creating semantic chunks");
-    const chunks = createSemanticChunks(extractedText);
+    const chunks = applyPageConfidence(
+      chunkDocument(extractedText),
+      Object.entries(pageConfidence || {}).map(([page, confidence]) => ({
+        pageNumber: Number(page),
+        confidence,
+      })),
+    );
     log("Chunks created", { count: chunks.length });
 
-    const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => ({
+    const indexable: IndexableChunk[] = chunks.map((chunk, index) => ({
       id: `${sessionId}_${filename.replace(/[^a-zA-Z0-9]/g, "_")}_${index}`,
       content: chunk.content,
+      pageNumber: chunk.pageNumber,
       metadata: {
-        filename,
-        pageNumber: chunk.pageNumber,
+        chunkIndex: index,
+        totalChunks: chunks.length,
         chunkType: chunk.type,
+        ...(chunk.section ? { section: chunk.section } : {}),
+        ...(chunk.ocrConfidence !== undefined
+          ? {
+              ocrConfidence: chunk.ocrConfidence,
+              ...(isOcrEngineChoice(ocrEngine) ? { ocrEngine } : {}),
+            }
+          : {}),
       },
     }));
 
-    if (documentChunks.length > 0) {
-      const batchSize = 10;
-      const allEmbeddings: number[][] = [];
-
-      log("Generating embeddings", {
-        totalChunks: documentChunks.length,
-        batchSize,
-      });
-
-      for (let i = 0; i < documentChunks.length; i += batchSize) {
-        const batch = documentChunks.slice(i, i + batchSize);
-        const embeddings = await generateEmbeddings(
-          batch.map((c) => c.content),
-        );
-        allEmbeddings.push(...embeddings);
+    log("Indexing chunks", { totalChunks: indexable.length });
+    const progress = await indexChunks(indexable, {
+      sessionId,
+      filename,
+      onProgress: (p) =>
         log("Batch embedded", {
-          batch: Math.floor(i / batchSize) + 1,
-          total: Math.ceil(documentChunks.length / batchSize),
-        });
-      }
-
-      log("Upserting to Pinecone", { chunkCount: documentChunks.length });
-      await upsertDocumentChunks(documentChunks, allEmbeddings, sessionId);
-      log("Pinecone upsert complete", { count: documentChunks.length });
-    }
+          done: p.chunksIndexed + p.chunksSkipped,
+          total: p.chunksTotal,
+          throttleMs: p.throttleMs,
+        }),
+    });
+    const report = toIndexingReport(progress, pages || 0);
+    log("Indexing complete", { ...report, errors: report.errors.length });
 
     log("Adding document to session", { sessionId, filename });
-    await addDocument(sessionId, filename);
+    await addDocument(sessionId, filename, { path: storagePath, url: fileUrl });
     log("Document added to session successfully");
 
     const processingTime = Date.now() - startTime;
     log("=== INDEX COMPLETE ===", {
       sessionId,
-      chunks: chunks.length,
+      chunks: report.chunksIndexed,
       processingTime,
       filename,
     });
@@ -239,7 +142,8 @@ export async function POST(request: NextRequest) {
       sessionId,
       filename,
       pages,
-      chunks: chunks.length,
+      chunks: report.chunksIndexed,
+      report,
       processingTime,
     });
   } catch (error) {
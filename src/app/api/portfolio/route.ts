@@ -0,0 +1,288 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  analyzePortfolio,
+  MAX_HORIZON_DAYS,
+  MAX_PORTFOLIO_SYMBOLS,
+  PortfolioAnalytics,
+  PortfolioHolding,
+} from "@/lib/risk-analyzer";
+import { parseCsvSeries } from "@/lib/portfolio-csv";
+import { formatIndianCurrency } from "@/lib/utils";
+
+export const runtime = "edge";
+export const maxDuration = 30;
+
+const log = (step: string, data?: object) => {
+  console.log(`[PORTFOLIO] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+type SeriesType = "returns" | "prices" | "auto";
+
+const SERIES_TYPES: SeriesType[] = ["returns", "prices", "auto"];
+
+interface PortfolioRequest {
+  holdings: PortfolioHolding[];
+  series: Record<string, number[]>;
+  seriesType: SeriesType;
+  confidence?: number;
+  portfolioValue?: number;
+  riskFreeRate?: number;
+  horizonDays?: number;
+}
+
+// Series are compared observation by observation, so every symbol needs
+// the same number of finite values.
+function validateSeries(series: Record<string, number[]>): string | null {
+  const lengths = new Set<number>();
+  for (const [symbol, values] of Object.entries(series)) {
+    if (!Array.isArray(values) || !values.every((v) => Number.isFinite(v))) {
+      return `Series "${symbol}" must contain only numbers`;
+    }
+    lengths.add(values.length);
+  }
+  return lengths.size > 1
+    ? "All series must have the same number of observations"
+    : null;
+}
+
+// Returns are fractions: 0.015 is 1.5%. A CSV cell written as "1.5%" is
+// converted when parsed, but a bare 1.5 is read as 150%.
+const PRICE_MEDIAN_FLOOR = 5;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Prices are all positive and sit well above 1; fractional returns stay
+// within ±1. Anything else (percent-unit returns, prices near 1) is
+// ambiguous and needs an explicit seriesType.
+function detectSeriesType(
+  series: Record<string, number[]>,
+): "returns" | "prices" | null {
+  const all = Object.values(series);
+  if (all.every((values) => values.every((v) => Math.abs(v) <= 1))) {
+    return "returns";
+  }
+  const pricesLike = all.every(
+    (values) =>
+      values.every((v) => v > 0) && median(values) >= PRICE_MEDIAN_FLOOR,
+  );
+  return pricesLike ? "prices" : null;
+}
+
+function toReturns(
+  series: Record<string, number[]>,
+  seriesType: SeriesType,
+): Record<string, number[]> {
+  const resolved =
+    seriesType === "auto" ? detectSeriesType(series) : seriesType;
+  if (!resolved) {
+    throw new Error(
+      'Cannot tell prices from returns in percent units; set seriesType to "prices" or "returns" (returns as fractions, or with a % sign)',
+    );
+  }
+  if (resolved === "returns") return series;
+
+  const returns: Record<string, number[]> = {};
+  for (const [symbol, prices] of Object.entries(series)) {
+    returns[symbol] = prices
+      .slice(1)
+      .map((p, i) => (prices[i] !== 0 ? p / prices[i] - 1 : 0));
+  }
+  return returns;
+}
+
+function parseSeriesType(value: unknown): SeriesType | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (!SERIES_TYPES.includes(value as SeriesType)) {
+    throw new Error(`seriesType must be one of: ${SERIES_TYPES.join(", ")}`);
+  }
+  return value as SeriesType;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+async function parseRequest(request: NextRequest): Promise<PortfolioRequest> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") {
+      throw new Error("A CSV or JSON file is required");
+    }
+
+    const text = await file.text();
+    const holdingsField = form.get("holdings");
+    let holdings: PortfolioHolding[] =
+      typeof holdingsField === "string" && holdingsField
+        ? JSON.parse(holdingsField)
+        : [];
+
+    let series: Record<string, number[]>;
+    if (file.name.toLowerCase().endsWith(".json")) {
+      const json = JSON.parse(text);
+      series = json.returns || json.prices || {};
+      if (json.holdings) holdings = json.holdings;
+    } else {
+      series = parseCsvSeries(text);
+    }
+
+    return {
+      holdings,
+      series,
+      seriesType: parseSeriesType(form.get("seriesType")) || "auto",
+      confidence: optionalNumber(form.get("confidence")),
+      portfolioValue: optionalNumber(form.get("portfolioValue")),
+      riskFreeRate: optionalNumber(form.get("riskFreeRate")),
+      horizonDays: optionalNumber(form.get("horizonDays")),
+    };
+  }
+
+  const body = await request.json();
+  const series = body.csv
+    ? parseCsvSeries(body.csv)
+    : body.returns || body.prices || {};
+  const seriesType: SeriesType =
+    parseSeriesType(body.seriesType) ||
+    (body.prices && !body.returns ? "prices" : "auto");
+
+  return {
+    holdings: body.holdings || [],
+    series,
+    seriesType,
+    confidence: optionalNumber(body.confidence),
+    portfolioValue: optionalNumber(body.portfolioValue),
+    riskFreeRate: optionalNumber(body.riskFreeRate),
+    horizonDays: optionalNumber(body.horizonDays),
+  };
+}
+
+function toMetrics(analytics: PortfolioAnalytics) {
+  const conf = `${Math.round(analytics.confidence * 100)}%`;
+  return [
+    {
+      name: `Historical VaR (${conf})`,
+      value: formatIndianCurrency(analytics.var.historical),
+    },
+    {
+      name: `Parametric VaR (${conf})`,
+      value: formatIndianCurrency(analytics.var.parametric),
+    },
+    {
+      name: `Monte Carlo VaR (${conf})`,
+      value: formatIndianCurrency(analytics.var.monteCarlo),
+    },
+    {
+      name: `Expected Shortfall (${conf})`,
+      value: formatIndianCurrency(analytics.expectedShortfall),
+    },
+    { name: "Sharpe Ratio (ann.)", value: analytics.sharpeRatio },
+    { name: "Sortino Ratio (ann.)", value: analytics.sortinoRatio },
+    { name: "Max Drawdown", value: analytics.maxDrawdown * 100, unit: "%" },
+    {
+      name: "Volatility (ann.)",
+      value: analytics.volatility * Math.sqrt(252) * 100,
+      unit: "%",
+    },
+  ];
+}
+
+function toCharts(analytics: PortfolioAnalytics) {
+  return [
+    {
+      type: "bar" as const,
+      title: `VaR by method (${Math.round(analytics.confidence * 100)}%, ${analytics.horizonDays}-day)`,
+      data: [
+        { name: "Historical", value: Math.round(analytics.var.historical) },
+        { name: "Parametric", value: Math.round(analytics.var.parametric) },
+        { name: "Monte Carlo", value: Math.round(analytics.var.monteCarlo) },
+        {
+          name: "Expected Shortfall",
+          value: Math.round(analytics.expectedShortfall),
+        },
+      ],
+    },
+    {
+      type: "area" as const,
+      title: "Portfolio drawdown (%)",
+      data: analytics.drawdownSeries.map((d, i) => ({
+        name: `${i + 1}`,
+        value: parseFloat((d * 100).toFixed(2)),
+      })),
+    },
+    {
+      type: "pie" as const,
+      title: "Portfolio weights",
+      data: analytics.symbols.map((symbol, i) => ({
+        name: symbol,
+        value: parseFloat((analytics.weights[i] * 100).toFixed(2)),
+      })),
+    },
+  ];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseRequest(request);
+    const seriesError = validateSeries(parsed.series);
+    if (seriesError) {
+      return NextResponse.json({ error: seriesError }, { status: 400 });
+    }
+    if (Object.keys(parsed.series).length > MAX_PORTFOLIO_SYMBOLS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PORTFOLIO_SYMBOLS} symbols can be analyzed at once` },
+        { status: 400 },
+      );
+    }
+    const returns = toReturns(parsed.series, parsed.seriesType);
+
+    log("Analyzing portfolio", {
+      symbols: Object.keys(returns).length,
+      holdings: parsed.holdings.length,
+    });
+
+    const confidence = parsed.confidence ?? 0.95;
+    if (confidence <= 0.5 || confidence >= 1) {
+      return NextResponse.json(
+        { error: "confidence must be between 0.5 and 1" },
+        { status: 400 },
+      );
+    }
+
+    const analytics = analyzePortfolio(returns, parsed.holdings, {
+      confidence,
+      portfolioValue: parsed.portfolioValue,
+      riskFreeRate: parsed.riskFreeRate,
+      horizonDays: Math.min(
+        MAX_HORIZON_DAYS,
+        Math.max(1, Math.round(parsed.horizonDays ?? 1)),
+      ),
+    });
+
+    const { portfolioReturns, drawdownSeries, ...summary } = analytics;
+
+    return NextResponse.json({
+      success: true,
+      analytics: summary,
+      metrics: toMetrics(analytics),
+      charts: toCharts(analytics),
+      correlation: {
+        symbols: analytics.symbols,
+        matrix: analytics.correlation,
+      },
+    });
+  } catch (error) {
+    log("Portfolio error", { error: String(error) });
+    return NextResponse.json(
+      { error: "Failed to analyze portfolio", details: String(error) },
+      { status: 400 },
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSession,
+  removeDocument,
+  removeLexicalEntries,
+} from "@/lib/redis";
+import { deleteDocumentVectors } from "@/lib/vector-store";
+import { removeDocumentFromGraph } from "@/lib/neo4j";
+import { deleteFileAdmin, getFileUrl } from "@/lib/supabase";
+
+export const runtime = "edge";
+export const maxDuration = 60;
+
+const log = (step: string, data?: object) => {
+  console.log(`[SESSION-DOCS] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+// URL of a document's original file, for the source viewer.
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get("sessionId");
+    const filename = request.nextUrl.searchParams.get("filename");
+
+    if (!sessionId || !filename) {
+      return NextResponse.json(
+        { error: "sessionId and filename required" },
+        { status: 400 },
+      );
+    }
+
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const ref = session.documents.find(
+      (doc) => typeof doc !== "string" && doc.filename === filename.trim(),
+    );
+    if (!ref || typeof ref === "string" || !(ref.path || ref.url)) {
+      return NextResponse.json(
+        { error: "Original file not stored for this document" },
+        { status: 404 },
+      );
+    }
+
+    const url = ref.path ? await getFileUrl(ref.path) : ref.url!;
+    return NextResponse.json({ filename: ref.filename, url });
+  } catch (error) {
+    log("File URL error", { error: String(error) });
+    return NextResponse.json(
+      { error: "Failed to get document file", details: String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const sessionId: string | null =
+      body.sessionId || request.nextUrl.searchParams.get("sessionId");
+    const filename: string | null =
+      body.filename || request.nextUrl.searchParams.get("filename");
+
+    if (!sessionId || !filename) {
+      return NextResponse.json(
+        { error: "sessionId and filename required" },
+        { status: 400 },
+      );
+    }
+
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const ref = session.documents
+      .map((doc) => (typeof doc === "string" ? { filename: doc } : doc))
+      .find((doc) => doc.filename === filename.trim());
+    if (!ref) {
+      return NextResponse.json(
+        { error: "Document not found in session" },
+        { status: 404 },
+      );
+    }
+
+    log("Deleting document", { sessionId, filename: ref.filename });
+
+    // Vectors go first: if this fails the session still lists the document
+    // and the request can be retried.
+    const vectorsDeleted = await deleteDocumentVectors(
+      sessionId,
+      ref.filename,
+    );
+
+    await removeLexicalEntries(sessionId, ref.filename);
+
+    const failures: Array<{ store: string; error: string }> = [];
+    const graph = await removeDocumentFromGraph(sessionId, ref.filename, {
+      lastDocument: session.documents.length === 1,
+    }).catch((error) => {
+      log("Graph cleanup failed", { error: String(error).substring(0, 150) });
+      failures.push({ store: "graph", error: String(error) });
+      return null;
+    });
+    if (graph?.untaggedRemaining) {
+      failures.push({
+        store: "graph",
+        error: `${graph.untaggedRemaining} entities without document sources remain until the session is purged`,
+      });
+    }
+
+    if ("path" in ref && ref.path) {
+      await deleteFileAdmin(ref.path).catch((error) => {
+        log("Storage cleanup failed", { error: String(error) });
+        failures.push({ store: "storage", error: String(error) });
+      });
+    }
+
+    await removeDocument(sessionId, ref.filename);
+
+    const remaining = (await getSession(sessionId))?.documents || [];
+    return NextResponse.json(
+      {
+        success: failures.length === 0,
+        partial: failures.length > 0,
+        filename: ref.filename,
+        vectorsDeleted,
+        graph,
+        failures,
+        documents: remaining.map((doc) =>
+          typeof doc === "string" ? doc : doc.filename,
+        ),
+      },
+      { status: failures.length ? 207 : 200 },
+    );
+  } catch (error) {
+    log("Delete error", { error: String(error) });
+    return NextResponse.json(
+      { error: "Failed to delete document", details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/redis";
+import { exportSessionMarkdown, exportSessionPdf } from "@/lib/report-export";
+
+export const runtime = "edge";
+export const maxDuration = 30;
+
+const log = (step: string, data?: object) => {
+  console.log(`[EXPORT] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get("sessionId");
+    const format = request.nextUrl.searchParams.get("format") || "pdf";
+    const title = request.nextUrl.searchParams.get("title") || undefined;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID required" },
+        { status: 400 },
+      );
+    }
+    if (format !== "pdf" && format !== "md") {
+      return NextResponse.json(
+        { error: "format must be pdf or md" },
+        { status: 400 },
+      );
+    }
+
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    if (session.messages.length === 0) {
+      return NextResponse.json(
+        { error: "Session has no conversation to export" },
+        { status: 400 },
+      );
+    }
+
+    log("Exporting session", {
+      sessionId,
+      format,
+      messages: session.messages.length,
+    });
+
+    const filename = `arthyx-report-${new Date().toISOString().substring(0, 10)}`;
+
+    if (format === "md") {
+      return new Response(exportSessionMarkdown(session, { title, sessionId }), {
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.md"`,
+        },
+      });
+    }
+
+    const pdf = await exportSessionPdf(session, { title, sessionId });
+    return new Response(pdf as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+      },
+    });
+  } catch (error) {
+    log("Export error", { error: String(error) });
+    return NextResponse.json(
+      { error: "Failed to export session", details: String(error) },
+      { status: 500 },
+    );
+  }
+}
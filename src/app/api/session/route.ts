@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getSession } from "@/lib/redis";
+import {
+  getSession,
+  deleteSession,
+  clearLexicalEntries,
+} from "@/lib/redis";
+import { deleteSessionDocuments } from "@/lib/vector-store";
+import { clearSessionGraph } from "@/lib/neo4j";
+import { deleteFileAdmin } from "@/lib/supabase";
 
 export const runtime = "edge";
 
@@ -38,3 +45,60 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get("sessionId");
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Session ID required" },
+        { status: 400 },
+      );
+    }
+
+    const session = await getSession(sessionId);
+    const paths = (session?.documents || [])
+      .map((doc) => (typeof doc === "string" ? undefined : doc.path))
+      .filter((path): path is string => !!path);
+
+    // Vectors go first: if this fails nothing else has been removed and the
+    // purge can be retried.
+    await deleteSessionDocuments(sessionId);
+
+    const failures: Array<{ store: string; error: string }> = [];
+    await clearSessionGraph(sessionId).catch((error) => {
+      console.error("Graph purge error:", error);
+      failures.push({ store: "graph", error: String(error) });
+    });
+    await Promise.all(
+      paths.map((path) =>
+        deleteFileAdmin(path).catch((error) => {
+          console.error("Storage purge error:", error);
+          failures.push({ store: "storage", error: `${path}: ${String(error)}` });
+        }),
+      ),
+    );
+    await clearLexicalEntries(sessionId);
+    await deleteSession(sessionId);
+
+    // The session record is gone either way, so a partial purge is reported
+    // with what was left behind rather than as a retryable error.
+    return NextResponse.json(
+      {
+        success: failures.length === 0,
+        partial: failures.length > 0,
+        sessionId,
+        documentsRemoved: session?.documents.length || 0,
+        failures,
+      },
+      { status: failures.length ? 207 : 200 },
+    );
+  } catch (error) {
+    console.error("Session purge error:", error);
+    return NextResponse.json(
+      { error: "Failed to purge session", details: String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -1,16 +1,21 @@
 import { NextRequest } from "next/server";
 import { processDocument, ProcessedDocument } from "@/lib/document-processor";
-import { generateEmbeddings } from "@/lib/gemini";
-import { upsertDocumentChunks, DocumentChunk } from "@/lib/pinecone";
 import { createSession, addDocument, getSession } from "@/lib/redis";
 import { extractEntitiesFromText } from "@/lib/neo4j";
-import { deleteFileAdmin } from "@/lib/supabase";
+import { chunkDocument } from "@/lib/chunking";
+import { isOcrEngineChoice } from "@/lib/ocr";
+import { encodeBoundingBox } from "@/lib/bounding-box";
+import {
+  indexChunks,
+  toIndexingReport,
+  IndexableChunk,
+  IndexingReport,
+} from "@/lib/indexing";
 
 export const runtime = "edge";
 export const maxDuration = 60;
 export const dynamic = "force-dynamic";
 
-const MAX_CHUNKS_PER_FILE = 50;
 
 const log = (step: string, data?: object) => {
   console.log(`[UPLOAD] ${step}`, data ? JSON.stringify(data) : "");
@@ -47,83 +52,6 @@ async function fetchFileFromUrl(
   return { buffer, filename };
 }
 
-function createChunksFromText(
-  text: string,
-  pageCount: number,
-): Array<{
-  content: string;
-  pageNumber: number;
-  chunkIndex: number;
-  type: "text" | "table" | "header";
-}> {
-  const chunks: Array<{
-    content: string;
-    pageNumber: number;
-    chunkIndex: number;
-    type: "text" | "table" | "header";
-  }> = [];
-  const chunkSize = 800;
-  const overlap = 100;
-
-  const pagePattern = /===\s*PAGE\s*(\d+)\s*===/gi;
-  const pages: Array<{ pageNumber: number; content: string }> = [];
-
-  let lastIndex = 0;
-  let currentPageNum = 1;
-  let match;
-
-  while ((match = pagePattern.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      const content = text.substring(lastIndex, match.index).trim();
-      if (content.length > 50) {
-        pages.push({ pageNumber: currentPageNum, content });
-      }
-    }
-    currentPageNum = parseInt(match[1], 10);
-    lastIndex = match.index + match[0].length;
-  }
-
-  if (lastIndex < text.length) {
-    const content = text.substring(lastIndex).trim();
-    if (content.length > 50) {
-      pages.push({ pageNumber: currentPageNum, content });
-    }
-  }
-
-  if (pages.length === 0 && text.length > 50) {
-    pages.push({ pageNumber: 1, content: text });
-  }
-
-  for (const page of pages) {
-    if (chunks.length >= MAX_CHUNKS_PER_FILE) break;
-
-    const pageText = page.content;
-    let pageChunks = 0;
-
-    for (
-      let i = 0;
-      i < pageText.length &&
-      pageChunks < 3 &&
-      chunks.length < MAX_CHUNKS_PER_FILE;
-      i += chunkSize - overlap
-    ) {
-      const chunk = pageText.substring(i, i + chunkSize).trim();
-      if (chunk.length > 50) {
-        const isTable = chunk.includes("|") && chunk.includes("---");
-        chunks.push({
-          content: chunk,
-          pageNumber: page.pageNumber,
-          chunkIndex: chunks.length,
-          type: isTable ? "table" : "text",
-        });
-        pageChunks++;
-      }
-    }
-  }
-
-  return chunks;
-}
-
 export async function POST(request: NextRequest) {
   const encoder = new TextEncoder();
 
@@ -145,6 +73,7 @@ export async function POST(request: NextRequest) {
           sessionId: existingSessionId,
           preExtractedText,
           pagesProcessed,
+          ocrEngine,
         } = body;
 
         let sessionId = existingSessionId;
@@ -176,6 +105,7 @@ export async function POST(request: NextRequest) {
           chunks: number;
           pages: number;
           language?: string;
+          report?: IndexingReport;
           success: boolean;
         }> = [];
 
@@ -221,13 +151,9 @@ export async function POST(request: NextRequest) {
                 progress: Math.round(baseProgress + 15),
               });
 
-              const chunks = createChunksFromText(
-                preExtractedText,
-                pagesProcessed || 1,
-              );
               doc = {
                 fullText: preExtractedText,
-                chunks,
+                chunks: chunkDocument(preExtractedText),
                 documentType: "pdf",
                 requiresOCR: true,
                 metadata: {
@@ -238,8 +164,11 @@ export async function POST(request: NextRequest) {
                 },
               };
             } else {
-              doc = await processDocument(buffer, filename, (step) =>
-                send("step", { message: step, file: filename }),
+              doc = await processDocument(
+                buffer,
+                filename,
+                (step) => send("step", { message: step, file: filename }),
+                { ocrEngine: isOcrEngineChoice(ocrEngine) ? ocrEngine : undefined },
               );
             }
 
@@ -248,52 +177,46 @@ export async function POST(request: NextRequest) {
               progress: Math.round(baseProgress + 25),
             });
 
-            const limitedChunks = doc.chunks.slice(0, MAX_CHUNKS_PER_FILE);
-
-            const documentChunks: DocumentChunk[] = limitedChunks.map(
-              (chunk, index) => ({
-                id: `${sessionId}_${filename}_${index}`,
-                content: chunk.content,
-                metadata: {
-                  filename: filename,
-                  pageNumber: chunk.pageNumber,
-                },
-              }),
-            );
-
-            if (documentChunks.length > 0) {
-              log("Generating embeddings", { count: documentChunks.length });
-
-              const batchSize = 5;
-              const allEmbeddings: number[][] = [];
-
-              for (let j = 0; j < documentChunks.length; j += batchSize) {
-                const batch = documentChunks.slice(j, j + batchSize);
-                const embeddings = await generateEmbeddings(
-                  batch.map((c) => c.content),
-                );
-                allEmbeddings.push(...embeddings);
-
+            const chunks: IndexableChunk[] = doc.chunks.map((chunk, index) => ({
+              id: `${sessionId}_${filename}_${index}`,
+              content: chunk.content,
+              pageNumber: chunk.pageNumber,
+              metadata: {
+                chunkIndex: index,
+                totalChunks: doc.chunks.length,
+                chunkType: chunk.type,
+                ...(chunk.section ? { section: chunk.section } : {}),
+                ...(chunk.cellRange ? { cellRange: chunk.cellRange } : {}),
+                ...(chunk.revisions ? { revisions: chunk.revisions } : {}),
+                ...(chunk.ocrConfidence !== undefined
+                  ? {
+                      ocrConfidence: chunk.ocrConfidence,
+                      ocrEngine: doc.metadata.ocrEngine,
+                    }
+                  : {}),
+                ...(chunk.boundingBox
+                  ? { boundingBox: encodeBoundingBox(chunk.boundingBox) }
+                  : {}),
+              },
+            }));
+
+            log("Indexing chunks", { count: chunks.length });
+            const indexed = await indexChunks(chunks, {
+              sessionId,
+              filename,
+              onProgress: (p) =>
                 send("status", {
-                  message: `Embedding ${Math.min(j + batchSize, documentChunks.length)}/${documentChunks.length} chunks...`,
+                  message: `Embedded ${p.chunksIndexed + p.chunksSkipped}/${p.chunksTotal} chunks of ${filename}...`,
                   progress: Math.round(
-                    baseProgress + 25 + (j / documentChunks.length) * 20,
+                    baseProgress +
+                      25 +
+                      ((p.chunksIndexed + p.chunksSkipped) /
+                        Math.max(1, p.chunksTotal)) *
+                        25,
                   ),
-                });
-              }
-
-              send("status", {
-                message: `Indexing ${filename}...`,
-                progress: Math.round(baseProgress + 50),
-              });
-
-              log("Upserting vectors", { sessionId });
-              await upsertDocumentChunks(
-                documentChunks,
-                allEmbeddings,
-                sessionId,
-              );
-            }
+                }),
+            });
+            const report = toIndexingReport(indexed, doc.metadata.pageCount);
 
             send("status", {
               message: `Building knowledge graph for ${filename}...`,
@@ -304,6 +227,7 @@ export async function POST(request: NextRequest) {
               await extractEntitiesFromText(
                 doc.fullText.substring(0, 8000),
                 sessionId,
+                filename,
               );
               log("Entities extracted for knowledge graph");
             } catch (kgError) {
@@ -317,37 +241,33 @@ export async function POST(request: NextRequest) {
               url: blobUrl.url,
             });
 
-            // Storage cleanup (best-effort): delete the uploaded object after indexing to save Supabase storage.
-            // Requires SUPABASE_SERVICE_ROLE_KEY set in the server environment.
-            if (blobUrl.path) {
-              try {
-                await deleteFileAdmin(blobUrl.path);
-              } catch (cleanupError) {
-                log("Storage cleanup skipped", { error: String(cleanupError) });
-              }
-            }
+            // The original stays in storage for the source viewer; it is
+            // deleted with the document or the session.
 
             results.push({
               filename: filename,
               documentType: doc.documentType,
-              chunks: documentChunks.length,
+              chunks: report.chunksIndexed,
               pages: doc.metadata.pageCount,
               language: doc.metadata.language,
+              report,
               success: true,
             });
 
             log("File processed", {
               filename,
-              chunks: documentChunks.length,
+              chunks: report.chunksIndexed,
+              skipped: report.chunksSkipped,
               pages: doc.metadata.pageCount,
             });
 
             send("file_complete", {
               filename: filename,
               documentType: doc.documentType,
-              chunks: documentChunks.length,
+              chunks: report.chunksIndexed,
               pages: doc.metadata.pageCount,
               language: doc.metadata.language,
+              report,
             });
           } catch (error) {
             log("File error", { url: blobUrl.url, error: String(error) });
@@ -4,10 +4,11 @@ import { useState } from "react";
 import { motion } from "framer-motion";
 import Link from "next/link";
 import Image from "next/image";
-import { PanelRightOpen, PanelRightClose, Home, Upload, FileText } from "lucide-react";
+import { PanelRightOpen, PanelRightClose, Home, Upload, FileText, Briefcase, FileDown } from "lucide-react";
 import ChatInterface from "@/components/ChatInterface";
 import FileUpload from "@/components/FileUpload";
 import SourceSidebar from "@/components/SourceSidebar";
+import PortfolioAnalyzer from "@/components/PortfolioAnalyzer";
 
 import CursorGlow from "@/components/CursorGlow";
 
@@ -27,6 +28,8 @@ export default function Dashboard() {
 
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showUpload, setShowUpload] = useState(false);
+  const [showPortfolio, setShowPortfolio] = useState(false);
+  const [chatResetKey, setChatResetKey] = useState(0);
 
   const handleUploadComplete = (newSessionId: string, files: string[]) => {
     setSessionId(newSessionId);
@@ -50,6 +53,40 @@ export default function Dashboard() {
     if (!sidebarOpen) setSidebarOpen(true);
   };
 
+  const handleDeleteDocument = async (filename: string) => {
+    if (!sessionId) return;
+    const res = await fetch("/api/session/documents", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, filename }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      console.error("Document delete failed:", data.error || res.statusText);
+      return;
+    }
+    if (data.partial) console.warn("Document partially deleted:", data.failures);
+    setDocuments((prev) => prev.filter((doc) => doc !== filename));
+    setSources((prev) => prev.filter((s) => s.filename !== filename));
+  };
+
+  const handleClearSession = async () => {
+    if (!sessionId) return;
+    const res = await fetch(`/api/session?sessionId=${encodeURIComponent(sessionId)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      console.error("Session purge failed:", res.statusText);
+      return;
+    }
+    const data = await res.json().catch(() => ({}));
+    if (data.partial) console.warn("Session partially purged:", data.failures);
+    setSessionId(null);
+    setDocuments([]);
+    setSources([]);
+    setChatResetKey((k) => k + 1);
+  };
+
 
 
   return (
@@ -114,6 +151,43 @@ export default function Dashboard() {
                 <Upload className="w-5 h-5" />
               </motion.button>
             )}
+            {sessionId && (
+              <>
+                <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                  <a
+                    href={`/api/session/export?sessionId=${encodeURIComponent(sessionId)}&format=pdf`}
+                    download
+                    className="p-2 rounded-lg hover:bg-slate-800/50 transition-colors block"
+                    title="Export conversation as PDF report"
+                  >
+                    <FileDown className="w-5 h-5 text-slate-400" />
+                  </a>
+                </motion.div>
+                <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                  <a
+                    href={`/api/session/export?sessionId=${encodeURIComponent(sessionId)}&format=md`}
+                    download
+                    className="p-2 rounded-lg hover:bg-slate-800/50 transition-colors block"
+                    title="Export conversation as Markdown"
+                  >
+                    <FileText className="w-5 h-5 text-slate-400" />
+                  </a>
+                </motion.div>
+              </>
+            )}
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowPortfolio(!showPortfolio)}
+              className={`p-2 rounded-lg transition-colors ${
+                showPortfolio 
+                  ? "bg-emerald-500/20 text-emerald-400" 
+                  : "hover:bg-slate-800/50 text-slate-400"
+              }`}
+              title="Portfolio risk analytics"
+            >
+              <Briefcase className="w-5 h-5" />
+            </motion.button>
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               <Link
                 href="/"
@@ -189,11 +263,43 @@ export default function Dashboard() {
               </motion.div>
             )}
 
+            {showPortfolio && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="glass rounded-2xl p-6 max-h-[70vh] overflow-y-auto"
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500/20 to-teal-600/20 flex items-center justify-center">
+                      <Briefcase className="w-5 h-5 text-emerald-400" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-white">Portfolio Risk Analytics</h3>
+                      <p className="text-xs text-slate-400">
+                        VaR, Expected Shortfall, Sortino, drawdown and correlations
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setShowPortfolio(false)}
+                    className="text-sm text-slate-400 hover:text-white transition-colors"
+                  >
+                    Close
+                  </motion.button>
+                </div>
+                <PortfolioAnalyzer />
+              </motion.div>
+            )}
+
             <motion.div
               layout
               className="flex-1 min-h-[400px]"
             >
               <ChatInterface
+                key={chatResetKey}
                 sessionId={sessionId}
                 onSourceClick={handleSourceClick}
               />
@@ -205,6 +311,8 @@ export default function Dashboard() {
           sources={sources}
           documents={documents}
           onSourceClick={handleSourceClick}
+          onDeleteDocument={sessionId ? handleDeleteDocument : undefined}
+          onClearSession={sessionId ? handleClearSession : undefined}
           isOpen={sidebarOpen}
         />
       </main>
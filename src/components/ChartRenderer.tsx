@@ -1,15 +1,16 @@
 "use client";
 
 import { motion } from "framer-motion";
+import { AlertTriangle } from "lucide-react";
 import {
   BarChart,
   Bar,
-  LineChart,
   Line,
   PieChart,
   Pie,
-  AreaChart,
   Area,
+  ComposedChart,
+  ReferenceLine,
   ScatterChart,
   Scatter,
   XAxis,
@@ -20,12 +21,14 @@ import {
   ResponsiveContainer,
   Cell,
 } from "recharts";
-
-interface ChartConfig {
-  type: "bar" | "line" | "pie" | "area" | "scatter";
-  title: string;
-  data: Array<{ name: string; value: number; [key: string]: string | number }>;
-}
+import {
+  ChartConfig,
+  ChartSeries,
+  SeriesType,
+  WaterfallRow,
+  toWaterfallRows,
+  validateChartConfig,
+} from "@/lib/structured-output";
 
 interface ChartRendererProps {
   config: ChartConfig;
@@ -58,71 +61,238 @@ const CustomTooltip = ({ active, payload, label }: {
   return null;
 };
 
+const WaterfallTooltip = ({ active, payload, label }: {
+  active?: boolean;
+  payload?: Array<{ payload: WaterfallRow }>;
+  label?: string;
+}) => {
+  if (!active || !payload || !payload.length) return null;
+  const row = payload[0].payload;
+  return (
+    <div className="bg-slate-800/95 backdrop-blur-sm border border-slate-700 rounded-lg p-3 shadow-xl">
+      <p className="text-white font-medium mb-1">{label}</p>
+      {!row.isTotal && (
+        <p className={row.change >= 0 ? "text-emerald-400 text-sm" : "text-red-400 text-sm"}>
+          Change: {row.change >= 0 ? "+" : ""}{row.change.toLocaleString("en-IN")}
+        </p>
+      )}
+      <p className="text-slate-300 text-sm">
+        {row.isTotal ? "Total" : "Running total"}: {row.total.toLocaleString("en-IN")}
+      </p>
+    </div>
+  );
+};
+
+function axisLabel(value: string | undefined, angle: number) {
+  if (!value) return undefined;
+  return {
+    value,
+    angle,
+    position: angle < 0 ? ("insideLeft" as const) : ("insideRight" as const),
+    fill: "#9ca3af",
+    fontSize: 12,
+  };
+}
+
 export default function ChartRenderer({ config }: ChartRendererProps) {
-  const { type, title, data } = config;
+  const validation = validateChartConfig(config);
+
+  if (!validation.value) {
+    return (
+      <div className="bg-slate-800/50 rounded-2xl border border-amber-500/30 p-4 text-sm">
+        <p className="flex items-center gap-2 text-amber-400 font-medium mb-2">
+          <AlertTriangle className="w-4 h-4" />
+          Chart could not be rendered
+        </p>
+        <ul className="list-disc list-inside text-slate-400 space-y-0.5">
+          {validation.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const { type, title, data } = validation.value;
+
+  const series: ChartSeries[] =
+    validation.value.series ||
+    [{ key: "value", type: type === "combo" ? "bar" : (type as SeriesType) }];
+  const hasRightAxis = series.some((s) => s.axis === "right");
+  const referenceLines = validation.value.referenceLines || [];
+  const waterfallRows = type === "waterfall" ? toWaterfallRows(data) : [];
+
+  const renderAxes = () => (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+      <XAxis
+        dataKey="name"
+        tick={{ fill: "#9ca3af", fontSize: 12 }}
+        axisLine={{ stroke: "#4b5563" }}
+      />
+      <YAxis
+        yAxisId="left"
+        tick={{ fill: "#9ca3af", fontSize: 12 }}
+        axisLine={{ stroke: "#4b5563" }}
+        tickFormatter={(value) => value.toLocaleString("en-IN")}
+        label={axisLabel(validation.value!.yAxisLabels?.left, -90)}
+      />
+      {hasRightAxis && (
+        <YAxis
+          yAxisId="right"
+          orientation="right"
+          tick={{ fill: "#9ca3af", fontSize: 12 }}
+          axisLine={{ stroke: "#4b5563" }}
+          tickFormatter={(value) => value.toLocaleString("en-IN")}
+          label={axisLabel(validation.value!.yAxisLabels?.right, 90)}
+        />
+      )}
+      <Tooltip content={<CustomTooltip />} />
+      <Legend wrapperStyle={{ color: "#9ca3af" }} />
+      {referenceLines.map((line) => (
+        <ReferenceLine
+          key={`${line.y}_${line.label}`}
+          y={line.y}
+          yAxisId={line.axis === "right" && hasRightAxis ? "right" : "left"}
+          stroke={line.color || "#f59e0b"}
+          strokeDasharray="6 4"
+          label={{
+            value: line.label || line.y.toLocaleString("en-IN"),
+            position: "insideTopRight",
+            fill: line.color || "#f59e0b",
+            fontSize: 12,
+          }}
+        />
+      ))}
+    </>
+  );
+
+  const renderSeries = (s: ChartSeries, index: number) => {
+    const color = s.color || COLORS[index % COLORS.length];
+    const seriesType = s.type || (type === "combo" ? "bar" : (type as SeriesType));
+    const common = {
+      dataKey: s.key,
+      name: s.label || s.key,
+      yAxisId: s.axis === "right" ? "right" : "left",
+    };
+    const stackId =
+      s.stackId || (validation.value!.stacked ? `${seriesType}_stack` : undefined);
+
+    switch (seriesType) {
+      case "line":
+        return (
+          <Line
+            key={s.key}
+            {...common}
+            type="monotone"
+            stroke={color}
+            strokeWidth={3}
+            dot={{ fill: color, strokeWidth: 2, r: 5 }}
+            activeDot={{ r: 8, stroke: "#fff", strokeWidth: 2 }}
+            animationDuration={1500}
+          />
+        );
+      case "area":
+        return (
+          <Area
+            key={s.key}
+            {...common}
+            type="monotone"
+            stackId={stackId}
+            stroke={color}
+            strokeWidth={2}
+            fill={index === 0 ? "url(#areaGradient)" : color}
+            fillOpacity={index === 0 ? 1 : 0.3}
+            animationDuration={1500}
+          />
+        );
+      default:
+        return (
+          <Bar
+            key={s.key}
+            {...common}
+            stackId={stackId}
+            fill={index === 0 && !s.color ? "url(#barGradient)" : color}
+            radius={stackId ? undefined : [4, 4, 0, 0]}
+            animationDuration={1000}
+          />
+        );
+    }
+  };
 
   const renderChart = () => {
     switch (type) {
       case "bar":
+      case "line":
+      case "area":
+      case "combo":
         return (
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis 
-                dataKey="name" 
-                tick={{ fill: "#9ca3af", fontSize: 12 }} 
-                axisLine={{ stroke: "#4b5563" }}
-              />
-              <YAxis 
-                tick={{ fill: "#9ca3af", fontSize: 12 }} 
-                axisLine={{ stroke: "#4b5563" }}
-                tickFormatter={(value) => value.toLocaleString("en-IN")}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend wrapperStyle={{ color: "#9ca3af" }} />
-              <Bar 
-                dataKey="value" 
-                fill="url(#barGradient)" 
-                radius={[4, 4, 0, 0]}
-                animationDuration={1000}
-              />
+            <ComposedChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
               <defs>
                 <linearGradient id="barGradient" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="0%" stopColor="#10b981" />
                   <stop offset="100%" stopColor="#14b8a6" />
                 </linearGradient>
+                <linearGradient id="areaGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#10b981" stopOpacity={0.1}/>
+                </linearGradient>
               </defs>
-            </BarChart>
+              {renderAxes()}
+              {series.map(renderSeries)}
+            </ComposedChart>
           </ResponsiveContainer>
         );
 
-      case "line":
+      case "waterfall":
         return (
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <BarChart
+              data={waterfallRows}
+              stackOffset="sign"
+              margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis 
-                dataKey="name" 
-                tick={{ fill: "#9ca3af", fontSize: 12 }} 
+              <XAxis
+                dataKey="name"
+                tick={{ fill: "#9ca3af", fontSize: 12 }}
                 axisLine={{ stroke: "#4b5563" }}
               />
-              <YAxis 
-                tick={{ fill: "#9ca3af", fontSize: 12 }} 
+              <YAxis
+                yAxisId="left"
+                tick={{ fill: "#9ca3af", fontSize: 12 }}
                 axisLine={{ stroke: "#4b5563" }}
                 tickFormatter={(value) => value.toLocaleString("en-IN")}
               />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend wrapperStyle={{ color: "#9ca3af" }} />
-              <Line 
-                type="monotone" 
-                dataKey="value" 
-                stroke="#10b981" 
-                strokeWidth={3}
-                dot={{ fill: "#10b981", strokeWidth: 2, r: 5 }}
-                activeDot={{ r: 8, stroke: "#fff", strokeWidth: 2 }}
-                animationDuration={1500}
-              />
-            </LineChart>
+              <Tooltip content={<WaterfallTooltip />} />
+              {referenceLines.map((line) => (
+                <ReferenceLine
+                  key={`${line.y}_${line.label}`}
+                  y={line.y}
+                  yAxisId="left"
+                  stroke={line.color || "#f59e0b"}
+                  strokeDasharray="6 4"
+                />
+              ))}
+              <Bar dataKey="base" stackId="waterfall" yAxisId="left" fill="transparent" />
+              {(["positive", "negative"] as const).map((segment) => (
+                <Bar
+                  key={segment}
+                  dataKey={segment}
+                  stackId="waterfall"
+                  yAxisId="left"
+                  animationDuration={1000}
+                >
+                  {waterfallRows.map((row, index) => (
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={row.isTotal ? "#3b82f6" : row.change >= 0 ? "#10b981" : "#ef4444"}
+                    />
+                  ))}
+                </Bar>
+              ))}
+            </BarChart>
           </ResponsiveContainer>
         );
 
@@ -157,41 +327,6 @@ export default function ChartRenderer({ config }: ChartRendererProps) {
           </ResponsiveContainer>
         );
 
-      case "area":
-        return (
-          <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis 
-                dataKey="name" 
-                tick={{ fill: "#9ca3af", fontSize: 12 }} 
-                axisLine={{ stroke: "#4b5563" }}
-              />
-              <YAxis 
-                tick={{ fill: "#9ca3af", fontSize: 12 }} 
-                axisLine={{ stroke: "#4b5563" }}
-                tickFormatter={(value) => value.toLocaleString("en-IN")}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend wrapperStyle={{ color: "#9ca3af" }} />
-              <defs>
-                <linearGradient id="areaGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
-                  <stop offset="95%" stopColor="#10b981" stopOpacity={0.1}/>
-                </linearGradient>
-              </defs>
-              <Area 
-                type="monotone" 
-                dataKey="value" 
-                stroke="#10b981" 
-                strokeWidth={2}
-                fill="url(#areaGradient)"
-                animationDuration={1500}
-              />
-            </AreaChart>
-          </ResponsiveContainer>
-        );
-
       case "scatter":
         return (
           <ResponsiveContainer width="100%" height={300}>
@@ -11,13 +11,17 @@ import {
   X,
   Check,
   RefreshCw,
+  Wrench,
+  AlertTriangle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { ChartConfig } from "@/lib/structured-output";
 import MarkdownRenderer from "./MarkdownRenderer";
 import SourceModal, { SourceData } from "./SourceModal";
 import ChartRenderer from "./ChartRenderer";
 import RiskDisplay from "./RiskDisplay";
 import MetricsGrid from "./MetricsGrid";
+import ContagionGraph from "./ContagionGraph";
 
 interface RiskAnalysis {
   overallRisk: "low" | "medium" | "high" | "critical";
@@ -30,16 +34,25 @@ interface RiskAnalysis {
   recommendations?: string[];
 }
 
+interface ContagionSimulation {
+  sourceEntity: string;
+  affectedEntities: Array<{
+    name: string;
+    impactLevel: number;
+    hops: number;
+    exposureInr: number;
+  }>;
+  totalExposure: number;
+  debtRank: number;
+  systemicRisk: boolean;
+}
+
 interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   sources?: SourceData[];
-  chartConfig?: {
-    type: "bar" | "line" | "pie" | "area" | "scatter";
-    title: string;
-    data: Array<{ name: string; value: number }>;
-  };
+  chartConfig?: ChartConfig;
   riskAnalysis?: RiskAnalysis;
   metrics?: Array<{
     name: string;
@@ -47,6 +60,31 @@ interface Message {
     unit?: string;
     change?: number;
   }>;
+  contagion?: ContagionSimulation;
+  toolCalls?: ToolCall[];
+  validationErrors?: Array<{ block: string; errors: string[] }>;
+  isStreaming?: boolean;
+}
+
+interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  error?: string;
+  durationMs: number;
+}
+
+// Hide structured blocks (complete or still streaming) from the visible text;
+// they arrive separately as chart/risk/metrics events.
+function visibleContent(content: string): string {
+  return content
+    .replace(/```(?:chart|risk|metrics)\n?[\s\S]*?```/g, "")
+    .replace(/```(?:chart|risk|metrics)[\s\S]*$/, "");
+}
+
+function upsertMessage(messages: Message[], message: Message): Message[] {
+  const index = messages.findIndex((m) => m.id === message.id);
+  if (index === -1) return [...messages, message];
+  return messages.map((m, i) => (i === index ? message : m));
 }
 
 interface ChatInterfaceProps {
@@ -58,6 +96,7 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [statusText, setStatusText] = useState<string | null>(null);
   const [modalSources, setModalSources] = useState<SourceData[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -94,6 +133,113 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
     setEditContent("");
   };
 
+  const streamChat = async (
+    body: object,
+    onUpdate: (message: Message) => void,
+  ): Promise<void> => {
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (
+      !response.ok ||
+      !response.headers.get("content-type")?.includes("text/event-stream")
+    ) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(
+        data.error || data.details || `${response.status} ${response.statusText}`,
+      );
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error("No response");
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let message: Message = {
+      id: `assistant_${Date.now()}`,
+      role: "assistant",
+      content: "",
+      isStreaming: true,
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split("\n\n");
+      buffer = events.pop() || "";
+
+      for (const line of events.filter((l) => l.startsWith("data:"))) {
+        let data;
+        try {
+          data = JSON.parse(line.replace("data: ", ""));
+        } catch {
+          continue;
+        }
+
+        switch (data.event) {
+          case "status":
+            setStatusText(data.message);
+            continue;
+          case "token":
+            message = { ...message, content: message.content + data.text };
+            break;
+          case "chart":
+            message = { ...message, chartConfig: data.chartConfig };
+            break;
+          case "risk":
+            message = { ...message, riskAnalysis: data.riskAnalysis };
+            break;
+          case "metrics":
+            message = { ...message, metrics: data.metrics };
+            break;
+          case "sources":
+            message = { ...message, sources: data.sources };
+            break;
+          case "contagion":
+            message = { ...message, contagion: data.contagion };
+            break;
+          case "toolCalls":
+            message = { ...message, toolCalls: data.toolCalls };
+            break;
+          case "validationError":
+            message = {
+              ...message,
+              validationErrors: [
+                ...(message.validationErrors || []),
+                { block: data.block, errors: data.errors },
+              ],
+            };
+            break;
+          case "complete":
+            message = {
+              ...message,
+              content: data.response,
+              sources: data.sources,
+              chartConfig: data.chartConfig,
+              riskAnalysis: data.riskAnalysis,
+              metrics: data.metrics,
+              contagion: data.contagion,
+              toolCalls: data.toolCalls,
+              validationErrors: data.validationErrors,
+              isStreaming: false,
+            };
+            break;
+          case "error":
+            throw new Error(data.details || data.message);
+          default:
+            continue;
+        }
+
+        onUpdate(message);
+      }
+    }
+  };
+
   const submitEdit = async (originalId: string) => {
     if (!editContent.trim() || isLoading) return;
 
@@ -115,54 +261,17 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
     setMessages([...newMessages, newUserMessage]);
     setIsLoading(true);
 
-    const readResponseBody = async (response: Response): Promise<any> => {
-      const text = await response.text().catch(() => "");
-      const contentType = response.headers.get("content-type") || "";
-
-      if (
-        contentType.includes("application/json") ||
-        text.trim().startsWith("{")
-      ) {
-        try {
-          return JSON.parse(text || "{}");
-        } catch {
-          // fall through
-        }
-      }
-
-      return {
-        success: false,
-        error: text || `${response.status} ${response.statusText}`,
-      };
-    };
-
     try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      await streamChat(
+        {
           message: editedContent,
           sessionId,
           isEdit: true,
           originalMessageId: originalId,
-        }),
-      });
-
-      const data = await readResponseBody(response);
-
-      if (data.success) {
-        const assistantMessage: Message = {
-          id: `assistant_${Date.now()}`,
-          role: "assistant",
-          content: data.response,
-          sources: data.sources,
-          chartConfig: data.chartConfig,
-          riskAnalysis: data.riskAnalysis,
-          metrics: data.metrics,
-        };
-
-        setMessages([...newMessages, newUserMessage, assistantMessage]);
-      }
+        },
+        (assistantMessage) =>
+          setMessages([...newMessages, newUserMessage, assistantMessage]),
+      );
     } catch {
       setMessages([
         ...newMessages,
@@ -175,6 +284,7 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
       ]);
     } finally {
       setIsLoading(false);
+      setStatusText(null);
       setTimeout(scrollToBottom, 100);
     }
   };
@@ -193,69 +303,24 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
     setInput("");
     setIsLoading(true);
 
-    const readResponseBody = async (response: Response): Promise<any> => {
-      const text = await response.text().catch(() => "");
-      const contentType = response.headers.get("content-type") || "";
-
-      if (
-        contentType.includes("application/json") ||
-        text.trim().startsWith("{")
-      ) {
-        try {
-          return JSON.parse(text || "{}");
-        } catch {
-          // fall through
-        }
-      }
-
-      return {
-        success: false,
-        error: text || `${response.status} ${response.statusText}`,
-      };
-    };
-
     try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: userMessage.content, sessionId }),
-      });
-
-      const data = await readResponseBody(response);
-
-      if (data.success) {
-        const assistantMessage: Message = {
-          id: `assistant_${Date.now()}`,
-          role: "assistant",
-          content: data.response,
-          sources: data.sources,
-          chartConfig: data.chartConfig,
-          riskAnalysis: data.riskAnalysis,
-          metrics: data.metrics,
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
-      } else {
-        setMessages((prev) => [
-          ...prev,
-          {
-            id: `error_${Date.now()}`,
-            role: "assistant",
-            content: `**Error:** ${data.error || data.details || "Something went wrong"}`,
-          },
-        ]);
-      }
-    } catch {
+      await streamChat(
+        { message: userMessage.content, sessionId },
+        (assistantMessage) =>
+          setMessages((prev) => upsertMessage(prev, assistantMessage)),
+      );
+    } catch (error) {
       setMessages((prev) => [
-        ...prev,
+        ...prev.filter((m) => !m.isStreaming),
         {
           id: `error_${Date.now()}`,
           role: "assistant",
-          content: "**Error:** Failed to connect. Please try again.",
+          content: `**Error:** ${error instanceof Error ? error.message : "Failed to connect. Please try again."}`,
         },
       ]);
     } finally {
       setIsLoading(false);
+      setStatusText(null);
       setTimeout(scrollToBottom, 100);
     }
   };
@@ -268,49 +333,11 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
     setMessages(newMessages);
     setIsLoading(true);
 
-    const readResponseBody = async (response: Response): Promise<any> => {
-      const text = await response.text().catch(() => "");
-      const contentType = response.headers.get("content-type") || "";
-
-      if (
-        contentType.includes("application/json") ||
-        text.trim().startsWith("{")
-      ) {
-        try {
-          return JSON.parse(text || "{}");
-        } catch {
-          // fall through
-        }
-      }
-
-      return {
-        success: false,
-        error: text || `${response.status} ${response.statusText}`,
-      };
-    };
-
     try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: userMessage.content, sessionId }),
-      });
-
-      const data = await readResponseBody(response);
-
-      if (data.success) {
-        const assistantMessage: Message = {
-          id: `assistant_${Date.now()}`,
-          role: "assistant",
-          content: data.response,
-          sources: data.sources,
-          chartConfig: data.chartConfig,
-          riskAnalysis: data.riskAnalysis,
-          metrics: data.metrics,
-        };
-
-        setMessages([...newMessages, assistantMessage]);
-      }
+      await streamChat(
+        { message: userMessage.content, sessionId },
+        (assistantMessage) => setMessages([...newMessages, assistantMessage]),
+      );
     } catch {
       setMessages([
         ...newMessages,
@@ -322,6 +349,7 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
       ]);
     } finally {
       setIsLoading(false);
+      setStatusText(null);
     }
   };
 
@@ -450,7 +478,14 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
                             {message.content}
                           </p>
                         ) : (
-                          <MarkdownRenderer content={message.content} />
+                          <MarkdownRenderer
+                            content={
+                              message.isStreaming
+                                ? visibleContent(message.content)
+                                : message.content
+                            }
+                            streaming={message.isStreaming}
+                          />
                         )}
 
                         {message.role === "user" && (
@@ -493,6 +528,42 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
                   </div>
                 </div>
 
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                  <div className="ml-4 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                    <Wrench className="w-3 h-3" />
+                    {message.toolCalls.map((call, i) => (
+                      <span
+                        key={`${call.name}_${i}`}
+                        title={JSON.stringify(call.args)}
+                        className={cn(
+                          "px-2 py-0.5 rounded-md border",
+                          call.error
+                            ? "border-red-500/30 text-red-400"
+                            : "border-slate-700/50 bg-slate-800/50",
+                        )}
+                      >
+                        {call.name}
+                        <span className="text-slate-500 ml-1">
+                          {call.durationMs}ms
+                        </span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {message.validationErrors?.map((v) => (
+                  <div
+                    key={v.block}
+                    className="ml-4 flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-xs text-amber-300"
+                  >
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>
+                      The {v.block} block failed validation and was omitted:{" "}
+                      {v.errors.join("; ")}
+                    </span>
+                  </div>
+                ))}
+
                 {message.riskAnalysis && (
                   <motion.div
                     initial={{ opacity: 0, scale: 0.95 }}
@@ -518,6 +589,22 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
                   </motion.div>
                 )}
 
+                {message.contagion && (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className="ml-4"
+                  >
+                    <ContagionGraph
+                      sourceEntity={message.contagion.sourceEntity}
+                      affectedEntities={message.contagion.affectedEntities}
+                      totalExposure={message.contagion.totalExposure}
+                      debtRank={message.contagion.debtRank}
+                      systemicRisk={message.contagion.systemicRisk}
+                    />
+                  </motion.div>
+                )}
+
                 {message.chartConfig && (
                   <motion.div
                     initial={{ opacity: 0, scale: 0.95 }}
@@ -531,7 +618,7 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
             ))}
           </AnimatePresence>
 
-          {isLoading && (
+          {isLoading && !messages.some((m) => m.isStreaming) && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -543,7 +630,8 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
                   <div className="absolute inset-0 bg-emerald-400/20 rounded-full animate-ping" />
                 </div>
                 <span className="text-slate-400">
-                  {sessionId ? "Analyzing documents..." : "Thinking..."}
+                  {statusText ||
+                    (sessionId ? "Analyzing documents..." : "Thinking...")}
                 </span>
               </div>
             </motion.div>
@@ -584,6 +672,7 @@ export default function ChatInterface({ sessionId }: ChatInterfaceProps) {
         sources={modalSources}
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
+        sessionId={sessionId}
       />
     </>
   );
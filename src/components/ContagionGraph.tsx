@@ -2,17 +2,20 @@
 
 import { motion } from "framer-motion";
 import { Network, AlertCircle, ArrowRight, Zap } from "lucide-react";
+import { formatIndianCurrency } from "@/lib/utils";
 
 interface ContagionNode {
   name: string;
   impactLevel: number;
   hops: number;
+  exposureInr?: number;
 }
 
 interface ContagionGraphProps {
   sourceEntity: string;
   affectedEntities: ContagionNode[];
   totalExposure: number;
+  debtRank?: number;
   systemicRisk: boolean;
 }
 
@@ -20,6 +23,7 @@ export default function ContagionGraph({
   sourceEntity, 
   affectedEntities, 
   totalExposure, 
+  debtRank,
   systemicRisk 
 }: ContagionGraphProps) {
   const maxImpact = Math.max(...affectedEntities.map(e => e.impactLevel), 0.1);
@@ -93,7 +97,11 @@ export default function ContagionGraph({
                   <div className="text-lg font-bold text-red-400">
                     {(entity.impactLevel * 100).toFixed(1)}%
                   </div>
-                  <div className="text-xs text-slate-400">Impact</div>
+                  <div className="text-xs text-slate-400">
+                    {entity.exposureInr
+                      ? `${formatIndianCurrency(entity.exposureInr)} at risk`
+                      : "Impact"}
+                  </div>
                 </div>
               </div>
             </motion.div>
@@ -104,8 +112,14 @@ export default function ContagionGraph({
       <div className="flex items-center justify-between pt-4 border-t border-slate-700/50">
         <div>
           <div className="text-sm text-slate-400">Total Exposure</div>
-          <div className="text-xl font-bold text-white">{(totalExposure * 100).toFixed(1)}%</div>
+          <div className="text-xl font-bold text-white">{formatIndianCurrency(totalExposure)}</div>
         </div>
+        {debtRank !== undefined && (
+          <div className="text-center">
+            <div className="text-sm text-slate-400">DebtRank</div>
+            <div className="text-xl font-bold text-white">{debtRank.toFixed(2)}</div>
+          </div>
+        )}
         <div className="text-right">
           <div className="text-sm text-slate-400">Affected Entities</div>
           <div className="text-xl font-bold text-white">{affectedEntities.length}</div>
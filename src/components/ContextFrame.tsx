@@ -3,13 +3,14 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { FileText, ExternalLink, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { BoundingBox } from "@/lib/bounding-box";
 
 export interface SourceContextData {
   filename: string;
   pageNumber: number;
   excerpt: string;
   relevanceScore?: number;
-  boundingBox?: { x: number; y: number; width: number; height: number };
+  boundingBox?: BoundingBox;
 }
 
 interface ContextFrameProps {
@@ -103,7 +104,7 @@ export default function ContextFrame({ sources, onClose, className }: ContextFra
                     <div className="mt-2 flex items-center gap-1 text-xs text-slate-500">
                       <ExternalLink className="w-3 h-3" />
                       <span>
-                        Position: {source.boundingBox.x.toFixed(0)}%, {source.boundingBox.y.toFixed(0)}%
+                        Position: {(source.boundingBox.x * 100).toFixed(0)}%, {(source.boundingBox.y * 100).toFixed(0)}%
                       </span>
                     </div>
                   )}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import { Document, Page, pdfjs } from "react-pdf";
+import "react-pdf/dist/Page/TextLayer.css";
+import { X, FileText, ExternalLink, Loader2, AlertCircle } from "lucide-react";
+import type { SourceData } from "./SourceModal";
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+  "pdfjs-dist/build/pdf.worker.min.mjs",
+  import.meta.url,
+).toString();
+
+interface DocumentViewerProps {
+  sessionId: string;
+  source: SourceData;
+  onClose: () => void;
+}
+
+const PAGE_WIDTH = 720;
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "webp", "gif", "bmp"];
+
+const matchKey = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+
+function Highlight({ source }: { source: SourceData }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    ref.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [source]);
+
+  if (!source.boundingBox) return null;
+  const { x, y, width, height } = source.boundingBox;
+  return (
+    <div
+      ref={ref}
+      className="absolute pointer-events-none rounded-sm bg-amber-300/25 ring-2 ring-amber-400/80"
+      style={{
+        left: `calc(${x * 100}% - 4px)`,
+        top: `calc(${y * 100}% - 4px)`,
+        width: `calc(${width * 100}% + 8px)`,
+        height: `calc(${height * 100}% + 8px)`,
+      }}
+    />
+  );
+}
+
+export default function DocumentViewer({
+  sessionId,
+  source,
+  onClose,
+}: DocumentViewerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const ext = source.filename.toLowerCase().split(".").pop() || "";
+
+  // SourceModal keys the viewer by document, so another file remounts it
+  // with empty state instead of resetting here.
+  useEffect(() => {
+    let cancelled = false;
+
+    const params = new URLSearchParams({ sessionId, filename: source.filename });
+    fetch(`/api/session/documents?${params}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`);
+        if (!cancelled) setUrl(data.url);
+      })
+      .catch((err) => !cancelled && setError(String(err.message || err)));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, source.filename]);
+
+  // Without a stored box, marks the text-layer items that occur in the
+  // excerpt so the passage still stands out.
+  const excerptKey = matchKey(source.excerpt);
+  const renderText = useCallback(
+    ({ str }: { str: string }) => {
+      const key = matchKey(str);
+      const marked = !source.boundingBox && key.length >= 4 && excerptKey.includes(key);
+      return marked
+        ? `<mark class="bg-amber-300/60 text-transparent">${escapeHtml(str)}</mark>`
+        : escapeHtml(str);
+    },
+    [excerptKey, source.boundingBox],
+  );
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[60]"
+      />
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.97 }}
+        transition={{ type: "spring", damping: 25, stiffness: 300 }}
+        className="fixed inset-4 md:inset-y-6 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[800px] z-[70] flex flex-col bg-slate-900 rounded-2xl border border-slate-700/50 shadow-2xl shadow-black/50 overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-700/50 bg-gradient-to-r from-slate-800 to-slate-900">
+          <div className="flex items-center gap-3 min-w-0">
+            <FileText className="w-5 h-5 text-emerald-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <h3 className="text-sm font-semibold text-white truncate">{source.filename}</h3>
+              <p className="text-xs text-slate-400 truncate">
+                Page {source.pageNumber}
+                {source.section ? ` · ${source.section}` : ""}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {url && (
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-2 rounded-lg hover:bg-slate-700/50 transition-colors"
+                title="Open original"
+              >
+                <ExternalLink className="w-4 h-4 text-slate-400" />
+              </a>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-slate-700/50 transition-colors"
+            >
+              <X className="w-5 h-5 text-slate-400" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 bg-slate-950/60">
+          {error && (
+            <div className="flex items-center justify-center gap-2 py-16 text-sm text-red-400">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {!error && !url && (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-6 h-6 text-emerald-400 animate-spin" />
+            </div>
+          )}
+
+          {url && ext === "pdf" && (
+            <Document
+              file={url}
+              loading={
+                <div className="flex items-center justify-center py-16">
+                  <Loader2 className="w-6 h-6 text-emerald-400 animate-spin" />
+                </div>
+              }
+              onLoadError={(err) => setError(`Could not open PDF: ${err.message}`)}
+              className="flex justify-center"
+            >
+              <div className="relative shadow-xl">
+                <Page
+                  pageNumber={source.pageNumber}
+                  width={PAGE_WIDTH}
+                  renderAnnotationLayer={false}
+                  customTextRenderer={renderText}
+                />
+                <Highlight source={source} />
+              </div>
+            </Document>
+          )}
+
+          {url && IMAGE_EXTENSIONS.includes(ext) && (
+            <div className="flex justify-center">
+              <div className="relative shadow-xl">
+                {/* Signed storage URLs expire, so they bypass the optimizer. */}
+                <Image
+                  src={url}
+                  alt={source.filename}
+                  width={PAGE_WIDTH}
+                  height={0}
+                  unoptimized
+                  style={{ width: PAGE_WIDTH, height: "auto" }}
+                />
+                <Highlight source={source} />
+              </div>
+            </div>
+          )}
+
+          {url && ext !== "pdf" && !IMAGE_EXTENSIONS.includes(ext) && (
+            <div className="flex flex-col items-center justify-center gap-3 py-16 text-sm text-slate-400">
+              <p>No inline preview for .{ext} files.</p>
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-emerald-400 hover:text-emerald-300"
+              >
+                <ExternalLink className="w-4 h-4" />
+                Open original
+              </a>
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-700/50 bg-slate-900/90">
+          <p className="text-xs text-slate-400 line-clamp-2">
+            <span className="text-emerald-400/60">&ldquo;</span>
+            {source.excerpt}
+            <span className="text-emerald-400/60">&rdquo;</span>
+          </p>
+        </div>
+      </motion.div>
+    </>
+  );
+}
@@ -12,6 +12,8 @@ import {
 } from "lucide-react";
 import { uploadFile } from "@/lib/supabase";
 import { cn } from "@/lib/utils";
+import type { IndexingReport } from "@/lib/indexing";
+import type { OcrEngineChoice } from "@/lib/ocr";
 
 interface FileUploadProps {
   onUploadComplete: (sessionId: string, files: string[]) => void;
@@ -28,6 +30,23 @@ interface UploadedFile {
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024;
 
+function coverageMessage(report?: IndexingReport): string {
+  if (!report) return "Complete";
+  const skipped = report.chunksSkipped
+    ? `, ${report.chunksSkipped} chunks skipped`
+    : "";
+  return `${report.pagesIndexed}/${report.pagesTotal} pages indexed${skipped}`;
+}
+
+const OCR_ENGINES: Array<{ value: OcrEngineChoice; label: string }> = [
+  { value: "auto", label: "Auto (by script)" },
+  { value: "gemini", label: "Gemini Vision" },
+  { value: "cloud-vision", label: "Cloud Vision" },
+  { value: "tesseract", label: "Tesseract (on this device)" },
+];
+
+const TESSERACT_EXTENSIONS = ["pdf", "png", "jpg", "jpeg", "webp", "bmp"];
+
 const SUPPORTED_FORMATS = [
   { ext: "pdf", label: "PDF", color: "text-red-400" },
   { ext: "docx", label: "Word", color: "text-blue-400" },
@@ -46,6 +65,7 @@ export default function FileUpload({
   const [isProcessing, setIsProcessing] = useState(false);
   const [overallProgress, setOverallProgress] = useState(0);
   const [statusMessage, setStatusMessage] = useState("");
+  const [ocrEngine, setOcrEngine] = useState<OcrEngineChoice>("auto");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const processingRef = useRef(false);
 
@@ -83,13 +103,19 @@ export default function FileUpload({
     filename: string,
     storagePath: string,
     updateStatus: (msg: string, pct: number) => void,
-  ): Promise<{ sessionId: string; pages: number }> => {
+  ): Promise<{ sessionId: string; pages: number; report?: IndexingReport }> => {
     updateStatus("Initiating processing job...", 5);
 
     const response = await fetch("/api/direct-upload", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ blobUrl, filename, storagePath, sessionId }),
+      body: JSON.stringify({
+        blobUrl,
+        filename,
+        storagePath,
+        sessionId,
+        ocrEngine,
+      }),
     });
 
     if (!response.ok) {
@@ -124,6 +150,7 @@ export default function FileUpload({
         return {
           sessionId: statusData.result.sessionId,
           pages: statusData.result.pages,
+          report: statusData.report,
         };
       }
 
@@ -143,7 +170,7 @@ export default function FileUpload({
     filename: string,
     storagePath: string,
     updateStatus: (msg: string, pct: number) => void,
-  ): Promise<string> => {
+  ): Promise<{ sessionId: string; report?: IndexingReport }> => {
     updateStatus("Processing...", 40);
 
     const response = await fetch("/api/upload", {
@@ -152,6 +179,7 @@ export default function FileUpload({
       body: JSON.stringify({
         blobUrls: [{ url: blobUrl, filename, path: storagePath }],
         sessionId,
+        ocrEngine,
       }),
     });
 
@@ -162,6 +190,7 @@ export default function FileUpload({
 
     const decoder = new TextDecoder();
     let newSessionId = sessionId || "";
+    let report: IndexingReport | undefined;
 
     while (true) {
       const { done, value } = await reader.read();
@@ -174,6 +203,7 @@ export default function FileUpload({
         try {
           const data = JSON.parse(line.replace("data: ", ""));
           if (data.sessionId) newSessionId = data.sessionId;
+          if (data.event === "file_complete") report = data.report;
           if (data.event === "status")
             updateStatus(data.message, data.progress || 50);
         } catch {
@@ -182,7 +212,43 @@ export default function FileUpload({
       }
     }
 
-    return newSessionId;
+    return { sessionId: newSessionId, report };
+  };
+
+  // Tesseract runs here in the browser; the server only chunks and indexes
+  // the recognized text.
+  const processWithTesseract = async (
+    file: File,
+    blobUrl: string,
+    storagePath: string,
+    updateStatus: (msg: string, pct: number) => void,
+  ): Promise<{ sessionId: string; pages: number; report?: IndexingReport }> => {
+    const { recognizeWithTesseract } = await import("@/lib/tesseract-ocr");
+    const result = await recognizeWithTesseract(file, (step) =>
+      updateStatus(step, 30),
+    );
+
+    updateStatus("Indexing recognized text...", 80);
+    const response = await fetch("/api/index", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        extractedText: result.text,
+        filename: file.name,
+        pages: result.pages,
+        sessionId,
+        ocrEngine: "tesseract",
+        pageConfidence: result.pageConfidence,
+        storagePath,
+        fileUrl: blobUrl,
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Indexing failed: ${response.status}`);
+    }
+    return { sessionId: data.sessionId, pages: data.pages, report: data.report };
   };
 
   const processFiles = useCallback(
@@ -204,6 +270,11 @@ export default function FileUpload({
           const file = uploadedFile.file;
           const isPDF = file.name.toLowerCase().endsWith(".pdf");
           const isLarge = isPDF && file.size > 2 * 1024 * 1024;
+          const useTesseract =
+            ocrEngine === "tesseract" &&
+            TESSERACT_EXTENSIONS.includes(
+              file.name.toLowerCase().split(".").pop() || "",
+            );
 
           setFiles((prev) => {
             const updated = new Map(prev);
@@ -236,15 +307,37 @@ export default function FileUpload({
             const { url: blobUrl, path: storagePath } =
               await uploadToStorage(file);
 
-            if (isLarge) {
+            if (useTesseract) {
+              const { sessionId: newSessionId, pages, report } =
+                await processWithTesseract(
+                  file,
+                  blobUrl,
+                  storagePath,
+                  updateStatus,
+                );
+              onUploadComplete(newSessionId, [file.name]);
+
+              setFiles((prev) => {
+                const updated = new Map(prev);
+                updated.set(file.name, {
+                  ...uploadedFile,
+                  status: "complete",
+                  progress: 100,
+                  pages,
+                  message: coverageMessage(report),
+                });
+                return updated;
+              });
+            } else if (isLarge) {
               updateStatus("Large PDF - async background processing...", 10);
 
-              const { sessionId: newSessionId, pages } = await processWithAsync(
-                blobUrl,
-                file.name,
-                storagePath,
-                updateStatus,
-              );
+              const { sessionId: newSessionId, pages, report } =
+                await processWithAsync(
+                  blobUrl,
+                  file.name,
+                  storagePath,
+                  updateStatus,
+                );
 
               onUploadComplete(newSessionId, [file.name]);
 
@@ -255,12 +348,14 @@ export default function FileUpload({
                   status: "complete",
                   progress: 100,
                   pages,
-                  message: `${pages} pages indexed`,
+                  message: report
+                    ? coverageMessage(report)
+                    : `${pages} pages indexed`,
                 });
                 return updated;
               });
             } else {
-              const newSessionId = await processSmallFile(
+              const { sessionId: newSessionId, report } = await processSmallFile(
                 blobUrl,
                 file.name,
                 storagePath,
@@ -274,7 +369,7 @@ export default function FileUpload({
                   ...uploadedFile,
                   status: "complete",
                   progress: 100,
-                  message: "Complete",
+                  message: coverageMessage(report),
                 });
                 return updated;
               });
@@ -299,7 +394,7 @@ export default function FileUpload({
         setIsProcessing(false);
       }
     },
-    [sessionId, onUploadComplete],
+    [sessionId, onUploadComplete, ocrEngine],
   );
 
   const addFiles = useCallback((newFiles: FileList | File[]) => {
@@ -400,6 +495,25 @@ export default function FileUpload({
         </div>
       </div>
 
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <label htmlFor="ocr-engine" className="text-slate-400">
+          OCR engine for scanned pages
+        </label>
+        <select
+          id="ocr-engine"
+          value={ocrEngine}
+          disabled={isProcessing}
+          onChange={(e) => setOcrEngine(e.target.value as OcrEngineChoice)}
+          className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200 text-xs focus:outline-none focus:border-emerald-500"
+        >
+          {OCR_ENGINES.map((engine) => (
+            <option key={engine.value} value={engine.value}>
+              {engine.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {files.size > 0 && (
         <div className="space-y-2">
           <AnimatePresence>
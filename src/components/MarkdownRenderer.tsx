@@ -7,9 +7,26 @@ import { cn } from "@/lib/utils";
 interface MarkdownRendererProps {
   content: string;
   className?: string;
+  streaming?: boolean;
 }
 
-export default function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+// Close constructs left open mid-stream so partial markdown renders as it
+// will once complete instead of flashing raw markers.
+function closeOpenMarkdown(content: string): string {
+  let closed = content;
+  if ((closed.match(/```/g) || []).length % 2 === 1) {
+    return `${closed}\n\`\`\``;
+  }
+  if ((closed.match(/\*\*/g) || []).length % 2 === 1) {
+    closed += "**";
+  }
+  if ((closed.match(/(^|[^`])`(?!`)/g) || []).length % 2 === 1) {
+    closed += "`";
+  }
+  return closed;
+}
+
+export default function MarkdownRenderer({ content, className, streaming }: MarkdownRendererProps) {
   return (
     <div className={cn("prose prose-invert prose-sm max-w-none", className)}>
       <ReactMarkdown
@@ -112,8 +129,11 @@ export default function MarkdownRenderer({ content, className }: MarkdownRendere
           ),
         }}
       >
-        {content}
+        {streaming ? closeOpenMarkdown(content) : content}
       </ReactMarkdown>
+      {streaming && (
+        <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-emerald-400 animate-pulse" />
+      )}
     </div>
   );
 }
@@ -0,0 +1,226 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Briefcase, Loader2, Upload, AlertCircle } from "lucide-react";
+import MetricsGrid from "./MetricsGrid";
+import ChartRenderer from "./ChartRenderer";
+
+interface PortfolioResult {
+  metrics: Array<{ name: string; value: number | string; unit?: string }>;
+  charts: Array<{
+    type: "bar" | "line" | "pie" | "area" | "scatter";
+    title: string;
+    data: Array<{ name: string; value: number }>;
+  }>;
+  correlation: { symbols: string[]; matrix: number[][] };
+  analytics: { observations: number; portfolioValue: number };
+}
+
+function parseHoldings(text: string): Array<Record<string, unknown>> {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("[")) return JSON.parse(trimmed);
+
+  // One holding per line: SYMBOL,quantity,price
+  return trimmed
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((c) => c.trim()))
+    .filter((cells) => cells[0])
+    .map(([symbol, quantity, price]) => ({
+      symbol,
+      quantity: quantity ? parseFloat(quantity) : undefined,
+      price: price ? parseFloat(price) : undefined,
+    }));
+}
+
+function correlationColor(value: number): string {
+  const alpha = Math.min(0.6, Math.abs(value) * 0.6);
+  return value >= 0
+    ? `rgba(16, 185, 129, ${alpha})`
+    : `rgba(239, 68, 68, ${alpha})`;
+}
+
+export default function PortfolioAnalyzer() {
+  const [file, setFile] = useState<File | null>(null);
+  const [holdings, setHoldings] = useState("");
+  const [confidence, setConfidence] = useState("0.95");
+  const [horizonDays, setHorizonDays] = useState("1");
+  const [seriesType, setSeriesType] = useState("auto");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PortfolioResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const analyze = async () => {
+    if (!file || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("holdings", JSON.stringify(parseHoldings(holdings)));
+      form.append("confidence", confidence);
+      form.append("horizonDays", horizonDays);
+      form.append("seriesType", seriesType);
+
+      const response = await fetch("/api/portfolio", {
+        method: "POST",
+        body: form,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.details || data.error || "Analysis failed");
+      }
+      setResult(data);
+    } catch (err) {
+      setError(String(err instanceof Error ? err.message : err));
+      setResult(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-3 p-4 rounded-xl border-2 border-dashed border-slate-700 hover:border-slate-600 hover:bg-slate-800/30 cursor-pointer transition-all"
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="hidden"
+          />
+          <Upload className="w-6 h-6 text-slate-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm text-white truncate">
+              {file ? file.name : "Returns or prices (CSV / JSON)"}
+            </p>
+            <p className="text-xs text-slate-400">
+              Columns: date, then one column per symbol
+            </p>
+          </div>
+        </div>
+
+        <textarea
+          value={holdings}
+          onChange={(e) => setHoldings(e.target.value)}
+          placeholder={"Holdings (optional), one per line:\nHDFCBANK,100,1650\nINFY,50,1480"}
+          className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 min-h-[72px] resize-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={confidence}
+          onChange={(e) => setConfidence(e.target.value)}
+          className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          <option value="0.95">95% confidence</option>
+          <option value="0.99">99% confidence</option>
+        </select>
+        <select
+          value={horizonDays}
+          onChange={(e) => setHorizonDays(e.target.value)}
+          className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          <option value="1">1-day horizon</option>
+          <option value="10">10-day horizon</option>
+        </select>
+        <select
+          value={seriesType}
+          onChange={(e) => setSeriesType(e.target.value)}
+          className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          <option value="auto">Detect prices or returns</option>
+          <option value="prices">Prices</option>
+          <option value="returns">Returns (fractions)</option>
+        </select>
+        <button
+          onClick={analyze}
+          disabled={!file || isLoading}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-emerald-600 to-teal-600 text-sm text-white disabled:opacity-50 disabled:cursor-not-allowed hover:scale-105 active:scale-95 transition-transform"
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Briefcase className="w-4 h-4" />
+          )}
+          Analyze portfolio
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4"
+        >
+          <MetricsGrid
+            metrics={result.metrics}
+            title={`Portfolio Risk (${result.analytics.observations} observations)`}
+          />
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {result.charts.map((chart) => (
+              <ChartRenderer key={chart.title} config={chart} />
+            ))}
+
+            {result.correlation.symbols.length > 1 && (
+              <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-4 overflow-x-auto">
+                <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                  <div className="w-2 h-2 rounded-full bg-emerald-400" />
+                  Correlation matrix
+                </h3>
+                <table className="w-full border-collapse text-xs">
+                  <thead>
+                    <tr>
+                      <th />
+                      {result.correlation.symbols.map((s) => (
+                        <th key={s} className="px-2 py-1 text-slate-400 font-medium">
+                          {s}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.correlation.matrix.map((row, i) => (
+                      <tr key={result.correlation.symbols[i]}>
+                        <td className="px-2 py-1 text-slate-400 font-medium">
+                          {result.correlation.symbols[i]}
+                        </td>
+                        {row.map((value, j) => (
+                          <td
+                            key={j}
+                            className="px-2 py-1 text-center text-white border border-slate-700/50"
+                            style={{ backgroundColor: correlationColor(value) }}
+                          >
+                            {value.toFixed(2)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
-import { FileText, ChevronRight } from "lucide-react";
+import { FileText, ChevronRight, Trash2, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface Source {
@@ -15,6 +16,8 @@ interface SourceSidebarProps {
   sources: Source[];
   documents: string[];
   onSourceClick?: (source: Source) => void;
+  onDeleteDocument?: (filename: string) => Promise<void>;
+  onClearSession?: () => Promise<void>;
   isOpen: boolean;
 }
 
@@ -22,8 +25,22 @@ export default function SourceSidebar({
   sources,
   documents,
   onSourceClick,
+  onDeleteDocument,
+  onClearSession,
   isOpen,
 }: SourceSidebarProps) {
+  const [pending, setPending] = useState<string | null>(null);
+
+  const runPending = async (key: string, action: () => Promise<void>) => {
+    if (pending) return;
+    setPending(key);
+    try {
+      await action();
+    } finally {
+      setPending(null);
+    }
+  };
+
   return (
     <motion.div
       initial={{ width: 0, opacity: 0 }}
@@ -36,7 +53,22 @@ export default function SourceSidebar({
     >
       <div className="w-80 h-full flex flex-col">
         <div className="px-4 py-4 border-b border-slate-800/50">
-          <h3 className="text-sm font-semibold text-white">Documents</h3>
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-white">Documents</h3>
+            {onClearSession && documents.length > 0 && (
+              <button
+                onClick={() => {
+                  if (confirm("Remove all documents and conversation from this session?")) {
+                    runPending("__session__", onClearSession);
+                  }
+                }}
+                disabled={!!pending}
+                className="text-xs text-slate-500 hover:text-red-400 transition-colors disabled:opacity-50"
+              >
+                {pending === "__session__" ? "Clearing..." : "Clear session"}
+              </button>
+            )}
+          </div>
           <p className="text-xs text-slate-500 mt-1">
             {documents.length} file(s) loaded
           </p>
@@ -52,12 +84,26 @@ export default function SourceSidebar({
                 {documents.map((doc, i) => (
                   <div
                     key={i}
-                    className="flex items-center gap-2 p-2 rounded-lg bg-slate-800/30"
+                    className="group flex items-center gap-2 p-2 rounded-lg bg-slate-800/30"
                   >
                     <FileText className="w-4 h-4 text-emerald-400 flex-shrink-0" />
-                    <span className="text-sm text-slate-300 truncate">
+                    <span className="flex-1 text-sm text-slate-300 truncate">
                       {doc}
                     </span>
+                    {onDeleteDocument && (
+                      <button
+                        onClick={() => runPending(doc, () => onDeleteDocument(doc))}
+                        disabled={!!pending}
+                        title={`Remove ${doc}`}
+                        className="p-1 rounded text-slate-500 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-red-500/10 transition-all disabled:opacity-50"
+                      >
+                        {pending === doc ? (
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-3.5 h-3.5" />
+                        )}
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
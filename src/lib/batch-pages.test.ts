@@ -0,0 +1,177 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkPages, splitBatchPages } from "./chunking";
+import { indexChunks, IndexableChunk } from "./indexing";
+import { buildLexicalIndex } from "./lexical-index";
+import { createFakeProvider } from "./llm-provider";
+import { RetrievalBackend } from "./retrieval";
+import { createMemoryVectorStore, VectorRecord } from "./vector-store";
+
+// Vision output for one direct-upload OCR batch, and the page each passage
+// must be indexed under.
+interface BatchFixture {
+  name: string;
+  firstPage: number;
+  lastPage: number;
+  text: string;
+  expected: Array<{ marker: string; pageNumber: number; estimated: boolean }>;
+}
+
+const passage = (marker: string) =>
+  `${marker}: the lender recorded provisions against stressed infrastructure loans this quarter.`;
+
+const marked = (markers: Array<[string, string]>) =>
+  markers.map(([label, marker]) => `=== PAGE ${label} ===\n${passage(marker)}`).join("\n\n");
+
+const FIXTURES: BatchFixture[] = [
+  {
+    name: "absolute markers",
+    firstPage: 11,
+    lastPage: 13,
+    text: marked([["11", "ALPHA"], ["12", "BRAVO"], ["13", "CHARLIE"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: false },
+      { marker: "BRAVO", pageNumber: 12, estimated: false },
+      { marker: "CHARLIE", pageNumber: 13, estimated: false },
+    ],
+  },
+  {
+    name: "batch-relative markers",
+    firstPage: 11,
+    lastPage: 13,
+    text: marked([["1", "ALPHA"], ["2", "BRAVO"], ["3", "CHARLIE"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: false },
+      { marker: "BRAVO", pageNumber: 12, estimated: false },
+      { marker: "CHARLIE", pageNumber: 13, estimated: false },
+    ],
+  },
+  {
+    name: "out-of-range markers",
+    firstPage: 11,
+    lastPage: 13,
+    text: marked([["40", "ALPHA"], ["41", "BRAVO"], ["42", "CHARLIE"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: true },
+      { marker: "BRAVO", pageNumber: 12, estimated: true },
+      { marker: "CHARLIE", pageNumber: 13, estimated: true },
+    ],
+  },
+  {
+    name: "more markers than pages",
+    firstPage: 11,
+    lastPage: 12,
+    text: marked([["50", "ALPHA"], ["51", "BRAVO"], ["52", "CHARLIE"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: true },
+      { marker: "BRAVO", pageNumber: 12, estimated: true },
+      { marker: "CHARLIE", pageNumber: 12, estimated: true },
+    ],
+  },
+  {
+    name: "mixed absolute and relative markers",
+    firstPage: 11,
+    lastPage: 13,
+    text: marked([["2", "ALPHA"], ["12", "BRAVO"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: true },
+      { marker: "BRAVO", pageNumber: 12, estimated: true },
+    ],
+  },
+  {
+    name: "duplicate absolute markers",
+    firstPage: 11,
+    lastPage: 13,
+    text: marked([["11", "ALPHA"], ["11", "BRAVO"], ["13", "CHARLIE"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: false },
+      { marker: "BRAVO", pageNumber: 11, estimated: false },
+      { marker: "CHARLIE", pageNumber: 13, estimated: false },
+    ],
+  },
+  {
+    name: "duplicate out-of-range markers",
+    firstPage: 11,
+    lastPage: 13,
+    text: marked([["7", "ALPHA"], ["7", "BRAVO"], ["9", "CHARLIE"]]),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: true },
+      { marker: "BRAVO", pageNumber: 12, estimated: true },
+      { marker: "CHARLIE", pageNumber: 13, estimated: true },
+    ],
+  },
+  {
+    name: "no markers across a range",
+    firstPage: 11,
+    lastPage: 13,
+    text: ["ALPHA", "BRAVO", "CHARLIE"].map(passage).join("\n\n"),
+    expected: [
+      { marker: "ALPHA", pageNumber: 11, estimated: true },
+      { marker: "BRAVO", pageNumber: 12, estimated: true },
+      { marker: "CHARLIE", pageNumber: 13, estimated: true },
+    ],
+  },
+  {
+    name: "no markers on a single page",
+    firstPage: 7,
+    lastPage: 7,
+    text: ["ALPHA", "BRAVO"].map(passage).join("\n\n"),
+    expected: [
+      { marker: "ALPHA", pageNumber: 7, estimated: false },
+      { marker: "BRAVO", pageNumber: 7, estimated: false },
+    ],
+  },
+];
+
+// Runs the batch through the same steps as the Gemini path of direct-upload:
+// split, chunk, tag estimated pages, index.
+async function indexBatch(fixture: BatchFixture): Promise<VectorRecord[]> {
+  const records = new Map<string, VectorRecord>();
+  const vectors = createMemoryVectorStore(records);
+  const embedder = createFakeProvider();
+  const backend: RetrievalBackend = {
+    embed: (text) => embedder.embed(text),
+    upsertVectors: (batch) => vectors.upsert(batch),
+    queryVectors: (embedding, sessionId, topK) =>
+      vectors.query(embedding, { topK, filter: { sessionId } }),
+    appendLexicalEntries: async () => {},
+    loadLexicalIndex: async () => buildLexicalIndex([]),
+  };
+
+  const pages = splitBatchPages(fixture.text, fixture.firstPage, fixture.lastPage);
+  const chunks: IndexableChunk[] = chunkPages(pages, { chunkSize: 120 }).map(
+    (chunk, i) => ({
+      id: `test_batch_p${fixture.firstPage - 1}_c${i}`,
+      content: chunk.content,
+      pageNumber: chunk.pageNumber,
+      metadata: {
+        chunkType: chunk.type,
+        ...(chunk.pageEstimated ? { pageEstimated: true } : {}),
+      },
+    }),
+  );
+
+  const progress = await indexChunks(chunks, {
+    sessionId: "test",
+    filename: "scan.pdf",
+    backend,
+  });
+  assert.equal(progress.chunksSkipped, 0);
+  return [...records.values()];
+}
+
+for (const fixture of FIXTURES) {
+  test(`splitBatchPages: ${fixture.name}`, async () => {
+    const records = await indexBatch(fixture);
+
+    assert.equal(records.length, fixture.expected.length);
+    for (const { marker, pageNumber, estimated } of fixture.expected) {
+      const record = records.find((r) =>
+        String(r.metadata?.content).startsWith(`${marker}:`),
+      );
+      assert.ok(record, `${marker} was not indexed`);
+      assert.equal(record.metadata?.pageNumber, pageNumber, marker);
+      assert.equal(record.metadata?.pageEstimated === true, estimated, marker);
+    }
+  });
+}
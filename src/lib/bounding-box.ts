@@ -0,0 +1,113 @@
+import type { TextChunk } from "./chunking";
+
+// Fractions of the page (0-1) with the origin at the top-left corner, so a
+// box can be drawn over the page at any render size.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A positioned piece of page text: a PDF text-layer segment or an OCR block,
+// in reading order.
+export interface TextRegion {
+  pageNumber: number;
+  text: string;
+  box: BoundingBox;
+}
+
+// Regions shorter than this (page numbers, stray labels) match too many
+// chunks to place one.
+const MIN_REGION_KEY = 4;
+// Long regions straddling a chunk boundary match on either end.
+const EDGE_KEY = 40;
+// Matched regions further apart than this in reading order are strays.
+const MAX_REGION_GAP = 2;
+
+// Letters and digits only, so layout spacing and table pipes do not matter.
+function matchKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function regionMatches(regionKey: string, chunkKey: string): boolean {
+  if (chunkKey.includes(regionKey)) return true;
+  if (chunkKey.length >= EDGE_KEY && regionKey.includes(chunkKey)) return true;
+  return (
+    regionKey.length > EDGE_KEY &&
+    (chunkKey.includes(regionKey.slice(0, EDGE_KEY)) ||
+      chunkKey.includes(regionKey.slice(-EDGE_KEY)))
+  );
+}
+
+// Longest run of region indices with small gaps; short-region matches
+// elsewhere on the page (a figure repeated in another paragraph) drop out.
+function densestRun(indices: number[]): number[] {
+  let best: number[] = [];
+  let run: number[] = [];
+  for (const index of indices) {
+    if (run.length && index - run[run.length - 1] > MAX_REGION_GAP + 1) run = [];
+    run.push(index);
+    if (run.length > best.length) best = [...run];
+  }
+  return best;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  const x0 = Math.min(...boxes.map((b) => b.x));
+  const y0 = Math.min(...boxes.map((b) => b.y));
+  const x1 = Math.max(...boxes.map((b) => b.x + b.width));
+  const y1 = Math.max(...boxes.map((b) => b.y + b.height));
+  return {
+    x: round(x0),
+    y: round(y0),
+    width: round(x1 - x0),
+    height: round(y1 - y0),
+  };
+}
+
+// Sets each chunk's boundingBox to the area of its page covered by the
+// regions its text came from. Chunks whose text cannot be placed (vision
+// output with no positions, rewritten tables) are left without one.
+export function applyBoundingBoxes(
+  chunks: TextChunk[],
+  regions: TextRegion[],
+): TextChunk[] {
+  const byPage = new Map<number, Array<{ key: string; box: BoundingBox }>>();
+  for (const region of regions) {
+    const key = matchKey(region.text);
+    if (key.length < MIN_REGION_KEY || region.box.width <= 0) continue;
+    const page = byPage.get(region.pageNumber) || [];
+    page.push({ key, box: region.box });
+    byPage.set(region.pageNumber, page);
+  }
+
+  for (const chunk of chunks) {
+    const page = byPage.get(chunk.pageNumber);
+    if (!page) continue;
+    const chunkKey = matchKey(chunk.content);
+    const matched = page
+      .map((region, index) => (regionMatches(region.key, chunkKey) ? index : -1))
+      .filter((index) => index >= 0);
+    const run = densestRun(matched);
+    if (run.length) chunk.boundingBox = unionBoxes(run.map((i) => page[i].box));
+  }
+  return chunks;
+}
+
+// Vector metadata must be flat, so the box travels as "x,y,width,height".
+export function encodeBoundingBox(box: BoundingBox): string {
+  return [box.x, box.y, box.width, box.height].join(",");
+}
+
+export function decodeBoundingBox(value: unknown): BoundingBox | undefined {
+  if (typeof value !== "string") return undefined;
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) {
+    return undefined;
+  }
+  const [x, y, width, height] = parts;
+  return { x, y, width, height };
+}
@@ -0,0 +1,249 @@
+import { FunctionDeclaration, SchemaType } from "@google/generative-ai";
+import { SourceContext, ChatResponse } from "./gemini";
+import { hybridRetrieve } from "./retrieval";
+import { rerankSources } from "./rerank";
+import { getSessionGraph, queryRelatedEntities, Entity } from "./neo4j";
+import {
+  extractFinancialMetrics,
+  generateRiskReport,
+  resolveGraphEntity,
+  simulateRiskContagion,
+  ContagionSimulation,
+} from "./risk-analyzer";
+import {
+  OPTIONS_FUNCTION_DECLARATIONS,
+  executeOptionsTool,
+} from "./options-pricing";
+
+export interface ToolOutput {
+  result: object;
+  metrics?: ChatResponse["metrics"];
+  riskAnalysis?: ChatResponse["riskAnalysis"];
+  contagion?: ContagionSimulation;
+  sources?: SourceContext[];
+}
+
+export interface ChatTool {
+  declaration: FunctionDeclaration;
+  execute: (args: Record<string, any>) => Promise<ToolOutput>;
+}
+
+export interface ToolCallTrace {
+  name: string;
+  args: Record<string, unknown>;
+  result?: object;
+  error?: string;
+  durationMs: number;
+}
+
+const log = (step: string, data?: object) => {
+  console.log(`[TOOLS] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+function optionsTools(): ChatTool[] {
+  return OPTIONS_FUNCTION_DECLARATIONS.map((declaration) => ({
+    declaration,
+    execute: async (args) => {
+      const output = executeOptionsTool(declaration.name, args);
+      if (!output) throw new Error(`Unknown tool ${declaration.name}`);
+      return output;
+    },
+  }));
+}
+
+function sessionTools(sessionId: string, sources: SourceContext[]): ChatTool[] {
+  // Tools that analyze "the documents" fall back to the excerpts already
+  // retrieved for this turn, widened by any queryDocuments calls.
+  const retrieved = [...sources];
+  const documentText = (text?: string) =>
+    text && text.trim()
+      ? text
+      : retrieved.map((s) => s.excerpt).join("\n");
+
+  return [
+    {
+      declaration: {
+        name: "queryDocuments",
+        description:
+          "Hybrid keyword and semantic search over the session's uploaded documents. Returns excerpts with filename and page for citation.",
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            query: {
+              type: SchemaType.STRING,
+              description: "Standalone search query",
+            },
+            topK: {
+              type: SchemaType.NUMBER,
+              description: "Number of excerpts to return (default 8, max 20)",
+            },
+          },
+          required: ["query"],
+        },
+      },
+      execute: async (args) => {
+        const topK = Math.min(20, Math.max(1, Number(args.topK) || 8));
+        const query = String(args.query);
+        const found = await rerankSources(
+          query,
+          await hybridRetrieve(query, sessionId, { topK: topK * 2 }),
+          { topK },
+        );
+        retrieved.push(...found);
+
+        return {
+          result: {
+            excerpts: found.map((s) => ({
+              filename: s.filename,
+              pageNumber: s.pageNumber,
+              score: parseFloat(s.relevanceScore.toFixed(3)),
+              ...(s.rerank?.reason ? { why: s.rerank.reason } : {}),
+              text: s.excerpt.substring(0, 1500),
+            })),
+          },
+          sources: found,
+        };
+      },
+    },
+    {
+      declaration: {
+        name: "queryRelatedEntities",
+        description:
+          "Look up entities connected to a named entity in the session's knowledge graph.",
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            entityName: {
+              type: SchemaType.STRING,
+              description: "Entity name, e.g. a company or regulator",
+            },
+            depth: {
+              type: SchemaType.NUMBER,
+              description: "Maximum path length (1-3, default 2)",
+            },
+          },
+          required: ["entityName"],
+        },
+      },
+      execute: async (args) => {
+        const resolved =
+          (await resolveGraphEntity(sessionId, String(args.entityName))) ||
+          String(args.entityName);
+        const depth = Math.min(3, Math.max(1, Math.round(Number(args.depth) || 2)));
+        const related = await queryRelatedEntities(sessionId, resolved, depth);
+        return { result: { entity: resolved, ...related } };
+      },
+    },
+    {
+      declaration: {
+        name: "extractFinancialMetrics",
+        description:
+          "Deterministically extract rupee amounts, percentages and banking ratios (GNPA, NNPA, CAR, ROE, ...) from text. Defaults to the retrieved document excerpts.",
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            text: {
+              type: SchemaType.STRING,
+              description: "Text to scan; omit to scan retrieved excerpts",
+            },
+          },
+        },
+      },
+      execute: async (args) => {
+        const metrics = extractFinancialMetrics(documentText(args.text));
+        return {
+          result: {
+            ratios: metrics.ratios,
+            amounts: metrics.amounts.slice(0, 20),
+            percentages: metrics.percentages.slice(0, 20),
+          },
+          metrics: metrics.ratios.map((r) => ({
+            name: r.name,
+            value: r.value,
+            unit: r.name.includes("Ratio") ? "" : "%",
+          })),
+        };
+      },
+    },
+    {
+      declaration: {
+        name: "generateRiskReport",
+        description:
+          "Score credit and capital risk from the ratios in the documents and the entities in the knowledge graph.",
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            text: {
+              type: SchemaType.STRING,
+              description: "Text to assess; omit to use retrieved excerpts",
+            },
+          },
+        },
+      },
+      execute: async (args) => {
+        const metrics = extractFinancialMetrics(documentText(args.text));
+        const graph = await getSessionGraph(sessionId).catch(() => ({
+          nodes: [],
+          edges: [],
+        }));
+        const report = generateRiskReport(
+          metrics,
+          graph.nodes.map((n) => ({
+            type: n.type as Entity["type"],
+            name: n.id,
+          })),
+        );
+        return { result: report, riskAnalysis: report };
+      },
+    },
+    {
+      declaration: {
+        name: "simulateRiskContagion",
+        description:
+          "Run a DebtRank contagion simulation from a distressed entity over the session's knowledge graph, with rupee exposure per affected entity.",
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            sourceEntity: {
+              type: SchemaType.STRING,
+              description: "Entity that is shocked or defaults",
+            },
+            shockMagnitude: {
+              type: SchemaType.NUMBER,
+              description: "Shock as a fraction of equity in (0, 1]; 1 = default",
+            },
+          },
+          required: ["sourceEntity"],
+        },
+      },
+      execute: async (args) => {
+        const resolved = await resolveGraphEntity(
+          sessionId,
+          String(args.sourceEntity),
+        );
+        if (!resolved) {
+          throw new Error(
+            `${args.sourceEntity} is not in the session knowledge graph`,
+          );
+        }
+        const shock = Number(args.shockMagnitude);
+        const simulation = await simulateRiskContagion(
+          sessionId,
+          resolved,
+          shock > 0 && shock <= 1 ? shock : 0.1,
+        );
+        return { result: simulation, contagion: simulation };
+      },
+    },
+  ];
+}
+
+export function createChatTools(
+  sessionId?: string | null,
+  sources: SourceContext[] = [],
+): ChatTool[] {
+  const tools = optionsTools();
+  if (sessionId) tools.push(...sessionTools(sessionId, sources));
+  log("Registered tools", { count: tools.length, sessionId });
+  return tools;
+}
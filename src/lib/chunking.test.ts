@@ -0,0 +1,167 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkDocument } from "./chunking";
+
+const sentence = (n: number) =>
+  `Clause ${n} requires the insured to notify the insurer within thirty days of any loss.`;
+
+const paragraph = (n: number) => `${sentence(n)} ${sentence(n + 100)}`;
+
+test("fixed: chunks stay within chunkSize and overlap their neighbours", () => {
+  const text = Array.from({ length: 30 }, (_, i) => sentence(i)).join(" ");
+  const chunks = chunkDocument(text, {
+    strategy: "fixed",
+    chunkSize: 300,
+    overlap: 60,
+  });
+
+  assert.ok(chunks.length > 3);
+  for (const chunk of chunks) {
+    assert.ok(chunk.content.length <= 300, `${chunk.content.length} > 300`);
+  }
+  for (let i = 1; i < chunks.length; i++) {
+    const head = chunks[i].content.slice(0, 20);
+    assert.ok(
+      chunks[i - 1].content.includes(head),
+      `chunk ${i} does not start inside chunk ${i - 1}`,
+    );
+  }
+  assert.ok(chunks[chunks.length - 1].content.endsWith(sentence(29)));
+});
+
+test("fixed: overlap is capped at half the chunk size", () => {
+  const text = Array.from({ length: 20 }, (_, i) => sentence(i)).join(" ");
+  const chunks = chunkDocument(text, {
+    strategy: "fixed",
+    chunkSize: 200,
+    overlap: 500,
+  });
+
+  // Each window must still advance through the text.
+  const firstWords = chunks.map((c) => c.content.slice(0, 30));
+  assert.equal(new Set(firstWords).size, chunks.length);
+  for (const chunk of chunks) assert.ok(chunk.content.length <= 200);
+});
+
+test("paragraph: chunks break only at paragraph boundaries", () => {
+  const paragraphs = Array.from({ length: 8 }, (_, i) => paragraph(i));
+  const chunks = chunkDocument(paragraphs.join("\n\n"), {
+    strategy: "paragraph",
+    chunkSize: 400,
+    overlap: 0,
+  });
+
+  assert.ok(chunks.length > 1);
+  const emitted = chunks.flatMap((c) => c.content.split("\n\n"));
+  assert.deepEqual(emitted, paragraphs);
+  for (const chunk of chunks) assert.ok(chunk.content.length <= 400);
+});
+
+test("paragraph: overlap carries the end of the previous chunk forward", () => {
+  const paragraphs = Array.from({ length: 6 }, (_, i) => paragraph(i));
+  const chunks = chunkDocument(paragraphs.join("\n\n"), {
+    strategy: "paragraph",
+    chunkSize: 400,
+    overlap: 40,
+  });
+
+  assert.ok(chunks.length > 1);
+  for (let i = 1; i < chunks.length; i++) {
+    const [tail] = chunks[i].content.split("\n\n");
+    assert.ok(chunks[i - 1].content.endsWith(tail));
+  }
+});
+
+test("table: oversized tables split between rows with the header repeated", () => {
+  const header = "| Borrower | Sector | Exposure (₹ Cr) |\n| --- | --- | --- |";
+  const rows = Array.from(
+    { length: 30 },
+    (_, i) => `| Borrower ${i} Ltd | Infrastructure | ${1000 + i * 37} |`,
+  );
+  const text = [
+    "Top exposures by borrower are listed below for the quarter.",
+    "Table 4: Large exposures",
+    [header, ...rows].join("\n"),
+  ].join("\n\n");
+
+  const chunks = chunkDocument(text, { strategy: "table", chunkSize: 400 });
+  const tableChunks = chunks.filter((c) => c.content.includes("| --- |"));
+
+  assert.ok(tableChunks.length > 1);
+  // The caption stays with the first slice.
+  assert.ok(tableChunks[0].content.includes("Table 4: Large exposures\n\n| Borrower |"));
+  const seen: string[] = [];
+  for (const chunk of tableChunks) {
+    assert.equal(chunk.type, "table");
+    const table = chunk.content.slice(chunk.content.indexOf("| Borrower |"));
+    assert.ok(table.startsWith(header), "header not repeated");
+    for (const line of table.split("\n").slice(2)) {
+      assert.ok(rows.includes(line), `row split: ${line}`);
+      seen.push(line);
+    }
+  }
+  assert.deepEqual(seen, rows);
+});
+
+test("table: a table that fits is never split or overlapped into prose", () => {
+  const table = [
+    "| Metric | FY24 | FY25 |",
+    "| --- | --- | --- |",
+    "| GNPA | 3.2% | 2.8% |",
+    "| NNPA | 0.9% | 0.7% |",
+  ].join("\n");
+  const text = [paragraph(1), paragraph(2), table, paragraph(3)].join("\n\n");
+
+  const chunks = chunkDocument(text, {
+    strategy: "table",
+    chunkSize: 250,
+    overlap: 60,
+  });
+  const withTable = chunks.filter((c) => c.content.includes("| GNPA |"));
+
+  assert.equal(withTable.length, 1);
+  assert.ok(withTable[0].content.includes(table));
+  assert.ok(chunks.every((c) => !c.content.includes("| NNPA |") || c === withTable[0]));
+});
+
+test("heading: chunks carry the heading path in section", () => {
+  const text = [
+    "# Part II",
+    paragraph(1),
+    "## Exclusions",
+    paragraph(2),
+    "## Claims",
+    paragraph(3),
+    "# Part III",
+    "GENERAL CONDITIONS",
+    paragraph(4),
+  ].join("\n\n");
+
+  const chunks = chunkDocument(text, { strategy: "heading", chunkSize: 800 });
+  const sectionOf = (n: number) =>
+    chunks.find((c) => c.content.includes(sentence(n)))?.section;
+
+  assert.equal(sectionOf(1), "Part II");
+  assert.equal(sectionOf(2), "Part II > Exclusions");
+  assert.equal(sectionOf(3), "Part II > Claims");
+  assert.equal(sectionOf(4), "Part III > GENERAL CONDITIONS");
+
+  const claims = chunks.find((c) => c.section === "Part II > Claims")!;
+  assert.ok(claims.content.startsWith("## Claims\n\n"));
+});
+
+test("heading: every chunk of a long section keeps its heading", () => {
+  const text = [
+    "# Exclusions",
+    ...Array.from({ length: 10 }, (_, i) => paragraph(i)),
+  ].join("\n\n");
+
+  const chunks = chunkDocument(text, { strategy: "heading", chunkSize: 400 });
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.equal(chunk.section, "Exclusions");
+    assert.ok(chunk.content.startsWith("# Exclusions\n\n"));
+    assert.ok(chunk.content.length <= 400);
+  }
+});
@@ -0,0 +1,508 @@
+import type { BoundingBox } from "./bounding-box";
+
+export type ChunkStrategy = "fixed" | "paragraph" | "table" | "heading";
+
+export type ChunkType = "text" | "table" | "header";
+
+export interface TextChunk {
+  content: string;
+  pageNumber: number;
+  chunkIndex: number;
+  type: ChunkType;
+  section?: string;
+  pageEstimated?: boolean;
+  // A1-style cells a spreadsheet chunk was read from, e.g. "A1:D12".
+  cellRange?: string;
+  // Tracked changes in the chunk's text, e.g. 'deleted by A. Rao: "30 days"'.
+  revisions?: string[];
+  // OCR engine confidence (0-1) for the page the chunk came from.
+  ocrConfidence?: number;
+  // Area of the page the chunk's text was read from.
+  boundingBox?: BoundingBox;
+}
+
+export interface ChunkingOptions {
+  // fixed: sliding character window snapped to sentence/line breaks.
+  // paragraph: packs blank-line separated paragraphs up to chunkSize.
+  // table: paragraph packing that keeps markdown tables whole, splitting
+  //   oversized tables by rows with the header repeated.
+  // heading: table packing within heading sections, each chunk prefixed
+  //   with its heading and tagged with the section path.
+  strategy?: ChunkStrategy;
+  chunkSize?: number;
+  overlap?: number;
+  minChunkLength?: number;
+  defaultPage?: number;
+}
+
+export interface PageText {
+  pageNumber: number;
+  content: string;
+  estimated?: boolean;
+}
+
+// A heading and the text under it, for documents whose hierarchy comes from
+// the file itself (e.g. DOCX heading styles) rather than from the text.
+export interface TextSection {
+  heading?: string;
+  // Heading titles from the outermost level down: "Part II > Exclusions".
+  path?: string;
+  body: string;
+  pageNumber: number;
+}
+
+interface Unit {
+  text: string;
+  isTable: boolean;
+}
+
+interface Piece {
+  content: string;
+  section?: string;
+}
+
+const DEFAULTS = {
+  strategy: "heading" as ChunkStrategy,
+  chunkSize: 800,
+  overlap: 120,
+  minChunkLength: 50,
+  defaultPage: 1,
+};
+
+const log = (step: string, data?: object) => {
+  console.log(`[CHUNKING] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+const PAGE_MARKER =
+  /===\s*(?:PAGE|BATCH|SECTION|SHEET)[:\s]*(\d+)[^\n]*?===/gi;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+const CAPS_HEADING = /^[A-Z][A-Z0-9\s&,.()'-]{5,}$/;
+
+function splitOnMarkers(
+  text: string,
+  defaultPage: number,
+  minLength: number,
+  mapPage: (marked: number, index: number) => number,
+): PageText[] {
+  const pages: PageText[] = [];
+  let lastIndex = 0;
+  let currentPageNum = defaultPage;
+  let markerIndex = 0;
+
+  const pushPage = (content: string) => {
+    if (content.trim().length > minLength) {
+      pages.push({ pageNumber: currentPageNum, content: content.trim() });
+    }
+  };
+
+  for (const match of text.matchAll(PAGE_MARKER)) {
+    if (match.index! > lastIndex) {
+      pushPage(text.substring(lastIndex, match.index));
+    }
+    currentPageNum = mapPage(parseInt(match[1], 10), markerIndex++);
+    lastIndex = match.index! + match[0].length;
+  }
+  pushPage(text.substring(lastIndex));
+
+  return pages;
+}
+
+export function splitPages(
+  text: string,
+  defaultPage: number = 1,
+  minLength: number = DEFAULTS.minChunkLength,
+): PageText[] {
+  return splitOnMarkers(text, defaultPage, minLength, (page) => page);
+}
+
+// Without markers, paragraphs are spread over the range by their position in
+// the text, which is only an estimate.
+function estimatePages(
+  text: string,
+  firstPage: number,
+  pageCount: number,
+  minLength: number,
+): PageText[] {
+  const pages: PageText[] = [];
+  let offset = 0;
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const pageNumber =
+      firstPage +
+      Math.min(pageCount - 1, Math.floor((offset / text.length) * pageCount));
+    offset += paragraph.length + 2;
+
+    const last = pages[pages.length - 1];
+    if (last && last.pageNumber === pageNumber) {
+      last.content += "\n\n" + paragraph;
+    } else {
+      pages.push({ pageNumber, content: paragraph, estimated: true });
+    }
+  }
+
+  return pages
+    .map((page) => ({ ...page, content: page.content.trim() }))
+    .filter((page) => page.content.length > minLength);
+}
+
+// Splits model output for a known page range (e.g. one extraction batch).
+// Markers are validated against the range: absolute page numbers are kept,
+// batch-relative ones (1..n) are offset, and anything else falls back to
+// marker order within the range.
+export function splitBatchPages(
+  text: string,
+  firstPage: number,
+  lastPage: number,
+  minLength: number = DEFAULTS.minChunkLength,
+): PageText[] {
+  const pageCount = Math.max(1, lastPage - firstPage + 1);
+  const marked = Array.from(text.matchAll(PAGE_MARKER), (m) =>
+    parseInt(m[1], 10),
+  );
+
+  if (marked.length === 0) {
+    return pageCount === 1
+      ? splitPages(text, firstPage, minLength)
+      : estimatePages(text, firstPage, pageCount, minLength);
+  }
+
+  if (marked.every((page) => page >= firstPage && page <= lastPage)) {
+    return splitPages(text, firstPage, minLength);
+  }
+
+  if (marked.every((page) => page >= 1 && page <= pageCount)) {
+    return splitOnMarkers(
+      text,
+      firstPage,
+      minLength,
+      (page) => page + firstPage - 1,
+    );
+  }
+
+  log("Page markers outside batch range, using marker order", {
+    firstPage,
+    lastPage,
+    marked,
+  });
+  return splitOnMarkers(text, firstPage, minLength, (_page, index) =>
+    Math.min(lastPage, firstPage + index),
+  ).map((page) => ({ ...page, estimated: true }));
+}
+
+export function detectChunkType(content: string): ChunkType {
+  const isTable =
+    content.includes("|") &&
+    (content.includes("---") || /\|\s*[\d₹]/.test(content));
+  if (isTable) return "table";
+
+  const firstLine = content.split("\n")[0].trim();
+  if (/^#+\s/.test(firstLine) || CAPS_HEADING.test(firstLine)) {
+    return "header";
+  }
+  return "text";
+}
+
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return "";
+  const tail = text.slice(-overlap);
+  const wordStart = tail.search(/\s/);
+  return wordStart === -1 ? tail : tail.slice(wordStart + 1);
+}
+
+function fixedSplit(text: string, chunkSize: number, overlap: number): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      const breakPoint = Math.max(
+        text.lastIndexOf(".", end),
+        text.lastIndexOf("\n", end),
+      );
+      if (breakPoint > start + chunkSize / 2) end = breakPoint + 1;
+    }
+
+    const piece = text.slice(start, end).trim();
+    if (piece) pieces.push(piece);
+    if (end >= text.length) break;
+
+    let next = end - Math.min(overlap, Math.floor(chunkSize / 2));
+    const wordStart = text.slice(next, end).search(/\s/);
+    if (wordStart !== -1) next += wordStart + 1;
+    start = Math.max(next, start + 1);
+  }
+
+  return pieces;
+}
+
+function splitTable(table: string, chunkSize: number): string[] {
+  const lines = table.split("\n");
+  const header =
+    lines.length > 1 && TABLE_SEPARATOR.test(lines[1])
+      ? lines.slice(0, 2).join("\n")
+      : "";
+  const rows = header ? lines.slice(2) : lines;
+
+  const pieces: string[] = [];
+  let current = header;
+  for (const row of rows) {
+    if (current.length + row.length + 1 > chunkSize && current !== header) {
+      pieces.push(current);
+      current = header;
+    }
+    current += (current ? "\n" : "") + row;
+  }
+  if (current && current !== header) pieces.push(current);
+  return pieces;
+}
+
+function toUnits(text: string, preserveTables: boolean): Unit[] {
+  const units: Unit[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (!preserveTables) {
+      units.push({ text: trimmed, isTable: false });
+      continue;
+    }
+
+    // A paragraph can mix prose with a table (e.g. a caption line directly
+    // above it), so split it into runs of table and non-table lines.
+    let run: string[] = [];
+    let runIsTable = false;
+    for (const line of trimmed.split("\n")) {
+      const isTableLine = TABLE_ROW.test(line);
+      if (run.length > 0 && isTableLine !== runIsTable) {
+        units.push({ text: run.join("\n").trim(), isTable: runIsTable });
+        run = [];
+      }
+      run.push(line);
+      runIsTable = isTableLine;
+    }
+    if (run.length > 0) {
+      units.push({ text: run.join("\n").trim(), isTable: runIsTable });
+    }
+  }
+
+  return units;
+}
+
+function packUnits(units: Unit[], chunkSize: number, overlap: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  let lastWasTable = false;
+
+  const flush = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = "";
+  };
+
+  for (const unit of units) {
+    if (unit.text.length > chunkSize && unit.isTable) {
+      // Keep a short preceding line (usually the table caption) with the
+      // first slice of the table instead of emitting it on its own.
+      const caption = current.length < chunkSize / 4 ? current.trim() : "";
+      if (caption) current = "";
+      else flush();
+
+      const parts = splitTable(
+        unit.text,
+        chunkSize - (caption ? caption.length + 2 : 0),
+      );
+      if (caption && parts.length) parts[0] = `${caption}\n\n${parts[0]}`;
+      pieces.push(...parts);
+      lastWasTable = true;
+      continue;
+    }
+
+    if (unit.text.length > chunkSize) {
+      flush();
+      const parts = fixedSplit(unit.text, chunkSize, overlap);
+      pieces.push(...parts.slice(0, -1));
+      current = parts[parts.length - 1] || "";
+      lastWasTable = false;
+      continue;
+    }
+
+    if (current && current.length + unit.text.length + 2 > chunkSize) {
+      // Carry prose context forward, but never a fragment of a table.
+      const tail = lastWasTable || unit.isTable ? "" : overlapTail(current, overlap);
+      flush();
+      current = tail;
+    }
+
+    current += (current ? "\n\n" : "") + unit.text;
+    lastWasTable = unit.isTable;
+  }
+  flush();
+
+  return pieces;
+}
+
+function headingSections(
+  text: string,
+): Array<{ heading?: string; path?: string; body: string }> {
+  const sections: Array<{ heading?: string; path?: string; body: string }> = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  let heading: string | undefined;
+  let body: string[] = [];
+
+  const pushSection = () => {
+    if (body.join("").trim()) {
+      sections.push({
+        heading,
+        path: stack.length ? stack.map((h) => h.title).join(" > ") : undefined,
+        body: body.join("\n"),
+      });
+    }
+    body = [];
+  };
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    const markdown = trimmed.match(MARKDOWN_HEADING);
+    const isCaps =
+      !markdown && trimmed.length < 100 && CAPS_HEADING.test(trimmed);
+    if (!markdown && !isCaps) {
+      body.push(line);
+      continue;
+    }
+
+    pushSection();
+    // Upper-case lines are treated as second-level headings so they nest
+    // under a markdown title but replace each other.
+    const level = markdown ? markdown[1].length : 2;
+    const title = (markdown ? markdown[2] : trimmed).trim();
+    while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+    stack.push({ level, title });
+    heading = trimmed;
+  }
+  pushSection();
+
+  return sections;
+}
+
+function chunkPage(
+  content: string,
+  strategy: ChunkStrategy,
+  chunkSize: number,
+  overlap: number,
+): Piece[] {
+  switch (strategy) {
+    case "fixed":
+      return fixedSplit(content, chunkSize, overlap).map((c) => ({ content: c }));
+    case "paragraph":
+      return packUnits(toUnits(content, false), chunkSize, overlap).map((c) => ({
+        content: c,
+      }));
+    case "table":
+      return packUnits(toUnits(content, true), chunkSize, overlap).map((c) => ({
+        content: c,
+      }));
+    case "heading":
+      return headingSections(content).flatMap((section) =>
+        packSection(section, chunkSize, overlap),
+      );
+  }
+}
+
+function packSection(
+  section: { heading?: string; path?: string; body: string },
+  chunkSize: number,
+  overlap: number,
+): Piece[] {
+  const prefix = section.heading ? `${section.heading}\n\n` : "";
+  const budget = Math.max(chunkSize - prefix.length, chunkSize / 2);
+  return packUnits(toUnits(section.body, true), budget, overlap).map((c) => ({
+    content: prefix + c,
+    section: section.path,
+  }));
+}
+
+function buildChunks(pages: PageText[], options: ChunkingOptions): TextChunk[] {
+  const strategy = options.strategy ?? DEFAULTS.strategy;
+  const chunkSize = options.chunkSize ?? DEFAULTS.chunkSize;
+  const overlap = options.overlap ?? DEFAULTS.overlap;
+  const minLength = options.minChunkLength ?? DEFAULTS.minChunkLength;
+
+  const chunks: TextChunk[] = [];
+  for (const page of pages) {
+    for (const piece of chunkPage(page.content, strategy, chunkSize, overlap)) {
+      if (piece.content.length < minLength) continue;
+
+      chunks.push({
+        content: piece.content,
+        pageNumber: page.pageNumber,
+        chunkIndex: chunks.length,
+        type: detectChunkType(piece.content),
+        ...(piece.section ? { section: piece.section } : {}),
+        ...(page.estimated ? { pageEstimated: true } : {}),
+      });
+    }
+  }
+
+  return chunks;
+}
+
+// Chunks a document whose pages are delimited by === PAGE n === (or SHEET,
+// SECTION, BATCH) markers; text without markers is treated as one page.
+export function chunkDocument(
+  text: string,
+  options: ChunkingOptions = {},
+): TextChunk[] {
+  const minLength = options.minChunkLength ?? DEFAULTS.minChunkLength;
+  const pages = splitPages(text, options.defaultPage ?? DEFAULTS.defaultPage, minLength);
+  const chunks = buildChunks(pages, options);
+
+  log("Chunks created", {
+    strategy: options.strategy ?? DEFAULTS.strategy,
+    pages: pages.length,
+    count: chunks.length,
+  });
+  return chunks;
+}
+
+// Chunks pages that were already split, e.g. by splitBatchPages.
+export function chunkPages(
+  pages: PageText[],
+  options: ChunkingOptions = {},
+): TextChunk[] {
+  return buildChunks(pages, options);
+}
+
+// Chunks sections whose headings are already known the way the heading
+// strategy chunks a page, so the path survives page breaks.
+export function chunkSections(
+  sections: TextSection[],
+  options: ChunkingOptions = {},
+): TextChunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULTS.chunkSize;
+  const overlap = options.overlap ?? DEFAULTS.overlap;
+  const minLength = options.minChunkLength ?? DEFAULTS.minChunkLength;
+
+  const chunks: TextChunk[] = [];
+  for (const section of sections) {
+    for (const piece of packSection(section, chunkSize, overlap)) {
+      if (piece.content.length < minLength) continue;
+
+      chunks.push({
+        content: piece.content,
+        pageNumber: section.pageNumber,
+        chunkIndex: chunks.length,
+        type: detectChunkType(piece.content),
+        ...(piece.section ? { section: piece.section } : {}),
+      });
+    }
+  }
+
+  log("Chunks created", {
+    strategy: "sections",
+    sections: sections.length,
+    count: chunks.length,
+  });
+  return chunks;
+}
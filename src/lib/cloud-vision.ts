@@ -1,4 +1,4 @@
-import vision from "@google-cloud/vision";
+import { PDFDocument } from "pdf-lib";
 
 const log = (step: string, data?: object) => {
   const timestamp = new Date().toISOString();
@@ -17,11 +17,13 @@ export interface VisionPage {
   pageNumber: number;
   text: string;
   blocks: VisionBlock[];
+  confidence: number;
 }
 
 export interface VisionBlock {
   text: string;
   type: "TEXT" | "TABLE" | "FIGURE" | "HEADER" | "FOOTER";
+  // Fractions of the page (0-1), origin top-left.
   boundingBox: { x: number; y: number; width: number; height: number };
   confidence: number;
 }
@@ -33,15 +35,36 @@ export interface VisionTable {
   markdown: string;
 }
 
-function createVisionClient() {
-  const apiKey = process.env.GOOGLE_API_KEY;
+const VISION_ENDPOINT = "https://vision.googleapis.com/v1";
+// files:annotate accepts at most five pages per request.
+const PAGES_PER_REQUEST = 5;
+const DEFAULT_LANGUAGE_HINTS = ["en", "hi", "mr", "ta", "te", "gu", "bn", "kn", "ml", "pa"];
+const FILE_MIME_TYPES = ["application/pdf", "image/tiff", "image/gif"];
+
+// Only a dedicated key counts for automatic selection: the Gemini key works
+// too when the Vision API is enabled on its project, but that is opt-in.
+export function isCloudVisionConfigured(): boolean {
+  return Boolean(process.env.GOOGLE_CLOUD_VISION_API_KEY);
+}
+
+// The REST API rather than the gRPC client, which does not run on the edge
+// runtime.
+async function annotate(method: "files:annotate" | "images:annotate", body: object): Promise<any> {
+  const apiKey = process.env.GOOGLE_CLOUD_VISION_API_KEY || process.env.GOOGLE_API_KEY;
   if (!apiKey) {
-    throw new Error("GOOGLE_API_KEY not configured");
+    throw new Error("GOOGLE_CLOUD_VISION_API_KEY or GOOGLE_API_KEY not configured");
   }
-  
-  return new vision.ImageAnnotatorClient({
-    apiKey,
+
+  const response = await fetch(`${VISION_ENDPOINT}/${method}?key=${encodeURIComponent(apiKey)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
   });
+  if (!response.ok) {
+    const details = await response.text().catch(() => "");
+    throw new Error(`Vision API ${response.status}: ${details.substring(0, 200)}`);
+  }
+  return response.json();
 }
 
 export async function extractTextWithVision(
@@ -50,21 +73,23 @@ export async function extractTextWithVision(
     startPage?: number; 
     endPage?: number;
     extractTables?: boolean;
+    mimeType?: string;
+    languageHints?: string[];
   } = {}
 ): Promise<VisionExtractionResult> {
-  const { startPage = 1, endPage, extractTables = true } = options;
+  const {
+    startPage = 1,
+    extractTables = true,
+    mimeType = "application/pdf",
+    languageHints = DEFAULT_LANGUAGE_HINTS,
+  } = options;
   
-  log("Starting Cloud Vision extraction", { bufferSize: pdfBuffer.length, startPage, endPage });
+  log("Starting Cloud Vision extraction", { bufferSize: pdfBuffer.length, startPage, endPage: options.endPage });
   
-  const client = createVisionClient();
   const startTime = Date.now();
 
   try {
-    const inputConfig = {
-      mimeType: "application/pdf",
-      content: pdfBuffer.toString("base64"),
-    };
-
+    const content = pdfBuffer.toString("base64");
     const features: { type: string }[] = [
       { type: "DOCUMENT_TEXT_DETECTION" },
     ];
@@ -73,29 +98,46 @@ export async function extractTextWithVision(
       features.push({ type: "TEXT_DETECTION" });
     }
 
-    const request = {
-      requests: [
-        {
-          inputConfig,
-          features,
-          imageContext: {
-            languageHints: ["en", "hi", "mr", "ta", "te", "gu", "bn", "kn", "ml", "pa"],
-          },
-        },
-      ],
-    };
+    const imageContext = { languageHints };
+    const pageResponses: Array<{ pageNumber: number; response: any }> = [];
 
-    log("Calling Vision API", { features: features.map(f => f.type) });
-    
-    const [result] = await client.batchAnnotateFiles(request as any);
-    
-    if (!result.responses || result.responses.length === 0) {
-      log("No responses from Vision API");
-      return createEmptyResult();
+    log("Calling Vision API", { features: features.map(f => f.type), mimeType });
+
+    if (FILE_MIME_TYPES.includes(mimeType)) {
+      let endPage = options.endPage;
+      if (!endPage) {
+        endPage = mimeType === "application/pdf"
+          ? (await PDFDocument.load(pdfBuffer, { ignoreEncryption: true })).getPageCount()
+          : startPage;
+      }
+
+      for (let first = startPage; first <= endPage; first += PAGES_PER_REQUEST) {
+        const pages: number[] = [];
+        for (let page = first; page <= Math.min(endPage, first + PAGES_PER_REQUEST - 1); page++) {
+          pages.push(page);
+        }
+
+        const result = await annotate("files:annotate", {
+          requests: [{ inputConfig: { mimeType, content }, features, imageContext, pages }],
+        });
+        const fileResponse = result.responses?.[0];
+        (fileResponse?.responses || []).forEach((response: any, i: number) => {
+          pageResponses.push({
+            pageNumber: response.context?.pageNumber || pages[i],
+            response,
+          });
+        });
+      }
+    } else {
+      const result = await annotate("images:annotate", {
+        requests: [{ image: { content }, features, imageContext }],
+      });
+      if (result.responses?.[0]) {
+        pageResponses.push({ pageNumber: startPage, response: result.responses[0] });
+      }
     }
 
-    const fileResponse = result.responses[0];
-    if (!fileResponse.responses) {
+    if (pageResponses.length === 0) {
       log("No page responses");
       return createEmptyResult();
     }
@@ -103,21 +145,20 @@ export async function extractTextWithVision(
     const pages: VisionPage[] = [];
     const tables: VisionTable[] = [];
     const detectedLanguages = new Set<string>();
-    let totalConfidence = 0;
-    let confidenceCount = 0;
-
-    for (let i = 0; i < fileResponse.responses.length; i++) {
-      const pageResponse = fileResponse.responses[i];
-      const pageNumber = i + 1;
 
-      if (startPage && pageNumber < startPage) continue;
-      if (endPage && pageNumber > endPage) continue;
+    for (const { pageNumber, response: pageResponse } of pageResponses) {
+      if (pageResponse.error) {
+        log("Page failed", { pageNumber, error: pageResponse.error.message });
+        continue;
+      }
 
       const fullTextAnnotation = pageResponse.fullTextAnnotation;
       if (!fullTextAnnotation) continue;
 
       const pageText = fullTextAnnotation.text || "";
       const blocks: VisionBlock[] = [];
+      let pageConfidence = 0;
+      let pageConfidenceCount = 0;
 
       if (fullTextAnnotation.pages) {
         for (const page of fullTextAnnotation.pages) {
@@ -126,13 +167,14 @@ export async function extractTextWithVision(
               if (lang.languageCode) {
                 detectedLanguages.add(lang.languageCode);
               }
-              if (lang.confidence) {
-                totalConfidence += lang.confidence;
-                confidenceCount++;
-              }
             }
           }
 
+          if (typeof page.confidence === "number") {
+            pageConfidence += page.confidence;
+            pageConfidenceCount++;
+          }
+
           if (page.blocks) {
             for (const block of page.blocks) {
               const blockText = extractBlockText(block);
@@ -141,7 +183,7 @@ export async function extractTextWithVision(
               blocks.push({
                 text: blockText,
                 type: blockType,
-                boundingBox: extractBoundingBox(block.boundingBox),
+                boundingBox: extractBoundingBox(block.boundingBox, page.width, page.height),
                 confidence: block.confidence || 0.9,
               });
 
@@ -156,15 +198,25 @@ export async function extractTextWithVision(
         }
       }
 
+      // Page confidence as reported, else the mean over its blocks.
+      const confidence = pageConfidenceCount > 0
+        ? pageConfidence / pageConfidenceCount
+        : blocks.length > 0
+          ? blocks.reduce((sum, b) => sum + b.confidence, 0) / blocks.length
+          : 0;
+
       pages.push({
         pageNumber,
         text: pageText,
         blocks,
+        confidence,
       });
     }
 
     const fullText = pages.map(p => `=== PAGE ${p.pageNumber} ===\n${p.text}`).join("\n\n");
-    const avgConfidence = confidenceCount > 0 ? totalConfidence / confidenceCount : 0.9;
+    const avgConfidence = pages.length > 0
+      ? pages.reduce((sum, p) => sum + p.confidence, 0) / pages.length
+      : 0;
 
     log("Vision extraction complete", {
       pages: pages.length,
@@ -225,13 +277,19 @@ function detectBlockType(block: any, text: string): VisionBlock["type"] {
   return "TEXT";
 }
 
-function extractBoundingBox(box: any): VisionBlock["boundingBox"] {
-  if (!box?.vertices || box.vertices.length < 4) {
+// PDF and TIFF responses carry normalized vertices; image responses carry
+// pixels, scaled here by the page size.
+function extractBoundingBox(box: any, pageWidth?: number, pageHeight?: number): VisionBlock["boundingBox"] {
+  const normalized = box?.normalizedVertices?.length >= 4;
+  const vertices = normalized ? box.normalizedVertices : box?.vertices;
+  if (!vertices || vertices.length < 4 || (!normalized && !(pageWidth && pageHeight))) {
     return { x: 0, y: 0, width: 0, height: 0 };
   }
-  
-  const xs = box.vertices.map((v: any) => v.x || 0);
-  const ys = box.vertices.map((v: any) => v.y || 0);
+
+  const scaleX = normalized ? 1 : pageWidth!;
+  const scaleY = normalized ? 1 : pageHeight!;
+  const xs = vertices.map((v: any) => (v.x || 0) / scaleX);
+  const ys = vertices.map((v: any) => (v.y || 0) / scaleY);
   
   return {
     x: Math.min(...xs),
@@ -1,4 +1,20 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { chunkDocument, PageText, TextChunk } from "./chunking";
+import {
+  copyPdfPages,
+  extractPdfText,
+  joinPages,
+  toPageRuns,
+} from "./pdf-text";
+import { parseSpreadsheet } from "./spreadsheet";
+import { parseDocx } from "./docx";
+import { applyBoundingBoxes, TextRegion } from "./bounding-box";
+import {
+  applyPageConfidence,
+  OcrEngineChoice,
+  OcrEngineName,
+  OcrPage,
+  selectOcrEngine,
+} from "./ocr";
 
 export type DocumentType =
   | "pdf"
@@ -18,16 +34,17 @@ export interface ProcessedDocument {
     pageCount: number;
     language?: string;
     processingMethod: "text_extraction" | "ocr" | "hybrid";
+    ocrEngine?: OcrEngineName;
   };
 }
 
-export interface DocumentChunk {
-  content: string;
-  pageNumber: number;
-  chunkIndex: number;
-  type: "text" | "table" | "header";
+export interface ProcessOptions {
+  // Per-upload OCR engine; defaults to OCR_ENGINE, then "auto".
+  ocrEngine?: OcrEngineChoice;
 }
 
+export type DocumentChunk = TextChunk;
+
 const log = (step: string, data?: object) => {
   console.log(`[DOC-PROCESSOR] ${step}`, data ? JSON.stringify(data) : "");
 };
@@ -37,7 +54,7 @@ function detectDocumentType(filename: string): DocumentType {
 
   const imageExtensions = ["png", "jpg", "jpeg", "webp", "gif", "bmp", "tiff"];
   const wordExtensions = ["doc", "docx"];
-  const excelExtensions = ["xls", "xlsx"];
+  const excelExtensions = ["xls", "xlsx", "csv"];
   const textExtensions = [
     "txt",
     "md",
@@ -52,7 +69,6 @@ function detectDocumentType(filename: string): DocumentType {
   if (ext === "pdf") return "pdf";
   if (imageExtensions.includes(ext)) return "image";
   if (wordExtensions.includes(ext)) return "word";
-  if (ext === "csv") return "text";
   if (excelExtensions.includes(ext)) return "excel";
   if (textExtensions.includes(ext)) return "text";
 
@@ -92,200 +108,97 @@ function extractTextFromPlainText(buffer: Buffer): string {
   return buffer.toString("utf-8");
 }
 
-async function extractWithGeminiVision(
+// Uses the PDF's own text layer and sends only scanned or unreadable pages
+// to vision. Returns null when no page has a usable text layer, so the
+// caller can send the whole file to vision as before.
+async function extractPdfHybrid(
   buffer: Buffer,
-  mimeType: string,
   filename: string,
+  ocrEngine: OcrEngineChoice | undefined,
   onProgress?: (step: string) => void,
-): Promise<{ text: string; pages: number; language: string }> {
-  log("Extracting with Gemini Vision", { filename, bufferSize: buffer.length });
-
-  const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-  const base64Data = buffer.toString("base64");
-
-  const prompt = `You are a document OCR and extraction expert. Extract ALL text from this document with COMPLETE ACCURACY.
-
-CRITICAL REQUIREMENTS:
-1. Extract EVERY word, number, and symbol exactly as written
-2. Preserve document structure with clear page markers: === PAGE X ===
-3. For tables, use markdown format with | separators
-4. For financial data: capture exact amounts, percentages, ratios
-5. For Hindi/regional text: use proper Unicode characters
-6. For charts/graphs: describe the data they represent
-
-FINANCIAL DATA TO CAPTURE PRECISELY:
-- All monetary amounts (₹, crores, lakhs, millions)
-- Percentages and ratios (NPA%, CAR%, NIM%, ROA%, ROE%)
-- Company names, dates, regulatory references
-- Table headers and all cell values
-
-Report at end: [TOTAL_PAGES: X] [LANGUAGE: X]
-
-Extract COMPLETE text - do not summarize or skip sections.`;
-
-  const MAX_RETRIES = 5;
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      onProgress?.(`Vision extraction attempt ${attempt}/${MAX_RETRIES}...`);
-
-      const result = await model.generateContent([
-        prompt,
-        { inlineData: { mimeType, data: base64Data } },
-      ]);
-
-      const response = result.response.text();
-
-      const pagesMatch = response.match(/\[TOTAL_PAGES:\s*(\d+)\]/);
-      const pages = pagesMatch ? parseInt(pagesMatch[1], 10) : 1;
-
-      const languageMatch = response.match(/\[LANGUAGE:\s*([^\]]+)\]/);
-      const language = languageMatch ? languageMatch[1].trim() : "English";
-
-      const text = response
-        .replace(/\[TOTAL_PAGES:\s*\d+\]/g, "")
-        .replace(/\[LANGUAGE:\s*[^\]]+\]/g, "")
-        .trim();
-
-      log("Vision extraction complete", {
-        pages,
-        textLength: text.length,
-        attempt,
-      });
-
-      return { text, pages, language };
-    } catch (error) {
-      lastError = error as Error;
-      const errorStr = String(error);
-      const isRateLimit =
-        errorStr.includes("429") || errorStr.includes("Resource exhausted");
-
-      log("Vision extraction attempt failed", {
-        attempt,
-        isRateLimit,
-        error: errorStr.substring(0, 200),
-      });
-
-      if (attempt < MAX_RETRIES) {
-        const baseDelay = isRateLimit ? 30000 : 5000;
-        const delay = baseDelay * attempt;
-        log("Retrying after delay", { delay, nextAttempt: attempt + 1 });
-        onProgress?.(
-          `Rate limited. Waiting ${delay / 1000}s before retry ${attempt + 1}...`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-  }
-
-  log("Vision extraction failed after all retries", {
-    error: String(lastError),
+): Promise<{
+  text: string;
+  pages: number;
+  language?: string;
+  ocrPages: number[];
+  ocrResults: OcrPage[];
+  ocrEngine?: OcrEngineName;
+  regions: TextRegion[];
+} | null> {
+  onProgress?.("Reading PDF text layer...");
+  const native = await extractPdfText(buffer).catch((error) => {
+    log("Text layer unavailable", { error: String(error).substring(0, 150) });
+    return null;
   });
-  throw lastError || new Error("Vision extraction failed after max retries");
-}
-
-function semanticChunk(
-  text: string,
-  chunkSize: number = 500,
-  overlapPercent: number = 15,
-): string[] {
-  const overlap = Math.floor(chunkSize * (overlapPercent / 100));
-  const chunks: string[] = [];
-
-  const paragraphs = text.split(/\n\n+/);
-  let currentChunk = "";
-
-  for (const para of paragraphs) {
-    if (
-      currentChunk.length + para.length > chunkSize &&
-      currentChunk.length > 0
-    ) {
-      chunks.push(currentChunk.trim());
-      const overlapText = currentChunk.slice(-overlap);
-      currentChunk = overlapText + " " + para;
-    } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + para;
-    }
-  }
-
-  if (currentChunk.trim().length > 50) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks;
-}
-
-function createChunksWithSemanticSplit(
-  text: string,
-  maxChunks: number = 50,
-): DocumentChunk[] {
-  const chunks: DocumentChunk[] = [];
-
-  const pagePattern = /===\s*(?:PAGE|SHEET)\s*[:\s]*(\d+)\s*===/gi;
-  const pages: Array<{ pageNumber: number; content: string }> = [];
-
-  let lastIndex = 0;
-  let currentPageNum = 1;
-  let match;
-
-  while ((match = pagePattern.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      const content = text.substring(lastIndex, match.index).trim();
-      if (content.length > 50) {
-        pages.push({ pageNumber: currentPageNum, content });
+  if (!native || native.every((p) => p.needsOcr)) return null;
+
+  const pages: PageText[] = native
+    .filter((p) => !p.needsOcr)
+    .map((p) => ({ pageNumber: p.pageNumber, content: p.text }));
+  const ocrPages = native.filter((p) => p.needsOcr).map((p) => p.pageNumber);
+  const regions = native.filter((p) => !p.needsOcr).flatMap((p) => p.regions);
+  const ocrResults: OcrPage[] = [];
+  let language: string | undefined;
+  let engineName: OcrEngineName | undefined;
+  if (ocrPages.length) {
+    // The text layer of the readable pages decides the engine's script.
+    const { engine, scripts } = await selectOcrEngine(
+      ocrEngine,
+      "application/pdf",
+      pages.map((p) => p.content).join("\n").substring(0, 5000),
+      { data: buffer, mimeType: "application/pdf", pageNumber: ocrPages[0] },
+    );
+    engineName = engine.name;
+
+    for (const [first, last] of toPageRuns(ocrPages)) {
+      onProgress?.(`Running vision on scanned pages ${first}-${last}...`);
+      try {
+        const subset = await copyPdfPages(buffer, first, last);
+        const result = await engine.recognize(Buffer.from(subset), {
+          mimeType: "application/pdf",
+          filename,
+          firstPage: first,
+          lastPage: last,
+          scripts,
+          onProgress,
+        });
+        pages.push(...result.pages);
+        ocrResults.push(...result.pages);
+        regions.push(...result.pages.flatMap((p) => p.regions || []));
+        language ??= result.language;
+      } catch (error) {
+        // The indexing report lists these pages as skipped.
+        log("Vision failed for scanned pages", {
+          first,
+          last,
+          error: String(error).substring(0, 150),
+        });
       }
     }
-    currentPageNum = parseInt(match[1], 10);
-    lastIndex = match.index + match[0].length;
-  }
-
-  if (lastIndex < text.length) {
-    const content = text.substring(lastIndex).trim();
-    if (content.length > 50) {
-      pages.push({ pageNumber: currentPageNum, content });
-    }
-  }
-
-  if (pages.length === 0 && text.length > 50) {
-    pages.push({ pageNumber: 1, content: text });
-  }
-
-  for (const page of pages) {
-    if (chunks.length >= maxChunks) break;
-
-    const semanticChunks = semanticChunk(page.content, 500, 15);
-
-    for (const chunkText of semanticChunks) {
-      if (chunks.length >= maxChunks) break;
-      if (chunkText.length < 50) continue;
-
-      const isTable =
-        chunkText.includes("|") &&
-        (chunkText.includes("---") || /\|\s*\d/.test(chunkText));
-      const isHeader =
-        /^#+\s/.test(chunkText) ||
-        /^[A-Z][A-Z\s]{5,}$/.test(chunkText.split("\n")[0]);
-
-      chunks.push({
-        content: chunkText,
-        pageNumber: page.pageNumber,
-        chunkIndex: chunks.length,
-        type: isTable ? "table" : isHeader ? "header" : "text",
-      });
-    }
   }
 
-  log("Semantic chunks created", { count: chunks.length });
-  return chunks;
+  log("PDF extracted", {
+    filename,
+    pages: native.length,
+    textLayerPages: native.length - ocrPages.length,
+    ocrPages: ocrPages.length,
+  });
+  return {
+    text: joinPages(pages),
+    pages: native.length,
+    language,
+    ocrPages,
+    ocrResults,
+    ocrEngine: engineName,
+    regions,
+  };
 }
 
 export async function processDocument(
   buffer: Buffer,
   filename: string,
   onProgress?: (step: string) => void,
+  options: ProcessOptions = {},
 ): Promise<ProcessedDocument> {
   const startTime = Date.now();
   const documentType = detectDocumentType(filename);
@@ -299,6 +212,33 @@ export async function processDocument(
   let language = "English";
   let processingMethod: "text_extraction" | "ocr" | "hybrid" =
     "text_extraction";
+  let chunks: DocumentChunk[] | null = null;
+  let ocrEngine: OcrEngineName | undefined;
+  let ocrResults: OcrPage[] = [];
+  let regions: TextRegion[] = [];
+
+  const runOcr = async (mimeType: string) => {
+    const { engine, scripts, result: probed } = await selectOcrEngine(
+      options.ocrEngine,
+      mimeType,
+      "",
+      { data: buffer, mimeType, pageNumber: 1 },
+    );
+    const result =
+      probed ??
+      (await engine.recognize(buffer, {
+        mimeType,
+        filename,
+        scripts,
+        onProgress,
+      }));
+    fullText = result.text;
+    pageCount = result.pageCount;
+    language = result.language || language;
+    ocrEngine = result.engine;
+    ocrResults = result.pages;
+    regions = result.pages.flatMap((p) => p.regions || []);
+  };
 
   switch (documentType) {
     case "text":
@@ -306,61 +246,85 @@ export async function processDocument(
       break;
 
     case "word":
+      // Legacy binary .doc has no XML to read; it stays on vision.
+      if (filename.toLowerCase().endsWith(".docx")) {
+        onProgress?.("Reading Word document structure...");
+        try {
+          const docx = parseDocx(buffer);
+          fullText = docx.text;
+          pageCount = docx.pageCount;
+          chunks = docx.chunks;
+          break;
+        } catch (error) {
+          log("DOCX parse failed", {
+            filename,
+            error: String(error).substring(0, 150),
+          });
+        }
+      }
       requiresOCR = true;
       processingMethod = "ocr";
       onProgress?.("Extracting Word content (AI)...");
-      {
-        const mimeType = guessMimeType(filename, "application/octet-stream");
-        const visionResult = await extractWithGeminiVision(
-          buffer,
-          mimeType,
-          filename,
-          onProgress,
-        );
-        fullText = visionResult.text;
-        pageCount = visionResult.pages;
-        language = visionResult.language;
-      }
+      await runOcr(guessMimeType(filename, "application/octet-stream"));
       break;
 
     case "excel":
+      // Legacy binary .xls has no XML to read; it stays on vision.
+      if (!filename.toLowerCase().endsWith(".xls")) {
+        onProgress?.("Reading spreadsheet cells...");
+        try {
+          const sheet = parseSpreadsheet(buffer, filename);
+          fullText = sheet.text;
+          pageCount = Math.max(1, sheet.sheetCount);
+          chunks = sheet.chunks;
+          break;
+        } catch (error) {
+          log("Spreadsheet parse failed", {
+            filename,
+            error: String(error).substring(0, 150),
+          });
+          if (filename.toLowerCase().endsWith(".csv")) {
+            fullText = extractTextFromPlainText(buffer);
+            break;
+          }
+        }
+      }
       requiresOCR = true;
       processingMethod = "ocr";
       onProgress?.("Processing spreadsheet (AI)...");
-      {
-        const mimeType = guessMimeType(filename, "application/octet-stream");
-        const visionResult = await extractWithGeminiVision(
-          buffer,
-          mimeType,
-          filename,
-          onProgress,
-        );
-        fullText = visionResult.text;
-        pageCount = visionResult.pages;
-        language = visionResult.language;
-      }
+      await runOcr(guessMimeType(filename, "application/octet-stream"));
       break;
 
-    case "pdf":
+    case "pdf": {
+      const hybrid = await extractPdfHybrid(
+        buffer,
+        filename,
+        options.ocrEngine,
+        onProgress,
+      );
+      if (hybrid) {
+        fullText = hybrid.text;
+        pageCount = hybrid.pages;
+        language = hybrid.language || language;
+        ocrEngine = hybrid.ocrEngine;
+        ocrResults = hybrid.ocrResults;
+        regions = hybrid.regions;
+        requiresOCR = hybrid.ocrPages.length > 0;
+        processingMethod = requiresOCR ? "hybrid" : "text_extraction";
+        break;
+      }
+    }
+    // falls through: no usable text layer, treat the PDF as images
     case "image":
       requiresOCR = true;
       processingMethod = "ocr";
       onProgress?.("Running vision extraction...");
-
-      const mimeType = guessMimeType(
-        filename,
-        documentType === "pdf" ? "application/pdf" : "image/jpeg",
-      );
-
-      const visionResult = await extractWithGeminiVision(
-        buffer,
-        mimeType,
-        filename,
-        onProgress,
+      await runOcr(
+        guessMimeType(
+          filename,
+          documentType === "pdf" ? "application/pdf" : "image/jpeg",
+        ),
       );
-      fullText = visionResult.text;
-      pageCount = visionResult.pages;
-      language = visionResult.language;
       break;
 
     default:
@@ -368,7 +332,11 @@ export async function processDocument(
   }
 
   onProgress?.("Creating semantic index...");
-  const chunks = createChunksWithSemanticSplit(fullText);
+  // Spreadsheets and DOCX arrive already chunked along their own structure.
+  chunks ??= applyBoundingBoxes(
+    applyPageConfidence(chunkDocument(fullText), ocrResults),
+    regions,
+  );
 
   const processingTime = Date.now() - startTime;
   log("Document complete", {
@@ -389,6 +357,7 @@ export async function processDocument(
       pageCount,
       language,
       processingMethod,
+      ...(ocrEngine ? { ocrEngine } : {}),
     },
   };
 }
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { strToU8, zipSync } from "fflate";
+import { parseDocx } from "./docx";
+
+const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+function paragraph(body: string, props = ""): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${body}</w:p>`;
+}
+
+const heading = (level: number, text: string, numbered = false) =>
+  paragraph(
+    run(text),
+    `<w:pStyle w:val="Heading${level}"/>` +
+      (numbered ? '<w:numPr><w:ilvl w:val="1"/><w:numId w:val="1"/></w:numPr>' : ""),
+  );
+
+function buildDocx(body: string): Uint8Array {
+  const styles = [1, 2, 3]
+    .map(
+      (level) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/></w:style>`,
+    )
+    .join("");
+  // Clause numbers: level 0 starts at 4, level 1 renders as "4.1", "4.2".
+  const numbering =
+    `<w:numbering ${NS}><w:abstractNum w:abstractNumId="0">` +
+    '<w:lvl w:ilvl="0"><w:start w:val="4"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>' +
+    '<w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1.%2"/></w:lvl>' +
+    '</w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>';
+
+  return zipSync({
+    "word/document.xml": strToU8(`<w:document ${NS}><w:body>${body}</w:body></w:document>`),
+    "word/styles.xml": strToU8(`<w:styles ${NS}>${styles}</w:styles>`),
+    "word/numbering.xml": strToU8(numbering),
+  });
+}
+
+const POLICY = [
+  heading(1, "Part II"),
+  heading(2, "Exclusions"),
+  heading(3, "Maternity expenses", true),
+  paragraph(run("Maternity expenses are excluded unless the maternity add-on is purchased.")),
+  heading(3, "Pre-existing diseases", true),
+  paragraph(
+    run("Pre-existing diseases are covered after a waiting period of ") +
+      '<w:del w:id="1" w:author="Underwriting" w:date="2025-03-04T10:00:00Z"><w:r><w:delText>48</w:delText></w:r></w:del>' +
+      '<w:ins w:id="2" w:author="Underwriting" w:date="2025-03-04T10:00:00Z">' +
+      run("36") +
+      "</w:ins>" +
+      run(" months."),
+  ),
+].join("");
+
+test("parseDocx: numbered headings build the section path", () => {
+  const parsed = parseDocx(buildDocx(POLICY));
+
+  const clause = parsed.chunks.find((c) => c.content.includes("waiting period"))!;
+  assert.equal(clause.section, "Part II > Exclusions > 4.2 Pre-existing diseases");
+  assert.ok(clause.content.startsWith("### 4.2 Pre-existing diseases"));
+
+  const maternity = parsed.chunks.find((c) => c.content.includes("add-on"))!;
+  assert.equal(maternity.section, "Part II > Exclusions > 4.1 Maternity expenses");
+});
+
+test("parseDocx: tracked changes read as accepted and land in revisions", () => {
+  const parsed = parseDocx(buildDocx(POLICY));
+
+  assert.ok(parsed.text.includes("waiting period of 36 months."));
+  assert.ok(!parsed.text.includes("48"));
+  assert.deepEqual(
+    parsed.revisions.map(({ type, text, author, section }) => ({ type, text, author, section })),
+    [
+      {
+        type: "deletion",
+        text: "48",
+        author: "Underwriting",
+        section: "Part II > Exclusions > 4.2 Pre-existing diseases",
+      },
+      {
+        type: "insertion",
+        text: "36",
+        author: "Underwriting",
+        section: "Part II > Exclusions > 4.2 Pre-existing diseases",
+      },
+    ],
+  );
+
+  const clause = parsed.chunks.find((c) => c.content.includes("waiting period"))!;
+  assert.deepEqual(clause.revisions, [
+    'deleted by Underwriting on 2025-03-04: "48"',
+    'inserted by Underwriting on 2025-03-04: "36"',
+  ]);
+});
@@ -0,0 +1,534 @@
+import {
+  chunkSections,
+  ChunkingOptions,
+  TextChunk,
+  TextSection,
+} from "./chunking";
+import {
+  attr,
+  child,
+  descendants,
+  elements,
+  localName,
+  openPackage,
+  text,
+  XmlNode,
+} from "./ooxml";
+
+export interface DocxRevision {
+  type: "insertion" | "deletion";
+  author?: string;
+  date?: string;
+  text: string;
+  section?: string;
+  pageNumber: number;
+}
+
+export interface ParsedDocx {
+  text: string;
+  pageCount: number;
+  sections: TextSection[];
+  chunks: TextChunk[];
+  revisions: DocxRevision[];
+  footnoteCount: number;
+}
+
+interface ParagraphStyle {
+  level?: number;
+  numId?: string;
+  ilvl?: number;
+}
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+// Per-paragraph state while its runs are read.
+interface InlineContext {
+  text: string;
+  // Offsets in text where a manual or rendered page break fell.
+  pageBreaks: number[];
+  footnotes: string[];
+  revisions: Omit<DocxRevision, "section" | "pageNumber">[];
+}
+
+const log = (step: string, data?: object) => {
+  console.log(`[DOCX] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+function readStyles(styles: XmlNode | null): Map<string, ParagraphStyle> {
+  const raw = new Map<string, { basedOn?: string; style: ParagraphStyle }>();
+  for (const style of styles ? descendants(styles, "style") : []) {
+    if (attr(style, "type") !== "paragraph") continue;
+    const pPr = child(style, "pPr");
+    const outline = attr(pPr && child(pPr, "outlineLvl"), "val");
+    const heading = (attr(child(style, "name"), "val") || "").match(
+      /^heading (\d)$/i,
+    );
+    const numPr = pPr && child(pPr, "numPr");
+    raw.set(attr(style, "styleId") || "", {
+      basedOn: attr(child(style, "basedOn"), "val"),
+      style: {
+        level:
+          outline !== undefined && Number(outline) < 9
+            ? Number(outline) + 1
+            : heading
+              ? Number(heading[1])
+              : undefined,
+        numId: attr(numPr && child(numPr, "numId"), "val"),
+        ilvl: numPr ? Number(attr(child(numPr, "ilvl"), "val") || 0) : undefined,
+      },
+    });
+  }
+
+  // Resolve basedOn chains so custom heading styles inherit their level.
+  const resolved = new Map<string, ParagraphStyle>();
+  const resolve = (id: string, depth = 0): ParagraphStyle => {
+    if (resolved.has(id)) return resolved.get(id)!;
+    const entry = raw.get(id);
+    if (!entry) return {};
+    const parent =
+      entry.basedOn && depth < 10 ? resolve(entry.basedOn, depth + 1) : {};
+    const style = {
+      level: entry.style.level ?? parent.level,
+      numId: entry.style.numId ?? parent.numId,
+      ilvl: entry.style.ilvl ?? parent.ilvl,
+    };
+    resolved.set(id, style);
+    return style;
+  };
+  for (const id of raw.keys()) resolve(id);
+  return resolved;
+}
+
+function readNumbering(
+  numbering: XmlNode | null,
+): Map<string, Map<number, NumberingLevel>> {
+  const abstract = new Map<string, Map<number, NumberingLevel>>();
+  const nums = new Map<string, Map<number, NumberingLevel>>();
+  if (!numbering) return nums;
+
+  const readLevels = (node: XmlNode, into: Map<number, NumberingLevel>) => {
+    for (const lvl of elements(node, "lvl")) {
+      into.set(Number(attr(lvl, "ilvl") || 0), {
+        start: Number(attr(child(lvl, "start"), "val") || 1),
+        format: attr(child(lvl, "numFmt"), "val") || "decimal",
+        text: attr(child(lvl, "lvlText"), "val") || "",
+      });
+    }
+  };
+
+  for (const node of descendants(numbering, "abstractNum")) {
+    const levels = new Map<number, NumberingLevel>();
+    readLevels(node, levels);
+    abstract.set(attr(node, "abstractNumId") || "", levels);
+  }
+  for (const node of descendants(numbering, "num")) {
+    const base = abstract.get(attr(child(node, "abstractNumId"), "val") || "");
+    const levels = new Map(base);
+    for (const override of elements(node, "lvlOverride")) {
+      const ilvl = Number(attr(override, "ilvl") || 0);
+      const replacement = new Map<number, NumberingLevel>();
+      const lvl = child(override, "lvl");
+      if (lvl) readLevels({ ...override, children: [lvl] }, replacement);
+      const current = replacement.get(ilvl) || levels.get(ilvl);
+      const start = attr(child(override, "startOverride"), "val");
+      if (current) {
+        levels.set(ilvl, start ? { ...current, start: Number(start) } : current);
+      }
+    }
+    nums.set(attr(node, "numId") || "", levels);
+  }
+  return nums;
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+    [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+  ];
+  let out = "";
+  for (const [n, numeral] of numerals) {
+    for (; value >= n; value -= n) out += numeral;
+  }
+  return out;
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case "upperRoman":
+      return toRoman(value);
+    case "lowerRoman":
+      return toRoman(value).toLowerCase();
+    case "upperLetter":
+      return String.fromCharCode(64 + (((value - 1) % 26) + 1));
+    case "lowerLetter":
+      return String.fromCharCode(96 + (((value - 1) % 26) + 1));
+    default:
+      return String(value);
+  }
+}
+
+// Word computes list and clause numbers at render time; this replays the
+// counters so "4.2" shows up in the text and the section path.
+function createNumberer(numbering: Map<string, Map<number, NumberingLevel>>) {
+  const counters = new Map<string, number[]>();
+
+  return (numId: string, ilvl: number): string | null => {
+    const levels = numbering.get(numId);
+    const level = levels?.get(ilvl);
+    if (!levels || !level || numId === "0") return null;
+    if (level.format === "bullet") return "-";
+    if (level.format === "none") return "";
+
+    const counts = counters.get(numId) || [];
+    counts[ilvl] = (counts[ilvl] ?? level.start - 1) + 1;
+    counts.length = ilvl + 1;
+    counters.set(numId, counts);
+
+    return level.text.replace(/%(\d)/g, (_, n: string) => {
+      const i = Number(n) - 1;
+      const source = levels.get(i);
+      return formatNumber(counts[i] ?? source?.start ?? 1, source?.format || "decimal");
+    });
+  };
+}
+
+function readNotes(part: XmlNode | null, name: "footnote" | "endnote") {
+  const notes = new Map<string, string>();
+  for (const note of part ? descendants(part, name) : []) {
+    const type = attr(note, "type");
+    if (type === "separator" || type === "continuationSeparator") continue;
+    const body = elements(note, "p")
+      .map((p) => paragraphText(p).replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .join(" ");
+    notes.set(attr(note, "id") || "", body);
+  }
+  return notes;
+}
+
+// Accepted view of a paragraph's runs: insertions kept, deletions dropped,
+// both recorded on the context.
+function readInline(node: XmlNode, ctx: InlineContext) {
+  for (const item of elements(node)) {
+    switch (localName(item.name)) {
+      case "t":
+        ctx.text += text(item);
+        break;
+      case "tab":
+        ctx.text += "\t";
+        break;
+      case "br":
+      case "cr":
+        if (attr(item, "type") === "page") {
+          ctx.pageBreaks.push(ctx.text.length);
+        } else {
+          ctx.text += "\n";
+        }
+        break;
+      case "lastRenderedPageBreak":
+        ctx.pageBreaks.push(ctx.text.length);
+        break;
+      case "noBreakHyphen":
+        ctx.text += "-";
+        break;
+      case "footnoteReference":
+        ctx.text += `[^${attr(item, "id")}]`;
+        ctx.footnotes.push(`footnote:${attr(item, "id")}`);
+        break;
+      case "endnoteReference":
+        ctx.text += `[^e${attr(item, "id")}]`;
+        ctx.footnotes.push(`endnote:${attr(item, "id")}`);
+        break;
+      case "ins":
+      case "moveTo": {
+        const before = ctx.text.length;
+        readInline(item, ctx);
+        const inserted = ctx.text.slice(before).trim();
+        if (inserted) {
+          ctx.revisions.push({
+            type: "insertion",
+            author: attr(item, "author"),
+            date: attr(item, "date"),
+            text: inserted,
+          });
+        }
+        break;
+      }
+      case "del":
+      case "moveFrom": {
+        const deleted = descendants(item, "delText").map(text).join("").trim();
+        if (deleted) {
+          ctx.revisions.push({
+            type: "deletion",
+            author: attr(item, "author"),
+            date: attr(item, "date"),
+            text: deleted,
+          });
+        }
+        break;
+      }
+      case "r":
+      case "hyperlink":
+      case "smartTag":
+      case "fldSimple":
+      case "sdt":
+      case "sdtContent":
+      case "customXml":
+        readInline(item, ctx);
+        break;
+    }
+  }
+}
+
+function newContext(): InlineContext {
+  return {
+    text: "",
+    pageBreaks: [],
+    footnotes: [],
+    revisions: [],
+  };
+}
+
+// A block starts on a new page when a break precedes all of its text, and
+// moves what follows to a new page when the break comes after text (or the
+// block is an empty page-break paragraph).
+function breakPlacement(ctx: InlineContext): { before: boolean; after: boolean } {
+  const hasText = (from: number, to?: number) =>
+    ctx.text.slice(from, to).trim().length > 0;
+  return {
+    before: ctx.pageBreaks.some((at) => !hasText(0, at) && hasText(at)),
+    after: ctx.pageBreaks.some((at) => hasText(0, at) || !hasText(0)),
+  };
+}
+
+// Table cells share their table's context, so return only this paragraph.
+function paragraphText(p: XmlNode, ctx: InlineContext = newContext()): string {
+  const start = ctx.text.length;
+  readInline(p, ctx);
+  return ctx.text.slice(start);
+}
+
+const escapeCell = (value: string) =>
+  value.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+
+function tableMarkdown(tbl: XmlNode, ctx: InlineContext): string {
+  const rows = elements(tbl, "tr").map((tr) =>
+    elements(tr, "tc").flatMap((tc) => {
+      // Nested tables are flattened into the cell's text.
+      const value = descendants(tc, "p")
+        .map((p) => paragraphText(p, ctx))
+        .join(" ");
+      const tcPr = child(tc, "tcPr");
+      const span = Number(attr(tcPr && child(tcPr, "gridSpan"), "val") || 1);
+      return [escapeCell(value), ...Array<string>(Math.max(0, span - 1)).fill("")];
+    }),
+  );
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  if (!width) return "";
+
+  const line = (cells: string[]) =>
+    `| ${[...cells, ...Array<string>(width - cells.length).fill("")].join(" | ")} |`;
+  return [
+    line(rows[0]),
+    `|${" --- |".repeat(width)}`,
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+// Body blocks in document order, looking through content controls.
+function bodyBlocks(node: XmlNode): XmlNode[] {
+  return elements(node).flatMap((item) => {
+    const name = localName(item.name);
+    if (name === "p" || name === "tbl") return [item];
+    if (name === "sdt") {
+      const content = child(item, "sdtContent");
+      return content ? bodyBlocks(content) : [];
+    }
+    if (name === "customXml") return bodyBlocks(item);
+    return [];
+  });
+}
+
+function revisionNote(revision: DocxRevision): string {
+  const verb = revision.type === "insertion" ? "inserted" : "deleted";
+  const by = revision.author ? ` by ${revision.author}` : "";
+  const on = revision.date ? ` on ${revision.date.slice(0, 10)}` : "";
+  const quoted =
+    revision.text.length > 120 ? `${revision.text.slice(0, 117)}...` : revision.text;
+  return `${verb}${by}${on}: "${quoted}"`;
+}
+
+export function parseDocx(
+  data: ArrayBuffer | Uint8Array,
+  options: ChunkingOptions = {},
+): ParsedDocx {
+  const pkg = openPackage(data);
+  const document = pkg.xml("word/document.xml");
+  const body = document && descendants(document, "body")[0];
+  if (!body) throw new Error("Not a DOCX document (word/document.xml missing)");
+
+  const styles = readStyles(pkg.xml("word/styles.xml"));
+  const numberer = createNumberer(readNumbering(pkg.xml("word/numbering.xml")));
+  const footnotes = readNotes(pkg.xml("word/footnotes.xml"), "footnote");
+  const endnotes = readNotes(pkg.xml("word/endnotes.xml"), "endnote");
+
+  const sections: TextSection[] = [];
+  // anchor: start of the paragraph a revision was found in, used to find
+  // its chunk once the sections are chunked.
+  const revisions: Array<DocxRevision & { anchor: string }> = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  let heading: string | undefined;
+  let headingPending = false;
+  let pageNumber = 1;
+  // Word writes both a manual break and, on the next paragraph, the break
+  // it rendered; a pending break lets the two count once.
+  let breakPending = false;
+  let lines: string[] = [];
+  let notes: string[] = [];
+  let footnoteCount = 0;
+
+  const path = () =>
+    stack.length ? stack.map((h) => h.title).join(" > ") : undefined;
+
+  // Footnotes are placed at the end of the section that cites them, so they
+  // are indexed with the clause they qualify.
+  const flush = () => {
+    const text = [...lines, ...notes].join("\n\n").trim();
+    // Heading-only sections chunk to nothing but keep the full text whole.
+    if (text || headingPending) {
+      sections.push({ heading, path: path(), body: text, pageNumber });
+      headingPending = false;
+    }
+    lines = [];
+    notes = [];
+  };
+
+  const addNotes = (refs: string[]) => {
+    for (const ref of refs) {
+      const [kind, id] = ref.split(":");
+      const note = (kind === "footnote" ? footnotes : endnotes).get(id);
+      if (!note) continue;
+      notes.push(`[^${kind === "footnote" ? "" : "e"}${id}]: ${note}`);
+      footnoteCount++;
+    }
+  };
+
+  const recordRevisions = (ctx: InlineContext, anchorText: string) => {
+    for (const revision of ctx.revisions) {
+      revisions.push({
+        ...revision,
+        section: path(),
+        pageNumber,
+        anchor: anchorText.trim().slice(0, 60),
+      });
+    }
+  };
+
+  const startBlock = (breakBefore: boolean) => {
+    if (!breakBefore && !breakPending) return;
+    flush();
+    pageNumber++;
+    breakPending = false;
+  };
+
+  for (const block of bodyBlocks(body)) {
+    const ctx = newContext();
+
+    if (localName(block.name) === "tbl") {
+      const table = tableMarkdown(block, ctx);
+      const breaks = breakPlacement(ctx);
+      startBlock(breaks.before);
+      if (table) lines.push(table);
+      recordRevisions(ctx, table.split("\n").slice(2).join(" "));
+      addNotes(ctx.footnotes);
+      breakPending = breaks.after;
+      continue;
+    }
+
+    const pPr = child(block, "pPr");
+    const styleId = attr(pPr && child(pPr, "pStyle"), "val") || "";
+    const style = styles.get(styleId) || {};
+    const outline = attr(pPr && child(pPr, "outlineLvl"), "val");
+    const fallbackLevel = styleId.match(/^Heading(\d)$/i);
+    const level =
+      outline !== undefined && Number(outline) < 9
+        ? Number(outline) + 1
+        : style.level ?? (fallbackLevel ? Number(fallbackLevel[1]) : undefined);
+
+    const numPr = pPr && child(pPr, "numPr");
+    const numId = attr(numPr && child(numPr, "numId"), "val") ?? style.numId;
+    const ilvl = Number(attr(numPr && child(numPr, "ilvl"), "val") ?? style.ilvl ?? 0);
+    const label = numId ? numberer(numId, ilvl) : null;
+
+    const content = paragraphText(block, ctx).replace(/[ \t]+/g, " ").trim();
+    const breaks = breakPlacement(ctx);
+    startBlock(
+      breaks.before ||
+        (pPr !== undefined && child(pPr, "pageBreakBefore") !== undefined),
+    );
+
+    if (level && content) {
+      flush();
+      const title = label && label !== "-" ? `${label} ${content}` : content;
+      while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, title });
+      heading = `${"#".repeat(Math.min(level, 6))} ${title}`;
+      headingPending = true;
+    } else if (content) {
+      lines.push(label ? `${label} ${content}` : content);
+    }
+
+    recordRevisions(ctx, content);
+    addNotes(ctx.footnotes);
+    breakPending = breaks.after;
+  }
+  flush();
+
+  const chunks = chunkSections(sections, options);
+  for (const revision of revisions) {
+    const sameSection = chunks.filter(
+      (c) => c.section === revision.section && c.pageNumber === revision.pageNumber,
+    );
+    const target =
+      sameSection.find((c) => revision.anchor && c.content.includes(revision.anchor)) ||
+      sameSection[0];
+    if (target) target.revisions = [...(target.revisions || []), revisionNote(revision)];
+  }
+
+  const fullText = sections
+    .map((s, i) => {
+      const previous = sections[i - 1];
+      const marker =
+        !previous || previous.pageNumber !== s.pageNumber
+          ? `=== PAGE ${s.pageNumber} ===\n`
+          : "";
+      // A section continued across a page break repeats its heading only
+      // in the chunks.
+      const continued = previous && previous.path === s.path && previous.heading === s.heading;
+      const title = s.heading && !continued ? `${s.heading}\n\n` : "";
+      return `${marker}${title}${s.body}`.trim();
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+  log("Document parsed", {
+    sections: sections.length,
+    chunks: chunks.length,
+    pages: pageNumber,
+    footnotes: footnoteCount,
+    revisions: revisions.length,
+  });
+
+  return {
+    text: fullText,
+    pageCount: pageNumber,
+    sections,
+    chunks,
+    revisions: revisions.map(({ anchor: _anchor, ...revision }) => revision),
+    footnoteCount,
+  };
+}
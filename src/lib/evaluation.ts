@@ -0,0 +1,206 @@
+import type { SourceContext } from "./gemini";
+import type { LexicalEntry } from "./redis";
+import { chunkDocument, ChunkingOptions } from "./chunking";
+import { indexChunks, toIndexingReport, IndexingReport } from "./indexing";
+import { buildLexicalIndex, tokenize } from "./lexical-index";
+import { createFakeProvider, setProviders, LLMProvider } from "./llm-provider";
+import { retrieveContext, RetrievalBackend } from "./retrieval";
+import { createMemoryVectorStore } from "./vector-store";
+
+export interface EvalDocument {
+  filename: string;
+  text: string;
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expected: {
+    filename: string;
+    pages: number[];
+    // A figure the answer must contain, compared without separators so
+    // "1,23,456" and "123456" match.
+    number?: string;
+  };
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  rank: number | null;
+  hitAtK: boolean;
+  citedPages: string[];
+  citationCorrect: boolean;
+  numberFound: boolean | null;
+  answer: string;
+}
+
+export interface EvalReport {
+  k: number;
+  questions: number;
+  recallAtK: number;
+  mrr: number;
+  citationPageAccuracy: number;
+  numberAccuracy: number | null;
+  indexing: Record<string, IndexingReport>;
+  results: QuestionResult[];
+}
+
+export interface EvalOptions {
+  k?: number;
+  chunking?: ChunkingOptions;
+  // Answers query rewriting and model reranking; the fake leaves both as
+  // pass-throughs, a real provider measures their effect.
+  provider?: LLMProvider;
+  backend?: RetrievalBackend;
+}
+
+const EVAL_SESSION = "eval";
+const CITATION_PATTERN =
+  /\[Source:\s*([^,\]]+),?\s*Page\s*(\d+)(?:,\s*[^\]]+)?\]/gi;
+
+export function createMemoryBackend(
+  embedder: LLMProvider = createFakeProvider(),
+): RetrievalBackend {
+  const vectors = createMemoryVectorStore();
+  // Keyed by chunk id like the Redis hash, so re-indexing replaces entries.
+  const lexical = new Map<string, Map<string, LexicalEntry>>();
+
+  return {
+    embed: (text) => embedder.embed(text),
+    upsertVectors: (batch) => vectors.upsert(batch),
+    queryVectors: (embedding, sessionId, topK) =>
+      vectors.query(embedding, { topK, filter: { sessionId } }),
+    appendLexicalEntries: async (sessionId, entries) => {
+      const session = lexical.get(sessionId) || new Map();
+      for (const entry of entries) session.set(entry.id, entry);
+      lexical.set(sessionId, session);
+    },
+    loadLexicalIndex: async (sessionId) =>
+      buildLexicalIndex([...(lexical.get(sessionId)?.values() || [])]),
+  };
+}
+
+// Stands in for the answer model: quotes the excerpt line that shares the
+// most terms with the question and cites it the way the real prompt asks to.
+export function extractiveAnswer(
+  question: string,
+  sources: SourceContext[],
+): string {
+  const terms = new Set(tokenize(question));
+  let best: { line: string; source: SourceContext; score: number } | null = null;
+
+  for (const source of sources.slice(0, 3)) {
+    for (const line of source.excerpt.split(/\n+|\.\s+/)) {
+      const score = tokenize(line).filter((t) => terms.has(t)).length;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { line: line.trim(), source, score };
+      }
+    }
+  }
+
+  if (!best) return "The documents do not contain this information.";
+  return `${best.line} [Source: ${best.source.filename}, Page ${best.source.pageNumber}]`;
+}
+
+function normalizeNumber(text: string): string {
+  return text.replace(/[,\s₹$]/g, "").toLowerCase();
+}
+
+function isRelevant(source: SourceContext, expected: GoldenQuestion["expected"]) {
+  return (
+    source.filename === expected.filename &&
+    expected.pages.includes(source.pageNumber)
+  );
+}
+
+export function scoreQuestion(
+  question: GoldenQuestion,
+  sources: SourceContext[],
+  answer: string,
+  k: number,
+): QuestionResult {
+  const index = sources.findIndex((s) => isRelevant(s, question.expected));
+  const rank = index === -1 ? null : index + 1;
+
+  const citations = [...answer.matchAll(CITATION_PATTERN)].map((m) => ({
+    filename: m[1].trim(),
+    pageNumber: parseInt(m[2], 10),
+  }));
+
+  return {
+    id: question.id,
+    question: question.question,
+    rank,
+    hitAtK: rank !== null && rank <= k,
+    citedPages: citations.map((c) => `${c.filename} p${c.pageNumber}`),
+    citationCorrect: citations.some((c) =>
+      isRelevant({ ...c, excerpt: "", relevanceScore: 0 }, question.expected),
+    ),
+    numberFound: question.expected.number
+      ? normalizeNumber(answer).includes(normalizeNumber(question.expected.number))
+      : null,
+    answer,
+  };
+}
+
+export async function runEvaluation(
+  documents: EvalDocument[],
+  questions: GoldenQuestion[],
+  options: EvalOptions = {},
+): Promise<EvalReport> {
+  const {
+    k = 5,
+    chunking,
+    provider = createFakeProvider(),
+    backend = createMemoryBackend(provider),
+  } = options;
+  setProviders({ llm: provider, embedding: provider });
+
+  const indexing: Record<string, IndexingReport> = {};
+  for (const doc of documents) {
+    const chunks = chunkDocument(doc.text, chunking);
+    const progress = await indexChunks(
+      chunks.map((chunk, index) => ({
+        id: `${EVAL_SESSION}_${doc.filename}_${index}`,
+        content: chunk.content,
+        pageNumber: chunk.pageNumber,
+        metadata: {
+          chunkIndex: index,
+          totalChunks: chunks.length,
+          chunkType: chunk.type,
+          ...(chunk.section ? { section: chunk.section } : {}),
+        },
+      })),
+      { sessionId: EVAL_SESSION, filename: doc.filename, backend },
+    );
+    const pages = Math.max(1, ...chunks.map((c) => c.pageNumber));
+    indexing[doc.filename] = toIndexingReport(progress, pages);
+  }
+
+  const results: QuestionResult[] = [];
+  for (const question of questions) {
+    const { sources } = await retrieveContext(question.question, EVAL_SESSION, {
+      backend,
+    });
+    const answer = extractiveAnswer(question.question, sources);
+    results.push(scoreQuestion(question, sources, answer, k));
+  }
+
+  const mean = (values: number[]) =>
+    values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const numbered = results.filter((r) => r.numberFound !== null);
+
+  return {
+    k,
+    questions: results.length,
+    recallAtK: mean(results.map((r) => (r.hitAtK ? 1 : 0))),
+    mrr: mean(results.map((r) => (r.rank ? 1 / r.rank : 0))),
+    citationPageAccuracy: mean(results.map((r) => (r.citationCorrect ? 1 : 0))),
+    numberAccuracy: numbered.length
+      ? mean(numbered.map((r) => (r.numberFound ? 1 : 0)))
+      : null,
+    indexing,
+    results,
+  };
+}
@@ -1,5 +1,25 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import {
+  getLLMProvider,
+  getEmbeddingProvider,
+  LLMContent,
+  LLMPart,
+} from "./llm-provider";
 import { getRelevantKnowledge } from "./knowledge-base";
+import type { ChatTool, ToolCallTrace } from "./chat-tools";
+import type { ContagionSimulation } from "./risk-analyzer";
+import type { BoundingBox } from "./bounding-box";
+import {
+  extractStructuredBlocks,
+  stripStructuredBlocks,
+  parseAndValidate,
+  RESPONSE_SCHEMAS,
+  ChartConfig,
+  RiskAnalysisOutput,
+  MetricOutput,
+  StructuredBlocks,
+  StructuredKey,
+  StructuredValidationError,
+} from "./structured-output";
 import {
   getCachedResponse,
   setCachedResponse,
@@ -8,45 +28,34 @@ import {
   createHash,
 } from "./redis";
 
-let genAI: GoogleGenerativeAI | null = null;
-
-function getClient(): GoogleGenerativeAI {
-  if (!genAI) {
-    genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-  }
-  return genAI;
-}
+// Unlike generateEmbeddings this throws, so indexing can back off on rate
+// limits instead of storing a zero vector.
+export async function embedText(text: string): Promise<number[]> {
+  const truncatedText = text.length > 1500 ? text.substring(0, 1500) : text;
+  const provider = getEmbeddingProvider();
+  // Keyed by model too: vectors from different models are not comparable.
+  const textHash = createHash(
+    `${provider.name}:${provider.embeddingModel}:${truncatedText}`,
+  );
 
-export function getEmbeddingModel(): GenerativeModel {
-  return getClient().getGenerativeModel({ model: "text-embedding-004" });
-}
+  const cached = await getCachedEmbedding(textHash);
+  if (cached) return cached;
 
-export function getChatModel(): GenerativeModel {
-  return getClient().getGenerativeModel({ model: "gemini-2.0-flash" });
+  const values = await provider.embed(truncatedText);
+  await setCachedEmbedding(textHash, values);
+  return values;
 }
 
 export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const model = getEmbeddingModel();
   const embeddings: number[][] = [];
-  const startTime = Date.now();
-
-  for (let i = 0; i < texts.length; i++) {
-    const text = texts[i];
-    const truncatedText = text.length > 1500 ? text.substring(0, 1500) : text;
-    const textHash = createHash(truncatedText);
-
-    const cached = await getCachedEmbedding(textHash);
-    if (cached) {
-      embeddings.push(cached);
-      continue;
-    }
 
+  for (const text of texts) {
     try {
-      const result = await model.embedContent(truncatedText);
-      embeddings.push(result.embedding.values);
-      await setCachedEmbedding(textHash, result.embedding.values);
+      embeddings.push(await embedText(text));
     } catch (error) {
-      embeddings.push(new Array(768).fill(0));
+      embeddings.push(
+        new Array(getEmbeddingProvider().embeddingDimensions).fill(0),
+      );
     }
   }
 
@@ -64,6 +73,13 @@ export interface SourceContext {
   excerpt: string;
   relevanceScore: number;
   chunkIndex?: number;
+  chunkId?: string;
+  // Heading path of the chunk, e.g. "Part II > Exclusions > 4.2".
+  section?: string;
+  // Where on the page the excerpt was read from, as page fractions.
+  boundingBox?: BoundingBox;
+  retrievalScores?: { fused: number; dense?: number; lexical?: number };
+  rerank?: { score: number; reason?: string; method: "model" | "heuristic" };
 }
 
 export interface VisualAnalysis {
@@ -74,32 +90,13 @@ export interface VisualAnalysis {
 export interface ChatResponse {
   response: string;
   citedSources: SourceContext[];
-  chartConfig?: {
-    type: "bar" | "line" | "pie" | "area" | "scatter";
-    title: string;
-    data: Array<{
-      name: string;
-      value: number;
-      [key: string]: string | number;
-    }>;
-  };
-  riskAnalysis?: {
-    overallRisk: "low" | "medium" | "high" | "critical";
-    riskScore: number;
-    factors: Array<{
-      factor: string;
-      impact: "positive" | "negative" | "neutral";
-      description: string;
-    }>;
-    recommendations: string[];
-  };
-  metrics?: Array<{
-    name: string;
-    value: number | string;
-    unit?: string;
-    change?: number;
-  }>;
+  chartConfig?: ChartConfig;
+  riskAnalysis?: RiskAnalysisOutput;
+  metrics?: MetricOutput[];
   entities?: Array<{ name: string; type: string }>;
+  contagion?: ContagionSimulation;
+  toolCalls?: ToolCallTrace[];
+  validationErrors?: StructuredValidationError[];
   hasDocumentContext: boolean;
 }
 
@@ -142,8 +139,12 @@ Before answering ANY question about an uploaded document, you MUST:
 | Showing part-to-whole | pie | Market share, coverage breakdown, allocation |
 | Showing distribution | area | Risk distribution, value ranges, trends |
 | Showing correlation | scatter | Risk vs return, correlation analysis |
+| Several metrics over the same periods | bar/line with series | GNPA vs NNPA over 5 years |
+| Metrics on different scales | combo with axis "right" | Advances (₹ Cr) bars + GNPA (%) line |
+| Composition over time | bar with "stacked": true | Deposit mix (CASA/term) by year |
+| Bridge from one total to another | waterfall | P&L bridge, NII to PAT, capital walk |
 
-**ALWAYS output chart in this EXACT format at the end of your response:**
+**Single-series chart format:**
 \`\`\`chart
 {
   "type": "bar|line|pie|area|scatter",
@@ -155,6 +156,41 @@ Before answering ANY question about an uploaded document, you MUST:
 }
 \`\`\`
 
+**Multi-series / combo format** (one numeric key per series in every point; "referenceLines" mark regulatory thresholds):
+\`\`\`chart
+{
+  "type": "combo",
+  "title": "Advances and GNPA, FY20-FY24",
+  "series": [
+    {"key": "advances", "label": "Advances (₹ Cr)", "type": "bar"},
+    {"key": "gnpa", "label": "GNPA (%)", "type": "line", "axis": "right"}
+  ],
+  "referenceLines": [{"y": 5, "label": "RBI PCA trigger 5%", "axis": "right"}],
+  "data": [
+    {"name": "FY23", "advances": 1600000, "gnpa": 2.1},
+    {"name": "FY24", "advances": 2500000, "gnpa": 1.3}
+  ]
+}
+\`\`\`
+Use "type": "bar" or "line" with "series" for same-scale comparisons, and add "stacked": true for stacked bars.
+
+**Waterfall format** (signed changes; mark totals with "isTotal": true, value optional):
+\`\`\`chart
+{
+  "type": "waterfall",
+  "title": "FY24 profit bridge (₹ Cr)",
+  "data": [
+    {"name": "NII", "value": 8500, "isTotal": true},
+    {"name": "Other income", "value": 2100},
+    {"name": "Opex", "value": -4300},
+    {"name": "Provisions", "value": -1200},
+    {"name": "PBT", "isTotal": true}
+  ]
+}
+\`\`\`
+
+**ALWAYS output exactly one chart block at the end of your response.**
+
 **Visualization Rules:**
 1. **REAL DATA ONLY** - NEVER use placeholder or made-up values
 2. **MINIMUM 2 DATA POINTS** - No single-value charts
@@ -168,23 +204,247 @@ Before answering ANY question about an uploaded document, you MUST:
 - Indian Markets: NSE/BSE, F&O, settlement cycles
 - Financial Terminology: CASA, NIM, GNPA, PCR, FII/DII
 
+## 🧮 Tools
+You can call tools. NEVER compute or guess a number a tool can provide:
+- **priceOption / impliedVolatility / checkPutCallParity / optionPositionPnL** for ANY option premium, Greek, implied volatility, parity or F&O position P&L question. Volatility and rates are decimals (18% = 0.18); convert expiry to calendar days.
+- **queryDocuments** when the excerpts below do not contain what the question needs (cite the returned filename and page).
+- **extractFinancialMetrics** and **generateRiskReport** for ratios and risk scoring from the documents.
+- **queryRelatedEntities** and **simulateRiskContagion** for relationships and default/stress scenarios in the knowledge graph.
+Quote the exact numbers tools return. Do not emit \`\`\`metrics or \`\`\`risk blocks for tool results; they are shown automatically.
+
 ## Formatting
 - Use **bold** for key terms and numbers
 - Use ## headers for complex responses
 - Use markdown tables for comparative data
-- Citations: **[Source: filename, Page X]** or **[Page X]**
+- Citations: **[Source: filename, Page X]** or **[Page X]**; when the excerpt names a section, add it: **[Source: filename, Page X, Part II > Exclusions > 4.2]**
 - Always include visuals for numerical analysis
 
 Be accurate, cite sources, and ALWAYS provide visual analysis when data is available.`;
 
+const MAX_TOOL_ROUNDS = 4;
+
+interface ToolLoopResult {
+  responseText: string;
+  toolCalls: ToolCallTrace[];
+  metrics: NonNullable<ChatResponse["metrics"]>;
+  riskAnalysis?: ChatResponse["riskAnalysis"];
+  contagion?: ContagionSimulation;
+  sources: SourceContext[];
+}
+
+async function runToolLoop(
+  prompt: string,
+  tools: ChatTool[],
+  onToken?: (text: string) => void,
+): Promise<ToolLoopResult> {
+  const contents: LLMContent[] = [{ role: "user", parts: [{ text: prompt }] }];
+  const registry = new Map(tools.map((t) => [t.declaration.name, t]));
+  const loop: ToolLoopResult = {
+    responseText: "",
+    toolCalls: [],
+    metrics: [],
+    sources: [],
+  };
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const response = await getLLMProvider().generate(contents, {
+      // The final round withholds tools so the model has to answer in text.
+      tools:
+        round < MAX_TOOL_ROUNDS ? tools.map((t) => t.declaration) : undefined,
+      onToken,
+    });
+
+    const calls = response.functionCalls;
+    if (calls.length === 0) {
+      loop.responseText = response.text;
+      return loop;
+    }
+
+    contents.push({
+      role: "model",
+      parts: calls.map((call): LLMPart => ({ functionCall: call })),
+    });
+
+    const responses: LLMPart[] = [];
+    for (const call of calls) {
+      const args = (call.args || {}) as Record<string, unknown>;
+      const startTime = Date.now();
+      const tool = registry.get(call.name);
+
+      try {
+        if (!tool) throw new Error(`Unknown tool ${call.name}`);
+        const output = await tool.execute(args);
+
+        if (output.metrics) loop.metrics.push(...output.metrics);
+        if (output.riskAnalysis) loop.riskAnalysis = output.riskAnalysis;
+        if (output.contagion) loop.contagion = output.contagion;
+        if (output.sources) loop.sources.push(...output.sources);
+
+        loop.toolCalls.push({
+          name: call.name,
+          args,
+          result: output.result,
+          durationMs: Date.now() - startTime,
+        });
+        responses.push({
+          functionResponse: { name: call.name, response: output.result },
+        });
+      } catch (error) {
+        loop.toolCalls.push({
+          name: call.name,
+          args,
+          error: String(error),
+          durationMs: Date.now() - startTime,
+        });
+        responses.push({
+          functionResponse: {
+            name: call.name,
+            response: { error: String(error) },
+          },
+        });
+      }
+    }
+
+    contents.push({ role: "function", parts: responses });
+  }
+
+  return loop;
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const BLOCK_KEYS: Record<StructuredValidationError["block"], StructuredKey> = {
+  chart: "chartConfig",
+  risk: "riskAnalysis",
+  metrics: "metrics",
+};
+
+// Re-emits a malformed block through the model's JSON mode constrained by the
+// block's response schema, feeding back the validator's errors each attempt.
+async function repairStructuredBlock(
+  invalid: StructuredValidationError,
+  answer: string,
+): Promise<{ value?: unknown; errors: string[] }> {
+  const key = BLOCK_KEYS[invalid.block];
+  let raw = invalid.raw;
+  let errors = invalid.errors;
+
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      const result = await getLLMProvider().generate(
+        `The following ${invalid.block} JSON failed validation:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Invalid JSON:
+${raw}
+
+Answer it belongs to (use ONLY numbers that appear here):
+${answer.substring(0, 6000)}
+
+Return the corrected ${invalid.block} JSON.`,
+        { responseSchema: RESPONSE_SCHEMAS[key] },
+      );
+      raw = result.text;
+      const repaired = parseAndValidate(key, raw);
+      if (repaired.value) return repaired;
+      errors = repaired.errors;
+    } catch (error) {
+      errors = [String(error)];
+    }
+  }
+
+  return { errors };
+}
+
+export async function resolveStructuredBlocks(responseText: string): Promise<{
+  blocks: StructuredBlocks;
+  validationErrors: StructuredValidationError[];
+}> {
+  const { blocks, invalid } = extractStructuredBlocks(responseText);
+  const validationErrors: StructuredValidationError[] = [];
+  const answer = stripStructuredBlocks(responseText);
+
+  for (const block of invalid) {
+    const repaired = await repairStructuredBlock(block, answer);
+    if (repaired.value) {
+      (blocks as Record<StructuredKey, unknown>)[BLOCK_KEYS[block.block]] =
+        repaired.value;
+    } else {
+      validationErrors.push({ ...block, errors: repaired.errors });
+    }
+  }
+
+  return { blocks, validationErrors };
+}
+
+// Retrieved excerpts and those found by tool calls, each chunk once.
+export function mergeSources(...lists: SourceContext[][]): SourceContext[] {
+  const seenChunks = new Set<string>();
+  return lists.flat().filter((s) => {
+    if (!s.chunkId) return true;
+    if (seenChunks.has(s.chunkId)) return false;
+    seenChunks.add(s.chunkId);
+    return true;
+  });
+}
+
+// Maps each [Source: file, Page n] in the answer to the excerpt it cites.
+// An exact filename wins over a partial one, so "report.pdf" is not
+// resolved to "annual-report.pdf" when both are in the session.
+export function resolveCitations(
+  responseText: string,
+  sources: SourceContext[],
+): SourceContext[] {
+  const citedSources: SourceContext[] = [];
+  const sourceRegex =
+    /\[Source:\s*([^,\]]+),?\s*Page\s*(\d+)(?:,\s*([^\]]+))?\]/gi;
+  let match;
+
+  while ((match = sourceRegex.exec(responseText)) !== null) {
+    const filename = match[1].trim().toLowerCase();
+    const pageNumber = parseInt(match[2], 10);
+    const section = match[3]?.trim();
+
+    const exact = sources.filter((s) => s.filename.toLowerCase() === filename);
+    const sameFile = exact.length
+      ? exact
+      : sources.filter(
+          (s) =>
+            s.filename.toLowerCase().includes(filename) ||
+            filename.includes(s.filename.toLowerCase()),
+        );
+    const samePage = sameFile.filter((s) => s.pageNumber === pageNumber);
+    const matchingSource =
+      (section && samePage.find((s) => s.section === section)) ||
+      samePage[0] ||
+      sameFile[0];
+
+    if (
+      matchingSource &&
+      !citedSources.some(
+        (cs) =>
+          cs.filename === matchingSource.filename &&
+          cs.pageNumber === pageNumber,
+      )
+    ) {
+      citedSources.push({
+        ...matchingSource,
+        pageNumber,
+      });
+    }
+  }
+
+  return citedSources;
+}
+
 export async function generateChatResponse(
   messages: ChatMessage[],
   sources: SourceContext[],
   documentFilenames: string[],
   hasDocuments: boolean,
+  tools: ChatTool[] = [],
+  onToken?: (text: string) => void,
 ): Promise<ChatResponse> {
-  const model = getChatModel();
-
   const lastMessage = messages[messages.length - 1]?.content || "";
 
   const cacheKey = createHash(
@@ -196,7 +456,9 @@ export async function generateChatResponse(
   const cachedResponse = await getCachedResponse(cacheKey);
 
   if (cachedResponse && !hasDocuments) {
-    return JSON.parse(cachedResponse);
+    const cached: ChatResponse = JSON.parse(cachedResponse);
+    onToken?.(cached.response);
+    return cached;
   }
 
   const relevantKnowledge = getRelevantKnowledge(lastMessage);
@@ -216,7 +478,7 @@ ${sources
   .slice(0, 15)
   .map(
     (s) => `
-### [${s.filename}, Page ${s.pageNumber}] (${(s.relevanceScore * 100).toFixed(0)}% relevant)
+### [${s.filename}, Page ${s.pageNumber}${s.section ? `, ${s.section}` : ""}] (${(s.relevanceScore * 100).toFixed(0)}% relevant)
 ${s.excerpt}
 `,
   )
@@ -244,76 +506,21 @@ ${messages.map((m) => `**${m.role === "user" ? "User" : "Arthyx"}:** ${m.content
 Provide a comprehensive, well-formatted response with visual analysis when appropriate.`;
 
   try {
-    const result = await model.generateContent(fullPrompt);
-    const responseText = result.response.text();
+    const loop = await runToolLoop(fullPrompt, tools, onToken);
+    const responseText = loop.responseText;
+    const allSources = mergeSources(sources, loop.sources);
 
-    let chartConfig = undefined;
-    const chartMatch = responseText.match(/```chart\n?([\s\S]*?)```/);
-    if (chartMatch) {
-      try {
-        chartConfig = JSON.parse(chartMatch[1].trim());
-      } catch {
-        // Silent failure
-      }
-    }
+    const {
+      blocks: { chartConfig, riskAnalysis, metrics },
+      validationErrors,
+    } = await resolveStructuredBlocks(responseText);
 
-    let riskAnalysis = undefined;
-    const riskMatch = responseText.match(/```risk\n?([\s\S]*?)```/);
-    if (riskMatch) {
-      try {
-        riskAnalysis = JSON.parse(riskMatch[1].trim());
-      } catch {
-        // Silent failure
-      }
-    }
+    const cleanedResponse = stripStructuredBlocks(responseText);
 
-    let metrics = undefined;
-    const metricsMatch = responseText.match(/```metrics\n?([\s\S]*?)```/);
-    if (metricsMatch) {
-      try {
-        metrics = JSON.parse(metricsMatch[1].trim());
-      } catch {
-        // Silent failure
-      }
-    }
-
-    const cleanedResponse = responseText
-      .replace(/```chart\n?[\s\S]*?```/g, "")
-      .replace(/```risk\n?[\s\S]*?```/g, "")
-      .replace(/```metrics\n?[\s\S]*?```/g, "")
-      .trim();
-
-    const citedSources: SourceContext[] = [];
-    const sourceRegex = /\[Source:\s*([^,\]]+),?\s*Page\s*(\d+)\]/gi;
-    let match;
-
-    while ((match = sourceRegex.exec(responseText)) !== null) {
-      const filename = match[1].trim();
-      const pageNumber = parseInt(match[2], 10);
-
-      const matchingSource = sources.find(
-        (s) =>
-          s.filename.toLowerCase().includes(filename.toLowerCase()) ||
-          filename.toLowerCase().includes(s.filename.toLowerCase()),
-      );
-
-      if (
-        matchingSource &&
-        !citedSources.some(
-          (cs) =>
-            cs.filename === matchingSource.filename &&
-            cs.pageNumber === pageNumber,
-        )
-      ) {
-        citedSources.push({
-          ...matchingSource,
-          pageNumber,
-        });
-      }
-    }
+    const citedSources = resolveCitations(responseText, allSources);
 
-    if (citedSources.length === 0 && sources.length > 0) {
-      citedSources.push(...sources.slice(0, 3));
+    if (citedSources.length === 0 && allSources.length > 0) {
+      citedSources.push(...allSources.slice(0, 3));
     }
 
     const entities: Array<{ name: string; type: string }> = [];
@@ -337,13 +544,16 @@ Provide a comprehensive, well-formatted response with visual analysis when appro
       response: cleanedResponse,
       citedSources,
       chartConfig,
-      riskAnalysis,
-      metrics,
+      riskAnalysis: loop.riskAnalysis || riskAnalysis,
+      metrics: loop.metrics.length > 0 ? loop.metrics : metrics,
       entities: entities.slice(0, 10),
-      hasDocumentContext: sources.length > 0,
+      contagion: loop.contagion,
+      toolCalls: loop.toolCalls,
+      validationErrors,
+      hasDocumentContext: allSources.length > 0,
     };
 
-    if (!hasDocuments) {
+    if (!hasDocuments && loop.toolCalls.length === 0) {
       await setCachedResponse(cacheKey, JSON.stringify(response));
     }
 
@@ -355,6 +565,8 @@ Provide a comprehensive, well-formatted response with visual analysis when appro
 
 export async function generateWithoutDocuments(
   messages: ChatMessage[],
+  tools: ChatTool[] = [],
+  onToken?: (text: string) => void,
 ): Promise<ChatResponse> {
-  return generateChatResponse(messages, [], [], false);
+  return generateChatResponse(messages, [], [], false, tools, onToken);
 }
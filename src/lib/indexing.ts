@@ -0,0 +1,251 @@
+import type { VectorRecord } from "./vector-store";
+import { defaultBackend, RetrievalBackend } from "./retrieval";
+
+export interface IndexableChunk {
+  id: string;
+  content: string;
+  pageNumber: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface IndexingProgress {
+  chunksTotal: number;
+  chunksIndexed: number;
+  chunksSkipped: number;
+  indexedPages: Set<number>;
+  errors: string[];
+  // Delay between embedding batches; grows on rate limits and decays on
+  // success so one throttled batch slows the rest of the document down.
+  throttleMs: number;
+}
+
+export interface IndexingReport {
+  pagesTotal: number;
+  pagesIndexed: number;
+  pagesSkipped: number[];
+  chunksTotal: number;
+  chunksIndexed: number;
+  chunksSkipped: number;
+  errors: string[];
+}
+
+export interface IndexingOptions {
+  sessionId: string;
+  filename: string;
+  onProgress?: (progress: IndexingProgress) => void | Promise<void>;
+  backend?: RetrievalBackend;
+}
+
+const EMBED_BATCH_SIZE = 8;
+const UPSERT_BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_REPORTED_ERRORS = 10;
+
+const log = (step: string, data?: object) => {
+  console.log(`[INDEXING] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isRateLimit(error: unknown): boolean {
+  return /429|resource.exhausted|quota|rate.limit/i.test(String(error));
+}
+
+export function recordError(progress: IndexingProgress, error: unknown) {
+  if (progress.errors.length < MAX_REPORTED_ERRORS) {
+    progress.errors.push(String(error).substring(0, 200));
+  }
+}
+
+export function createIndexingProgress(): IndexingProgress {
+  return {
+    chunksTotal: 0,
+    chunksIndexed: 0,
+    chunksSkipped: 0,
+    indexedPages: new Set(),
+    errors: [],
+    throttleMs: 0,
+  };
+}
+
+async function embedBatch(
+  batch: IndexableChunk[],
+  progress: IndexingProgress,
+  backend: RetrievalBackend,
+): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>();
+  let pending = batch;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS && pending.length; attempt++) {
+    const results = await Promise.allSettled(
+      pending.map((chunk) => backend.embed(chunk.content)),
+    );
+
+    const failed: IndexableChunk[] = [];
+    let rateLimited = false;
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        embeddings.set(pending[i].id, result.value);
+      } else {
+        failed.push(pending[i]);
+        rateLimited ||= isRateLimit(result.reason);
+        if (attempt === MAX_ATTEMPTS) recordError(progress, result.reason);
+      }
+    });
+
+    if (rateLimited) {
+      progress.throttleMs = Math.min(
+        MAX_BACKOFF_MS,
+        Math.max(progress.throttleMs * 2, BASE_BACKOFF_MS),
+      );
+    } else {
+      progress.throttleMs = Math.floor(progress.throttleMs / 2);
+    }
+
+    pending = failed;
+    if (pending.length && attempt < MAX_ATTEMPTS) {
+      const backoff = rateLimited
+        ? progress.throttleMs
+        : BASE_BACKOFF_MS * attempt;
+      log("Embedding retry", { failed: pending.length, attempt, backoff });
+      await sleep(backoff);
+    }
+  }
+
+  return embeddings;
+}
+
+async function upsertWithRetry(
+  vectors: VectorRecord[],
+  backend: RetrievalBackend,
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await backend.upsertVectors(vectors);
+      return;
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      await sleep(
+        isRateLimit(error)
+          ? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+          : BASE_BACKOFF_MS * attempt,
+      );
+    }
+  }
+}
+
+export async function indexChunks(
+  chunks: IndexableChunk[],
+  options: IndexingOptions,
+  progress: IndexingProgress = createIndexingProgress(),
+): Promise<IndexingProgress> {
+  const { sessionId, filename, onProgress, backend = defaultBackend } = options;
+  progress.chunksTotal += chunks.length;
+  let buffered: Array<{ chunk: IndexableChunk; vector: VectorRecord }> = [];
+
+  const flush = async () => {
+    if (buffered.length === 0) return;
+    const batch = buffered;
+    buffered = [];
+    try {
+      await upsertWithRetry(
+        batch.map((b) => b.vector),
+        backend,
+      );
+      progress.chunksIndexed += batch.length;
+      batch.forEach((b) => progress.indexedPages.add(b.chunk.pageNumber));
+    } catch (error) {
+      progress.chunksSkipped += batch.length;
+      recordError(progress, error);
+      return;
+    }
+
+    // The lexical index only lists chunks that made it into the vector
+    // store, so both retrievers resolve to the same ids.
+    try {
+      await backend.appendLexicalEntries(
+        sessionId,
+        batch.map(({ chunk }) => ({
+          id: chunk.id,
+          filename,
+          pageNumber: chunk.pageNumber,
+          content: chunk.content.substring(0, 4000),
+          ...(chunk.metadata?.chunkType
+            ? { chunkType: String(chunk.metadata.chunkType) }
+            : {}),
+          ...(chunk.metadata?.section
+            ? { section: String(chunk.metadata.section) }
+            : {}),
+          ...(chunk.metadata?.boundingBox
+            ? { boundingBox: String(chunk.metadata.boundingBox) }
+            : {}),
+        })),
+      );
+    } catch (error) {
+      recordError(progress, error);
+    }
+  };
+
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+    if (progress.throttleMs > 0) await sleep(progress.throttleMs);
+
+    const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await embedBatch(batch, progress, backend);
+
+    for (const chunk of batch) {
+      const values = embeddings.get(chunk.id);
+      if (!values) {
+        progress.chunksSkipped++;
+        continue;
+      }
+      buffered.push({
+        chunk,
+        vector: {
+          id: chunk.id,
+          values,
+          metadata: {
+            ...chunk.metadata,
+            content: chunk.content.substring(0, 8000),
+            filename,
+            pageNumber: chunk.pageNumber,
+            sessionId,
+          },
+        },
+      });
+    }
+
+    if (buffered.length >= UPSERT_BATCH_SIZE) await flush();
+    await onProgress?.(progress);
+  }
+  await flush();
+
+  log("Chunks indexed", {
+    filename,
+    indexed: progress.chunksIndexed,
+    skipped: progress.chunksSkipped,
+  });
+  return progress;
+}
+
+export function toIndexingReport(
+  progress: IndexingProgress,
+  pagesTotal: number,
+): IndexingReport {
+  const total = Math.max(pagesTotal, ...progress.indexedPages);
+  const pagesSkipped: number[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (!progress.indexedPages.has(page)) pagesSkipped.push(page);
+  }
+
+  return {
+    pagesTotal: total,
+    pagesIndexed: total - pagesSkipped.length,
+    pagesSkipped,
+    chunksTotal: progress.chunksTotal,
+    chunksIndexed: progress.chunksIndexed,
+    chunksSkipped: progress.chunksSkipped,
+    errors: progress.errors,
+  };
+}
@@ -82,7 +82,7 @@ export const QUANT_KNOWLEDGE = `
 ### Indian Market Specifics
 - **Nifty 50**: Top 50 NSE stocks by market cap
 - **Bank Nifty**: Banking sector index (12 stocks)
-- **F&O Lot Sizes**: Vary by stock; Nifty lot = 50
+- **F&O Lot Sizes**: Vary by stock; Nifty 75, Bank Nifty 30, Fin Nifty 65, Midcap Nifty 120
 - **Circuit Breakers**: 10%, 15%, 20% for indices
 - **FII/FPI Limits**: Sectoral caps apply
 
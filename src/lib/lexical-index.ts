@@ -0,0 +1,105 @@
+import { getLexicalEntries, LexicalEntry } from "./redis";
+
+export interface LexicalMatch {
+  entry: LexicalEntry;
+  score: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has",
+  "in", "is", "it", "of", "on", "or", "that", "the", "to", "was", "were",
+  "what", "when", "which", "who", "will", "with", "does", "do", "how",
+  "this", "these", "those", "there", "any", "under", "per",
+]);
+
+const log = (step: string, data?: object) => {
+  console.log(`[LEXICAL] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+// Identifiers such as "64VB", "IRDAI/HLT/2023-24" or "POL-2023-118" are kept
+// whole as well as split, so exact lookups score on the full identifier.
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.split(/[^\p{L}\p{N}]+/u)) {
+    if (word && !STOPWORDS.has(word)) tokens.push(word);
+  }
+  for (const identifier of lower.match(/[\p{L}\p{N}]+(?:[/\-.][\p{L}\p{N}]+)+/gu) || []) {
+    if (/\d/.test(identifier)) tokens.push(identifier);
+  }
+
+  return tokens;
+}
+
+// Term statistics for one session's entries, built once per request so
+// every sub-query of a fan-out ranks against the same tokenized corpus.
+export interface LexicalIndex {
+  docs: Array<{ entry: LexicalEntry; tf: Map<string, number>; length: number }>;
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+export function buildLexicalIndex(entries: LexicalEntry[]): LexicalIndex {
+  const docFreq = new Map<string, number>();
+  const docs = entries.map((entry) => {
+    const tf = new Map<string, number>();
+    const tokens = tokenize(entry.content);
+    for (const token of tokens) tf.set(token, (tf.get(token) || 0) + 1);
+    for (const term of tf.keys()) docFreq.set(term, (docFreq.get(term) || 0) + 1);
+    return { entry, tf, length: tokens.length };
+  });
+
+  const avgLength =
+    docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  return { docs, docFreq, avgLength };
+}
+
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  topK: number,
+): LexicalMatch[] {
+  const { docs, docFreq, avgLength } = index;
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || docs.length === 0) return [];
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docFreq.get(term) || 0;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+
+  return docs
+    .map(({ entry, tf, length }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const freq = tf.get(term);
+        if (!freq) continue;
+        score +=
+          (idf.get(term)! * freq * (K1 + 1)) /
+          (freq + K1 * (1 - B + (B * length) / avgLength));
+      }
+      return { entry, score };
+    })
+    .filter((m) => m.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+export function rankBM25(
+  query: string,
+  entries: LexicalEntry[],
+  topK: number,
+): LexicalMatch[] {
+  return searchLexicalIndex(buildLexicalIndex(entries), query, topK);
+}
+
+export async function loadLexicalIndex(sessionId: string): Promise<LexicalIndex> {
+  const entries = await getLexicalEntries(sessionId);
+  log("Lexical index loaded", { sessionId, entries: entries.length });
+  return buildLexicalIndex(entries);
+}
@@ -0,0 +1,505 @@
+import {
+  GoogleGenerativeAI,
+  FunctionDeclaration,
+  Schema,
+  SchemaType,
+} from "@google/generative-ai";
+import { tokenize } from "./lexical-index";
+
+// Contents and schemas keep Gemini's shapes, which the prompts, tools and
+// structured-output schemas were written against; other providers translate.
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: LLMFunctionCall }
+  | { functionResponse: { name: string; response: object } };
+
+export interface LLMFunctionCall {
+  name: string;
+  args: object;
+}
+
+export interface LLMContent {
+  role: "user" | "model" | "function";
+  parts: LLMPart[];
+}
+
+export interface GenerateOptions {
+  responseSchema?: Schema;
+  tools?: FunctionDeclaration[];
+  onToken?: (text: string) => void;
+}
+
+export interface GenerateResult {
+  text: string;
+  functionCalls: LLMFunctionCall[];
+}
+
+export type ProviderName = "gemini" | "openai" | "fake";
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  readonly embeddingDimensions: number;
+  // Whether inlineData of this type can be sent to generate(), e.g. a PDF
+  // for vision OCR.
+  readsInput(mimeType: string): boolean;
+  generate(
+    input: string | LLMContent[],
+    options?: GenerateOptions,
+  ): Promise<GenerateResult>;
+  embed(text: string): Promise<number[]>;
+}
+
+export interface ProviderConfig {
+  chatModel?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 768;
+
+const log = (step: string, data?: object) => {
+  console.log(`[LLM] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+function toContents(input: string | LLMContent[]): LLMContent[] {
+  return typeof input === "string"
+    ? [{ role: "user", parts: [{ text: input }] }]
+    : input;
+}
+
+export function createGeminiProvider(config: ProviderConfig = {}): LLMProvider {
+  let client: GoogleGenerativeAI | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new GoogleGenerativeAI(
+        config.apiKey ?? process.env.GOOGLE_API_KEY!,
+      );
+    }
+    return client;
+  };
+
+  const chatModel = config.chatModel || "gemini-2.0-flash";
+  const embeddingModel = config.embeddingModel || "text-embedding-004";
+
+  return {
+    name: "gemini",
+    chatModel,
+    embeddingModel,
+    embeddingDimensions:
+      config.embeddingDimensions || DEFAULT_EMBEDDING_DIMENSIONS,
+    readsInput: () => true,
+
+    async generate(input, options = {}) {
+      const { responseSchema, tools, onToken } = options;
+      const model = getClient().getGenerativeModel({
+        model: chatModel,
+        ...(responseSchema
+          ? {
+              generationConfig: {
+                responseMimeType: "application/json",
+                responseSchema,
+              },
+            }
+          : {}),
+      });
+      const request = {
+        contents: toContents(input),
+        tools: tools?.length ? [{ functionDeclarations: tools }] : undefined,
+      };
+
+      let response;
+      if (onToken) {
+        const result = await model.generateContentStream(request);
+        for await (const chunk of result.stream) {
+          const text = chunk.text();
+          if (text) onToken(text);
+        }
+        response = await result.response;
+      } else {
+        response = (await model.generateContent(request)).response;
+      }
+
+      const calls = response.functionCalls() || [];
+      return {
+        text: calls.length ? "" : response.text(),
+        functionCalls: calls.map((c) => ({ name: c.name, args: c.args })),
+      };
+    },
+
+    async embed(text) {
+      const result = await getClient()
+        .getGenerativeModel({ model: embeddingModel })
+        .embedContent(text);
+      return result.embedding.values;
+    },
+  };
+}
+
+// Gemini schemas already use JSON Schema type names; only `nullable` has no
+// direct equivalent.
+function toJSONSchema(schema: Schema): Record<string, unknown> {
+  const { nullable, properties, items, type, ...rest } = schema as Schema & {
+    properties?: Record<string, Schema>;
+    items?: Schema;
+  };
+  return {
+    ...rest,
+    type: nullable ? [type, "null"] : type,
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([k, v]) => [k, toJSONSchema(v)]),
+          ),
+        }
+      : {}),
+    ...(items ? { items: toJSONSchema(items) } : {}),
+  };
+}
+
+function toOpenAIMessages(contents: LLMContent[]) {
+  const messages: Array<Record<string, unknown>> = [];
+  // Gemini pairs calls and responses by order, OpenAI by id.
+  const pendingIds: string[] = [];
+  let callCount = 0;
+
+  for (const content of contents) {
+    if (content.role === "model") {
+      const calls = content.parts.flatMap((p) =>
+        "functionCall" in p ? [p.functionCall] : [],
+      );
+      const text = content.parts
+        .map((p) => ("text" in p ? p.text : ""))
+        .join("");
+      messages.push({
+        role: "assistant",
+        content: text || null,
+        ...(calls.length
+          ? {
+              tool_calls: calls.map((call) => {
+                const id = `call_${callCount++}`;
+                pendingIds.push(id);
+                return {
+                  id,
+                  type: "function",
+                  function: {
+                    name: call.name,
+                    arguments: JSON.stringify(call.args),
+                  },
+                };
+              }),
+            }
+          : {}),
+      });
+    } else if (content.role === "function") {
+      for (const part of content.parts) {
+        if (!("functionResponse" in part)) continue;
+        messages.push({
+          role: "tool",
+          tool_call_id: pendingIds.shift() ?? `call_${callCount++}`,
+          content: JSON.stringify(part.functionResponse.response),
+        });
+      }
+    } else if (content.parts.every((p) => "text" in p)) {
+      messages.push({
+        role: "user",
+        content: content.parts.map((p) => ("text" in p ? p.text : "")).join("\n"),
+      });
+    } else {
+      messages.push({
+        role: "user",
+        content: content.parts.map((part) => {
+          if ("text" in part) return { type: "text", text: part.text };
+          if ("inlineData" in part) {
+            const { mimeType, data } = part.inlineData;
+            if (!mimeType.startsWith("image/")) {
+              throw new Error(
+                `OpenAI-compatible provider cannot read ${mimeType} input`,
+              );
+            }
+            return {
+              type: "image_url",
+              image_url: { url: `data:${mimeType};base64,${data}` },
+            };
+          }
+          throw new Error("Unexpected function part in a user message");
+        }),
+      });
+    }
+  }
+
+  return messages;
+}
+
+// A tool call as it arrives in a chat completion: whole in a message, or in
+// streamed deltas whose name and arguments are concatenated by index.
+interface OpenAIToolCall {
+  index?: number;
+  function?: { name?: string; arguments?: string };
+}
+
+// Any server speaking the OpenAI chat/embeddings API: Ollama, llama.cpp
+// server, vLLM, LM Studio or OpenAI itself.
+export function createOpenAICompatibleProvider(
+  config: ProviderConfig = {},
+): LLMProvider {
+  const baseUrl = (config.baseUrl || "http://localhost:11434/v1").replace(
+    /\/$/,
+    "",
+  );
+  const chatModel = config.chatModel || "llama3.1";
+  const embeddingModel = config.embeddingModel || "nomic-embed-text";
+
+  const request = async (path: string, body: Record<string, unknown>) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(
+        `LLM request failed (${res.status}): ${text || res.statusText}`,
+      );
+    }
+    return res;
+  };
+
+  return {
+    name: "openai",
+    chatModel,
+    embeddingModel,
+    embeddingDimensions:
+      config.embeddingDimensions || DEFAULT_EMBEDDING_DIMENSIONS,
+    // Chat completions take images inline, but not PDFs or other files.
+    readsInput: (mimeType) => mimeType.startsWith("image/"),
+
+    async generate(input, options = {}) {
+      const { responseSchema, tools, onToken } = options;
+      const res = await request("/chat/completions", {
+        model: chatModel,
+        messages: toOpenAIMessages(toContents(input)),
+        stream: !!onToken,
+        ...(tools?.length
+          ? {
+              tools: tools.map((t) => ({
+                type: "function",
+                function: {
+                  name: t.name,
+                  description: t.description,
+                  parameters: t.parameters
+                    ? toJSONSchema(t.parameters as Schema)
+                    : { type: "object", properties: {} },
+                },
+              })),
+            }
+          : {}),
+        ...(responseSchema
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: {
+                  name: "response",
+                  schema: toJSONSchema(responseSchema),
+                },
+              },
+            }
+          : {}),
+      });
+
+      const calls = new Map<number, { name: string; arguments: string }>();
+      let text = "";
+
+      const collectCalls = (toolCalls: OpenAIToolCall[] | undefined) => {
+        for (const [i, call] of (toolCalls || []).entries()) {
+          const index = call.index ?? i;
+          const existing = calls.get(index) || { name: "", arguments: "" };
+          existing.name += call.function?.name || "";
+          existing.arguments += call.function?.arguments || "";
+          calls.set(index, existing);
+        }
+      };
+
+      if (onToken && res.body) {
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() || "";
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, "").trim();
+            if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+            const delta = JSON.parse(data).choices?.[0]?.delta || {};
+            if (delta.content) {
+              text += delta.content;
+              onToken(delta.content);
+            }
+            collectCalls(delta.tool_calls);
+          }
+        }
+      } else {
+        const message = (await res.json()).choices?.[0]?.message || {};
+        text = message.content || "";
+        collectCalls(message.tool_calls);
+      }
+
+      return {
+        text,
+        functionCalls: [...calls.values()].map((call) => ({
+          name: call.name,
+          args: call.arguments ? JSON.parse(call.arguments) : {},
+        })),
+      };
+    },
+
+    async embed(text) {
+      const res = await request("/embeddings", {
+        model: embeddingModel,
+        input: text,
+      });
+      const data = await res.json();
+      return data.data[0].embedding as number[];
+    },
+  };
+}
+
+function hashToken(token: string, dimensions: number): number {
+  let hash = 2166136261;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) % dimensions;
+}
+
+function emptyValue(schema: Schema): unknown {
+  const { type, properties } = schema as Schema & {
+    properties?: Record<string, Schema>;
+  };
+  switch (type) {
+    case SchemaType.OBJECT:
+      return Object.fromEntries(
+        Object.entries(properties || {}).map(([k, v]) => [k, emptyValue(v)]),
+      );
+    case SchemaType.ARRAY:
+      return [];
+    case SchemaType.NUMBER:
+    case SchemaType.INTEGER:
+      return 0;
+    case SchemaType.BOOLEAN:
+      return false;
+    default:
+      return "";
+  }
+}
+
+// Deterministic and offline. Embeddings are hashed bags of words, so texts
+// sharing terms still land close together; JSON requests get the empty
+// value of their schema, which every caller treats as "no opinion".
+export function createFakeProvider(
+  config: ProviderConfig & { respond?: (prompt: string) => string } = {},
+): LLMProvider {
+  const dimensions = config.embeddingDimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+
+  return {
+    name: "fake",
+    chatModel: config.chatModel || "fake-chat",
+    embeddingModel: config.embeddingModel || "fake-embedding",
+    embeddingDimensions: dimensions,
+    readsInput: () => true,
+
+    async generate(input, options = {}) {
+      const prompt = toContents(input)
+        .flatMap((c) => c.parts)
+        .map((p) => ("text" in p ? p.text : ""))
+        .join("\n");
+      const text = options.responseSchema
+        ? JSON.stringify(emptyValue(options.responseSchema))
+        : config.respond?.(prompt) ??
+          "This answer comes from the offline fake provider; no model was called.";
+      options.onToken?.(text);
+      return { text, functionCalls: [] };
+    },
+
+    async embed(text) {
+      const values = new Array(dimensions).fill(0);
+      for (const token of tokenize(text)) {
+        values[hashToken(token, dimensions)] += 1;
+      }
+      const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return values.map((v) => v / norm);
+    },
+  };
+}
+
+function createProvider(name: string | undefined): LLMProvider {
+  const config: ProviderConfig = {
+    chatModel: process.env.LLM_CHAT_MODEL,
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+    embeddingDimensions: Number(process.env.LLM_EMBEDDING_DIMENSIONS) || undefined,
+  };
+
+  switch ((name || "gemini").toLowerCase()) {
+    case "gemini":
+      return createGeminiProvider(config);
+    case "openai":
+      return createOpenAICompatibleProvider({
+        ...config,
+        baseUrl: process.env.LLM_BASE_URL,
+        apiKey: process.env.LLM_API_KEY,
+      });
+    case "fake":
+      return createFakeProvider(config);
+    default:
+      throw new Error(
+        `Unknown LLM provider "${name}" (expected gemini, openai or fake)`,
+      );
+  }
+}
+
+let llmProvider: LLMProvider | null = null;
+let embeddingProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!llmProvider) {
+    llmProvider = createProvider(process.env.LLM_PROVIDER);
+    log("Provider selected", {
+      provider: llmProvider.name,
+      model: llmProvider.chatModel,
+    });
+  }
+  return llmProvider;
+}
+
+// Separate so chat can stay on a hosted model while embeddings run locally
+// (or the reverse); defaults to the chat provider.
+export function getEmbeddingProvider(): LLMProvider {
+  if (!embeddingProvider) {
+    const name = process.env.EMBEDDING_PROVIDER || process.env.LLM_PROVIDER;
+    embeddingProvider =
+      name === process.env.LLM_PROVIDER && llmProvider
+        ? llmProvider
+        : createProvider(name);
+  }
+  return embeddingProvider;
+}
+
+// For scripts and tests that run the pipeline against a fake.
+export function setProviders(providers: {
+  llm?: LLMProvider;
+  embedding?: LLMProvider;
+}) {
+  if (providers.llm) llmProvider = providers.llm;
+  if (providers.embedding) embeddingProvider = providers.embedding;
+}
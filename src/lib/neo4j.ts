@@ -1,4 +1,5 @@
 import type { Driver, Session } from "neo4j-driver";
+import { parseIndianAmount } from "./utils";
 
 type Neo4jModule = typeof import("neo4j-driver");
 
@@ -181,6 +182,7 @@ export interface Relationship {
 export async function extractEntitiesFromText(
   text: string,
   sessionId: string,
+  filename?: string,
 ): Promise<{ entities: Entity[]; relationships: Relationship[] }> {
   const entities: Entity[] = [];
   const relationships: Relationship[] = [];
@@ -257,7 +259,12 @@ export async function extractEntitiesFromText(
 
   for (const pattern of amountPatterns) {
     for (const match of text.matchAll(pattern)) {
-      addEntity("Amount", match[0], { rawValue: match[0] });
+      const value = parseIndianAmount(match[0]);
+      addEntity(
+        "Amount",
+        match[0],
+        value !== null ? { rawValue: match[0], value } : { rawValue: match[0] },
+      );
     }
   }
 
@@ -266,6 +273,8 @@ export async function extractEntitiesFromText(
   const clauses = entities.filter((e) => e.type === "Clause");
   const policies = entities.filter((e) => e.type === "Policy");
 
+  relationships.push(...extractExposureRelationships(text, companies));
+
   for (const company of companies) {
     for (const regulation of regulations) {
       relationships.push({
@@ -303,15 +312,101 @@ export async function extractEntitiesFromText(
     sessionId,
     entities.slice(0, 100),
     relationships.slice(0, 50),
+    filename,
   );
 
   return { entities, relationships };
 }
 
+const EXPOSURE_KEYWORDS = {
+  guarantee: /\bguarant(?:ee|eed|ees|or)\b/i,
+  ownership: /\b(?:stake|holding|owns|owned|subsidiary|shareholding|promoter)\b/i,
+  lending:
+    /\b(?:lent|lends|lending|loans?|advances?|credit facilit(?:y|ies)|exposure|invested|bonds?|debentures?|owes|owed|borrow(?:ed|s|ing)?)\b/i,
+};
+
+// Phrases where the first-mentioned company is the borrower/subsidiary rather
+// than the lender/parent, so the edge has to be reversed.
+const REVERSED_EXPOSURE = /\b(?:borrow(?:ed|s|ing)?\s+from|owes?|owed\s+to|subsidiary\s+of|owned\s+by|guaranteed\s+by)\b/i;
+
+function extractExposureRelationships(
+  text: string,
+  companies: Entity[],
+): Relationship[] {
+  const relationships: Relationship[] = [];
+  const sentences = text.split(/(?<=[.;])\s+|\n+/);
+
+  for (const sentence of sentences) {
+    const mentioned = companies
+      .map((c) => ({ name: c.name, index: sentence.indexOf(c.name) }))
+      .filter((c) => c.index >= 0)
+      .sort((a, b) => a.index - b.index);
+    if (mentioned.length < 2) continue;
+
+    const relationType = EXPOSURE_KEYWORDS.guarantee.test(sentence)
+      ? "GUARANTEES"
+      : EXPOSURE_KEYWORDS.ownership.test(sentence)
+        ? "OWNS"
+        : EXPOSURE_KEYWORDS.lending.test(sentence)
+          ? "LENDS_TO"
+          : null;
+    if (!relationType) continue;
+
+    let [from, to] = [mentioned[0].name, mentioned[1].name];
+    if (from === to) continue;
+    if (REVERSED_EXPOSURE.test(sentence)) [from, to] = [to, from];
+
+    const properties: Record<string, string | number> = {};
+    const amountMatch = sentence.match(
+      /(?:₹|INR|Rs\.?)\s*[\d,]+(?:\.\d+)?(?:\s*(?:crore|lakh|million|billion|lac|cr)s?)?|\b\d+(?:,\d+)*(?:\.\d+)?\s*(?:crore|lakh|million|billion|lac)s?\b/i,
+    );
+    const amount = amountMatch ? parseIndianAmount(amountMatch[0]) : null;
+    if (amountMatch && amount !== null) {
+      properties.amount = amount;
+      properties.rawAmount = amountMatch[0];
+    }
+    if (relationType === "OWNS") {
+      const stakeMatch = sentence.match(/(\d+(?:\.\d+)?)\s*%/);
+      if (stakeMatch) properties.stake = parseFloat(stakeMatch[1]) / 100;
+    }
+
+    relationships.push({
+      fromName: from,
+      fromType: "Company",
+      toName: to,
+      toType: "Company",
+      relationType,
+      properties,
+    });
+
+    if (amountMatch && amount !== null) {
+      relationships.push({
+        fromName: from,
+        fromType: "Company",
+        toName: amountMatch[0].trim().replace(/\s+/g, " "),
+        toType: "Amount",
+        relationType: "EXPOSURE_AMOUNT",
+        properties: { counterparty: to, value: amount },
+      });
+    }
+  }
+
+  return relationships;
+}
+
+// Nodes and edges record the filenames that produced them in `sources`, so a
+// single document can be removed without dropping entities shared with others.
+const ADD_SOURCE = (variable: string) =>
+  `${variable}.sources = CASE
+    WHEN $filename IS NULL OR $filename IN coalesce(${variable}.sources, []) THEN ${variable}.sources
+    ELSE coalesce(${variable}.sources, []) + $filename
+  END`;
+
 async function saveToNeo4j(
   sessionId: string,
   entities: Entity[],
   relationships: Relationship[],
+  filename?: string,
 ): Promise<void> {
   const session = await getSession();
   if (!session) {
@@ -330,13 +425,16 @@ async function saveToNeo4j(
         await session.run(
           `
           MERGE (n:Entity {name: $name, sessionId: $sessionId})
-          SET n.type = $type, n.createdAt = $timestamp
+          SET n += $properties, n.type = $type, n.createdAt = $timestamp,
+            ${ADD_SOURCE("n")}
         `,
           {
             name: entity.name,
             sessionId,
             type: entity.type,
+            properties: entity.properties || {},
             timestamp: Date.now(),
+            filename: filename ?? null,
           },
         );
       } catch (entityError) {
@@ -356,14 +454,17 @@ async function saveToNeo4j(
           MATCH (a:Entity {name: $fromName, sessionId: $sessionId})
           MATCH (b:Entity {name: $toName, sessionId: $sessionId})
           MERGE (a)-[r:RELATES_TO {type: $relationType}]->(b)
-          SET r.createdAt = $timestamp
+          SET r += $properties, r.createdAt = $timestamp,
+            ${ADD_SOURCE("r")}
         `,
           {
             fromName: rel.fromName,
             toName: rel.toName,
             relationType: rel.relationType,
+            properties: rel.properties || {},
             sessionId,
             timestamp: Date.now(),
+            filename: filename ?? null,
           },
         );
       } catch (relError) {
@@ -458,6 +559,98 @@ export async function clearSessionGraph(sessionId: string): Promise<void> {
   }
 }
 
+export interface GraphRemoval {
+  nodesDeleted: number;
+  relationshipsDeleted: number;
+  // Entities extracted before per-document sources were recorded; they
+  // cannot be attributed to a file and stay until the session is purged.
+  untaggedRemaining: number;
+}
+
+// Prunes the document from every node and relationship it contributed to.
+// When it is the session's last document, every entity in the session goes,
+// untagged ones included, since nothing else can still reference them.
+export async function removeDocumentFromGraph(
+  sessionId: string,
+  filename: string,
+  options: { lastDocument?: boolean } = {},
+): Promise<GraphRemoval> {
+  const session = await getSession();
+  if (!session) {
+    return { nodesDeleted: 0, relationshipsDeleted: 0, untaggedRemaining: 0 };
+  }
+
+  const neo4j = await getNeo4j();
+  const toNumber = (value: unknown): number =>
+    neo4j.isInt(value) ? value.toNumber() : Number(value) || 0;
+
+  try {
+    if (options.lastDocument) {
+      const purged = await session.run(
+        `
+        MATCH (n:Entity {sessionId: $sessionId})
+        OPTIONAL MATCH (n)-[r]-()
+        WITH collect(DISTINCT n) as nodes, count(DISTINCT r) as rels
+        FOREACH (n IN nodes | DETACH DELETE n)
+        RETURN size(nodes) as nodes, rels
+      `,
+        { sessionId },
+      );
+      const record = purged.records[0];
+      const result = {
+        nodesDeleted: toNumber(record?.get("nodes")),
+        relationshipsDeleted: toNumber(record?.get("rels")),
+        untaggedRemaining: 0,
+      };
+      log("Session graph removed with last document", { sessionId, filename, ...result });
+      return result;
+    }
+
+    const rels = await session.run(
+      `
+      MATCH (:Entity {sessionId: $sessionId})-[r:RELATES_TO]->(:Entity {sessionId: $sessionId})
+      WHERE $filename IN coalesce(r.sources, [])
+      SET r.sources = [s IN r.sources WHERE s <> $filename]
+      WITH r WHERE size(r.sources) = 0
+      DELETE r
+      RETURN count(r) as deleted
+    `,
+      { sessionId, filename },
+    );
+
+    const nodes = await session.run(
+      `
+      MATCH (n:Entity {sessionId: $sessionId})
+      WHERE $filename IN coalesce(n.sources, [])
+      SET n.sources = [s IN n.sources WHERE s <> $filename]
+      WITH n WHERE size(n.sources) = 0
+      DETACH DELETE n
+      RETURN count(n) as deleted
+    `,
+      { sessionId, filename },
+    );
+
+    const untagged = await session.run(
+      `
+      MATCH (n:Entity {sessionId: $sessionId})
+      WHERE n.sources IS NULL
+      RETURN count(n) as remaining
+    `,
+      { sessionId },
+    );
+
+    const result = {
+      nodesDeleted: toNumber(nodes.records[0]?.get("deleted")),
+      relationshipsDeleted: toNumber(rels.records[0]?.get("deleted")),
+      untaggedRemaining: toNumber(untagged.records[0]?.get("remaining")),
+    };
+    log("Document removed from graph", { sessionId, filename, ...result });
+    return result;
+  } finally {
+    await session.close();
+  }
+}
+
 export async function getGraphStats(sessionId: string): Promise<{
   nodeCount: number;
   relationshipCount: number;
@@ -499,29 +692,60 @@ export async function getGraphStats(sessionId: string): Promise<{
   }
 }
 
-export async function queryRiskContagion(
+export interface ContagionNetworkEdge {
+  from: string;
+  fromType: string;
+  to: string;
+  toType: string;
+  type: string;
+  properties: Record<string, unknown>;
+}
+
+export async function queryContagionNetwork(
   sessionId: string,
   startEntity: string,
-  depth: number = 2,
-): Promise<{ path: string[]; relationships: string[] }[]> {
+  depth: number = 3,
+): Promise<ContagionNetworkEdge[]> {
   const session = await getSession();
   if (!session) return [];
   try {
+    const neo4j = await getNeo4j();
     const result = await session.run(
       `
       MATCH path = (start {name: $name, sessionId: $sessionId})-[*1..${depth}]-(connected)
-      RETURN [node in nodes(path) | node.name] as path,
-             [rel in relationships(path) | type(rel)] as rels
-      LIMIT 10
+      UNWIND relationships(path) AS rel
+      WITH DISTINCT rel
+      RETURN startNode(rel).name AS from,
+             startNode(rel).type AS fromType,
+             endNode(rel).name AS to,
+             endNode(rel).type AS toType,
+             coalesce(rel.type, type(rel)) AS type,
+             properties(rel) AS properties
+      LIMIT 1000
     `,
       { name: startEntity, sessionId },
     );
 
     return result.records.map((record) => ({
-      path: record.get("path"),
-      relationships: record.get("rels"),
+      from: record.get("from"),
+      fromType: record.get("fromType") || "Entity",
+      to: record.get("to"),
+      toType: record.get("toType") || "Entity",
+      type: record.get("type"),
+      properties: toPlainProperties(neo4j, record.get("properties") || {}),
     }));
   } finally {
     await session.close();
   }
 }
+
+function toPlainProperties(
+  neo4j: Neo4jModule,
+  properties: Record<string, unknown>,
+): Record<string, unknown> {
+  const plain: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    plain[key] = neo4j.isInt(value) ? value.toNumber() : value;
+  }
+  return plain;
+}
@@ -0,0 +1,130 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createFakeProvider,
+  createOpenAICompatibleProvider,
+  setProviders,
+} from "./llm-provider";
+import { selectOcrEngine } from "./ocr";
+
+const visionKey = process.env.GOOGLE_CLOUD_VISION_API_KEY;
+const realFetch = globalThis.fetch;
+
+// Answers Cloud Vision's files:annotate or images:annotate with one page of
+// the given text.
+function stubVision(text: string): string[] {
+  const calls: string[] = [];
+  globalThis.fetch = (async (url: string) => {
+    calls.push(String(url));
+    const page = { fullTextAnnotation: { text }, context: { pageNumber: 1 } };
+    return new Response(
+      JSON.stringify({
+        responses: String(url).includes("files:annotate")
+          ? [{ responses: [page] }]
+          : [page],
+      }),
+    );
+  }) as typeof fetch;
+  return calls;
+}
+
+const scannedPdf = {
+  data: Buffer.from("%PDF-1.7"),
+  mimeType: "application/pdf",
+  pageNumber: 1,
+};
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  if (visionKey === undefined) delete process.env.GOOGLE_CLOUD_VISION_API_KEY;
+  else process.env.GOOGLE_CLOUD_VISION_API_KEY = visionKey;
+  setProviders({ llm: createFakeProvider() });
+});
+
+test("selectOcrEngine: a provider that reads PDFs keeps Gemini", async () => {
+  delete process.env.GOOGLE_CLOUD_VISION_API_KEY;
+  setProviders({ llm: createFakeProvider() });
+
+  assert.equal((await selectOcrEngine("auto", "application/pdf")).engine.name, "gemini");
+});
+
+test("selectOcrEngine: PDFs go to Cloud Vision when the provider cannot read them", async () => {
+  process.env.GOOGLE_CLOUD_VISION_API_KEY = "test-key";
+  setProviders({ llm: createOpenAICompatibleProvider() });
+
+  assert.equal(
+    (await selectOcrEngine("gemini", "application/pdf")).engine.name,
+    "cloud-vision",
+  );
+  assert.equal((await selectOcrEngine("auto", "image/png")).engine.name, "gemini");
+});
+
+test("selectOcrEngine: fails fast when no engine can read the file", async () => {
+  delete process.env.GOOGLE_CLOUD_VISION_API_KEY;
+  setProviders({ llm: createOpenAICompatibleProvider() });
+
+  await assert.rejects(
+    selectOcrEngine("auto", "application/pdf"),
+    /No OCR engine can read application\/pdf.*GOOGLE_CLOUD_VISION_API_KEY/,
+  );
+});
+
+test("selectOcrEngine: a scanned Indic page found by the probe goes to Cloud Vision", async () => {
+  process.env.GOOGLE_CLOUD_VISION_API_KEY = "test-key";
+  const calls = stubVision("भारतीय रिज़र्व बैंक की वार्षिक रिपोर्ट");
+
+  const { engine, scripts } = await selectOcrEngine(
+    "auto",
+    "application/pdf",
+    "",
+    scannedPdf,
+  );
+
+  assert.equal(calls.length, 1);
+  assert.equal(engine.name, "cloud-vision");
+  assert.ok(scripts.includes("devanagari"));
+});
+
+test("selectOcrEngine: an Indic image read by the probe is not read again", async () => {
+  process.env.GOOGLE_CLOUD_VISION_API_KEY = "test-key";
+  const calls = stubVision("தமிழ்நாடு மாநில கூட்டுறவு வங்கி");
+  const image = { data: Buffer.from("png"), mimeType: "image/png", pageNumber: 1 };
+
+  const { engine, result } = await selectOcrEngine("auto", "image/png", "", image);
+
+  assert.equal(calls.length, 1);
+  assert.equal(engine.name, "cloud-vision");
+  assert.equal(result?.pageCount, 1);
+  assert.ok(result?.text.startsWith("=== PAGE 1 ===\nதமிழ்நாடு"));
+});
+
+test("selectOcrEngine: a probe of one PDF page is not reused for the document", async () => {
+  process.env.GOOGLE_CLOUD_VISION_API_KEY = "test-key";
+  stubVision("भारतीय रिज़र्व बैंक की वार्षिक रिपोर्ट");
+
+  const { engine, result } = await selectOcrEngine("auto", "application/pdf", "", scannedPdf);
+  assert.equal(engine.name, "cloud-vision");
+  assert.equal(result, undefined);
+});
+
+test("selectOcrEngine: a Latin probe page stays on Gemini", async () => {
+  process.env.GOOGLE_CLOUD_VISION_API_KEY = "test-key";
+  stubVision("Annual report of the Reserve Bank of India");
+
+  const { engine } = await selectOcrEngine("auto", "application/pdf", "", scannedPdf);
+  assert.equal(engine.name, "gemini");
+});
+
+test("selectOcrEngine: no probe when the text layer already shows an Indic script", async () => {
+  process.env.GOOGLE_CLOUD_VISION_API_KEY = "test-key";
+  const calls = stubVision("");
+
+  const { engine } = await selectOcrEngine(
+    "auto",
+    "application/pdf",
+    "तमिलनाडु राज्य सहकारी बैंक",
+    scannedPdf,
+  );
+  assert.equal(calls.length, 0);
+  assert.equal(engine.name, "cloud-vision");
+});
@@ -0,0 +1,354 @@
+import { getLLMProvider } from "./llm-provider";
+import {
+  extractTextWithVision,
+  isCloudVisionConfigured,
+  VisionExtractionResult,
+} from "./cloud-vision";
+import { splitBatchPages, splitPages, TextChunk } from "./chunking";
+import { detectScripts, isIndic, languageHints, Script } from "./script-detection";
+import type { TextRegion } from "./bounding-box";
+
+// tesseract runs in the browser (tesseract.js), which sends its pages to
+// /api/index; the server-side engines are gemini and cloud-vision.
+export type OcrEngineName = "gemini" | "cloud-vision" | "tesseract";
+export type OcrEngineChoice = OcrEngineName | "auto";
+
+export const OCR_ENGINE_CHOICES: OcrEngineChoice[] = [
+  "auto",
+  "gemini",
+  "cloud-vision",
+  "tesseract",
+];
+
+export interface OcrPage {
+  pageNumber: number;
+  content: string;
+  // 0-1 as reported by the engine; absent when it reports none (Gemini).
+  confidence?: number;
+  // Positioned text blocks, when the engine reports them (Cloud Vision).
+  regions?: TextRegion[];
+}
+
+export interface OcrResult {
+  engine: OcrEngineName;
+  // Page-marked text of the whole run.
+  text: string;
+  pages: OcrPage[];
+  pageCount: number;
+  language?: string;
+}
+
+export interface OcrRequest {
+  mimeType: string;
+  filename: string;
+  // Page range of the input within the original document; the input holds
+  // exactly these pages.
+  firstPage?: number;
+  lastPage?: number;
+  scripts?: Script[];
+  onProgress?: (step: string) => void;
+}
+
+export interface OcrEngine {
+  readonly name: OcrEngineName;
+  supports(mimeType: string): boolean;
+  recognize(data: Buffer, request: OcrRequest): Promise<OcrResult>;
+}
+
+const CLOUD_VISION_MIME_TYPES = [
+  "application/pdf",
+  "image/tiff",
+  "image/gif",
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/bmp",
+];
+
+const log = (step: string, data?: object) => {
+  console.log(`[OCR] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+async function extractWithGeminiVision(
+  buffer: Buffer,
+  mimeType: string,
+  filename: string,
+  onProgress?: (step: string) => void,
+): Promise<{ text: string; pages: number; language: string }> {
+  log("Extracting with Gemini Vision", { filename, bufferSize: buffer.length });
+
+  const base64Data = buffer.toString("base64");
+
+  const prompt = `You are a document OCR and extraction expert. Extract ALL text from this document with COMPLETE ACCURACY.
+
+CRITICAL REQUIREMENTS:
+1. Extract EVERY word, number, and symbol exactly as written
+2. Preserve document structure with clear page markers: === PAGE X ===
+3. For tables, use markdown format with | separators
+4. For financial data: capture exact amounts, percentages, ratios
+5. For Hindi/regional text: use proper Unicode characters
+6. For charts/graphs: describe the data they represent
+
+FINANCIAL DATA TO CAPTURE PRECISELY:
+- All monetary amounts (₹, crores, lakhs, millions)
+- Percentages and ratios (NPA%, CAR%, NIM%, ROA%, ROE%)
+- Company names, dates, regulatory references
+- Table headers and all cell values
+
+Report at end: [TOTAL_PAGES: X] [LANGUAGE: X]
+
+Extract COMPLETE text - do not summarize or skip sections.`;
+
+  const MAX_RETRIES = 5;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      onProgress?.(`Vision extraction attempt ${attempt}/${MAX_RETRIES}...`);
+
+      const { text: response } = await getLLMProvider().generate([
+        {
+          role: "user",
+          parts: [{ text: prompt }, { inlineData: { mimeType, data: base64Data } }],
+        },
+      ]);
+
+      const pagesMatch = response.match(/\[TOTAL_PAGES:\s*(\d+)\]/);
+      const pages = pagesMatch ? parseInt(pagesMatch[1], 10) : 1;
+
+      const languageMatch = response.match(/\[LANGUAGE:\s*([^\]]+)\]/);
+      const language = languageMatch ? languageMatch[1].trim() : "English";
+
+      const text = response
+        .replace(/\[TOTAL_PAGES:\s*\d+\]/g, "")
+        .replace(/\[LANGUAGE:\s*[^\]]+\]/g, "")
+        .trim();
+
+      log("Vision extraction complete", {
+        pages,
+        textLength: text.length,
+        attempt,
+      });
+
+      return { text, pages, language };
+    } catch (error) {
+      lastError = error as Error;
+      const errorStr = String(error);
+      const isRateLimit =
+        errorStr.includes("429") || errorStr.includes("Resource exhausted");
+
+      log("Vision extraction attempt failed", {
+        attempt,
+        isRateLimit,
+        error: errorStr.substring(0, 200),
+      });
+
+      if (attempt < MAX_RETRIES) {
+        const baseDelay = isRateLimit ? 30000 : 5000;
+        const delay = baseDelay * attempt;
+        log("Retrying after delay", { delay, nextAttempt: attempt + 1 });
+        onProgress?.(
+          `Rate limited. Waiting ${delay / 1000}s before retry ${attempt + 1}...`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  log("Vision extraction failed after all retries", {
+    error: String(lastError),
+  });
+  throw lastError || new Error("Vision extraction failed after max retries");
+}
+
+// Runs on the configured LLM provider, so it reads whatever that provider
+// accepts inline: everything with Gemini, only images over the OpenAI API.
+export const geminiOcrEngine: OcrEngine = {
+  name: "gemini",
+  supports: (mimeType) => getLLMProvider().readsInput(mimeType),
+
+  async recognize(data, { mimeType, filename, firstPage = 1, lastPage, onProgress }) {
+    const vision = await extractWithGeminiVision(data, mimeType, filename, onProgress);
+    const pages = lastPage
+      ? splitBatchPages(vision.text, firstPage, lastPage)
+      : splitPages(vision.text, firstPage);
+    return {
+      engine: "gemini",
+      text: vision.text,
+      pages,
+      pageCount: lastPage ? lastPage - firstPage + 1 : vision.pages,
+      language: vision.language,
+    };
+  },
+};
+
+export const cloudVisionOcrEngine: OcrEngine = {
+  name: "cloud-vision",
+  supports: (mimeType) => CLOUD_VISION_MIME_TYPES.includes(mimeType),
+
+  async recognize(data, { mimeType, firstPage = 1, lastPage, scripts, onProgress }) {
+    onProgress?.("Running Cloud Vision OCR...");
+    // The input already holds just the requested pages.
+    const result = await extractTextWithVision(data, {
+      mimeType,
+      startPage: 1,
+      endPage: lastPage ? lastPage - firstPage + 1 : undefined,
+      languageHints: scripts?.length ? languageHints(scripts) : undefined,
+    });
+    return fromVision(result, firstPage, lastPage);
+  },
+};
+
+function fromVision(
+  result: VisionExtractionResult,
+  firstPage: number,
+  lastPage?: number,
+): OcrResult {
+  const pages = result.pages.map((page) => {
+    const pageNumber = page.pageNumber + firstPage - 1;
+    return {
+      pageNumber,
+      content: page.text,
+      confidence: page.confidence,
+      regions: page.blocks.map((block) => ({
+        pageNumber,
+        text: block.text,
+        box: block.boundingBox,
+      })),
+    };
+  });
+  return {
+    engine: "cloud-vision",
+    text: pages.map((p) => `=== PAGE ${p.pageNumber} ===\n${p.content}`).join("\n\n"),
+    pages,
+    pageCount: lastPage ? lastPage - firstPage + 1 : Math.max(1, pages.length),
+    language: result.languages[0],
+  };
+}
+
+export function isOcrEngineChoice(value: unknown): value is OcrEngineChoice {
+  return OCR_ENGINE_CHOICES.includes(value as OcrEngineChoice);
+}
+
+// One page of the document for a first-pass read when its text layer says
+// nothing about the script, e.g. the first page of a fully scanned PDF.
+export interface ScriptProbe {
+  data: Buffer;
+  mimeType: string;
+  pageNumber: number;
+}
+
+// Single-frame images are read whole by the probe, so its result can stand
+// in for the OCR run; TIFF and GIF go through Vision's multi-page file API.
+const readsWholeInput = (probe: ScriptProbe) =>
+  probe.mimeType.startsWith("image/") &&
+  !["image/tiff", "image/gif"].includes(probe.mimeType);
+
+async function probeScripts(
+  probe: ScriptProbe,
+): Promise<{ scripts: Script[]; result?: OcrResult }> {
+  try {
+    const vision = await extractTextWithVision(probe.data, {
+      mimeType: probe.mimeType,
+      startPage: probe.pageNumber,
+      endPage: probe.pageNumber,
+      extractTables: false,
+    });
+    const scripts = detectScripts(vision.fullText.substring(0, 5000));
+    log("Script probe", { page: probe.pageNumber, scripts });
+    return {
+      scripts,
+      result: readsWholeInput(probe) ? fromVision(vision, 1, 1) : undefined,
+    };
+  } catch (error) {
+    log("Script probe failed", { error: String(error).substring(0, 150) });
+    return { scripts: [] };
+  }
+}
+
+// Picks the server-side engine for a document. "auto" (the default, or
+// OCR_ENGINE) sends Indic-script documents to Cloud Vision, whose language
+// hints and confidence scores suit them, when it is configured, and
+// everything else to Gemini. The script comes from whatever text the
+// document already yielded, such as its PDF text layer; when that shows no
+// Indic script and a probe page is given, Cloud Vision reads that page
+// first, so fully scanned Indic documents are recognized too.
+// When the chosen engine cannot read the file (PDFs with an OpenAI-compatible
+// LLM provider) the other one is used if it can, and otherwise this throws,
+// so callers should only select an engine once OCR is actually needed.
+// When the probe already read the whole input (a single image) with the
+// engine that was chosen, its result is returned so callers skip the run.
+export async function selectOcrEngine(
+  requested: OcrEngineChoice | undefined,
+  mimeType: string,
+  sampleText = "",
+  probe?: ScriptProbe,
+): Promise<{ engine: OcrEngine; scripts: Script[]; result?: OcrResult }> {
+  const choice = requested || (process.env.OCR_ENGINE as OcrEngineChoice) || "auto";
+  let scripts = detectScripts(sampleText);
+  let probed: OcrResult | undefined;
+
+  if (
+    choice === "auto" &&
+    probe &&
+    !scripts.some(isIndic) &&
+    isCloudVisionConfigured() &&
+    cloudVisionOcrEngine.supports(probe.mimeType)
+  ) {
+    const read = await probeScripts(probe);
+    scripts = [...new Set([...read.scripts, ...scripts])];
+    probed = read.result;
+  }
+
+  let engine: OcrEngine = geminiOcrEngine;
+  if (choice === "cloud-vision") {
+    engine = cloudVisionOcrEngine;
+  } else if (choice === "auto") {
+    if (scripts.some(isIndic) && isCloudVisionConfigured()) {
+      engine = cloudVisionOcrEngine;
+    }
+  } else if (choice === "tesseract") {
+    log("Tesseract runs in the browser; using Gemini for server-side OCR");
+  }
+
+  if (!engine.supports(mimeType)) {
+    const fallback = [geminiOcrEngine, cloudVisionOcrEngine].find(
+      (e) =>
+        e !== engine &&
+        e.supports(mimeType) &&
+        (e !== cloudVisionOcrEngine || isCloudVisionConfigured()),
+    );
+    if (!fallback) {
+      throw new Error(
+        `No OCR engine can read ${mimeType}: the ${getLLMProvider().name} LLM provider does not accept it and Cloud Vision is not configured. Set GOOGLE_CLOUD_VISION_API_KEY or use LLM_PROVIDER=gemini.`,
+      );
+    }
+    engine = fallback;
+  }
+  const result = engine === cloudVisionOcrEngine ? probed : undefined;
+  log("OCR engine selected", {
+    choice,
+    engine: engine.name,
+    scripts,
+    reusesProbe: Boolean(result),
+  });
+  return { engine, scripts, result };
+}
+
+export function applyPageConfidence(
+  chunks: TextChunk[],
+  pages: Array<{ pageNumber: number; confidence?: number }>,
+): TextChunk[] {
+  const byPage = new Map(
+    pages
+      .filter((p) => typeof p.confidence === "number")
+      .map((p) => [p.pageNumber, p.confidence as number]),
+  );
+  for (const chunk of chunks) {
+    const confidence = byPage.get(chunk.pageNumber);
+    if (confidence !== undefined) {
+      chunk.ocrConfidence = Math.round(confidence * 1000) / 1000;
+    }
+  }
+  return chunks;
+}
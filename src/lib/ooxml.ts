@@ -0,0 +1,155 @@
+import { strFromU8, unzipSync } from "fflate";
+
+// Office Open XML (xlsx, docx) is a zip of XML parts. This is the small
+// subset of XML those parts need: elements, attributes, text and CDATA,
+// with no DTDs or namespaces resolution beyond stripping prefixes.
+export interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: Array<XmlNode | string>;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([^\s>/]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#document", attrs: {}, children: [] };
+  const stack: XmlNode[] = [root];
+
+  for (const match of xml.matchAll(TOKEN)) {
+    const [, cdata, closing, name, rawAttrs, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+    } else if (name && closing) {
+      // Tolerate stray closing tags rather than unwinding past the root.
+      const index = stack.map((n) => n.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else if (name) {
+      const attrs: Record<string, string> = {};
+      for (const [, key, double, single] of rawAttrs.matchAll(ATTRIBUTE)) {
+        attrs[key] = decodeEntities(double ?? single ?? "");
+      }
+      const node: XmlNode = { name, attrs, children: [] };
+      parent.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+export function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+export function elements(node: XmlNode, name?: string): XmlNode[] {
+  return node.children.filter(
+    (c): c is XmlNode =>
+      typeof c !== "string" && (!name || localName(c.name) === name),
+  );
+}
+
+export function child(node: XmlNode, name: string): XmlNode | undefined {
+  return elements(node, name)[0];
+}
+
+// Depth-first search that does not descend into matches.
+export function descendants(node: XmlNode, name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const c of elements(node)) {
+    if (localName(c.name) === name) found.push(c);
+    else found.push(...descendants(c, name));
+  }
+  return found;
+}
+
+export function attr(node: XmlNode | undefined, name: string): string | undefined {
+  if (!node) return undefined;
+  if (name in node.attrs) return node.attrs[name];
+  const key = Object.keys(node.attrs).find((k) => localName(k) === name);
+  return key === undefined ? undefined : node.attrs[key];
+}
+
+// Text directly inside an element, ignoring child elements.
+export function text(node: XmlNode | undefined): string {
+  return node ? node.children.filter((c) => typeof c === "string").join("") : "";
+}
+
+// Concatenated text of every descendant element with the given local name,
+// e.g. all <t> runs of a shared string.
+export function textOf(node: XmlNode, textElement: string): string {
+  return descendants(node, textElement).map(text).join("");
+}
+
+export interface OoxmlPackage {
+  has(path: string): boolean;
+  xml(path: string): XmlNode | null;
+  // Relationship id -> package path for a part, e.g. workbook sheets.
+  relationships(partPath: string): Map<string, string>;
+}
+
+export function openPackage(data: ArrayBuffer | Uint8Array): OoxmlPackage {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data), {
+    filter: (file) => file.name.endsWith(".xml") || file.name.endsWith(".rels"),
+  });
+
+  const xml = (path: string) => {
+    const file = files[path.replace(/^\//, "")];
+    return file ? parseXml(strFromU8(file)) : null;
+  };
+
+  return {
+    has: (path) => path.replace(/^\//, "") in files,
+    xml,
+    relationships(partPath) {
+      const slash = partPath.lastIndexOf("/");
+      const dir = partPath.slice(0, slash + 1);
+      const rels = xml(`${dir}_rels/${partPath.slice(slash + 1)}.rels`);
+      const map = new Map<string, string>();
+      for (const rel of rels ? descendants(rels, "Relationship") : []) {
+        const target = attr(rel, "Target") || "";
+        const resolved = target.startsWith("/")
+          ? target.slice(1)
+          : normalizePath(dir + target);
+        map.set(attr(rel, "Id") || "", resolved);
+      }
+      return map;
+    },
+  };
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
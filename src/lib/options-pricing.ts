@@ -0,0 +1,453 @@
+import { FunctionDeclaration, Schema, SchemaType } from "@google/generative-ai";
+
+export type OptionType = "call" | "put";
+
+export interface OptionParams {
+  spot: number;
+  strike: number;
+  timeToExpiry: number;
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield?: number;
+  optionType: OptionType;
+}
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+export interface OptionPricing {
+  price: number;
+  greeks: OptionGreeks;
+  d1: number;
+  d2: number;
+  intrinsicValue: number;
+  timeValue: number;
+}
+
+// Index derivative lot sizes on NSE (revised November 2024).
+export const NSE_LOT_SIZES: Record<string, number> = {
+  NIFTY: 75,
+  BANKNIFTY: 30,
+  FINNIFTY: 65,
+  MIDCPNIFTY: 120,
+  SENSEX: 20,
+};
+
+export function normalPDF(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// Abramowitz & Stegun 26.2.17, accurate to ~7.5e-8.
+export function normalCDF(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly =
+    t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPDF(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+function validateParams(params: OptionParams): void {
+  const { spot, strike, timeToExpiry, volatility } = params;
+  if (!(spot > 0) || !(strike > 0)) {
+    throw new Error("Spot and strike must be positive");
+  }
+  if (!(timeToExpiry > 0)) {
+    throw new Error("Time to expiry must be positive (in years)");
+  }
+  if (!(volatility > 0)) {
+    throw new Error("Volatility must be positive (as a decimal, e.g. 0.18)");
+  }
+}
+
+export function blackScholes(params: OptionParams): OptionPricing {
+  validateParams(params);
+  const { spot: S, strike: K, timeToExpiry: T, volatility: sigma, riskFreeRate: r, optionType } = params;
+  const q = params.dividendYield || 0;
+
+  const sqrtT = Math.sqrt(T);
+  const d1 = (Math.log(S / K) + (r - q + 0.5 * sigma * sigma) * T) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+
+  const discountR = Math.exp(-r * T);
+  const discountQ = Math.exp(-q * T);
+  const pdfD1 = normalPDF(d1);
+
+  const isCall = optionType === "call";
+  const price = isCall
+    ? S * discountQ * normalCDF(d1) - K * discountR * normalCDF(d2)
+    : K * discountR * normalCDF(-d2) - S * discountQ * normalCDF(-d1);
+
+  const delta = isCall ? discountQ * normalCDF(d1) : discountQ * (normalCDF(d1) - 1);
+  const gamma = (discountQ * pdfD1) / (S * sigma * sqrtT);
+  const thetaAnnual = isCall
+    ? -(S * discountQ * pdfD1 * sigma) / (2 * sqrtT) - r * K * discountR * normalCDF(d2) + q * S * discountQ * normalCDF(d1)
+    : -(S * discountQ * pdfD1 * sigma) / (2 * sqrtT) + r * K * discountR * normalCDF(-d2) - q * S * discountQ * normalCDF(-d1);
+  const vega = S * discountQ * pdfD1 * sqrtT;
+  const rho = isCall ? K * T * discountR * normalCDF(d2) : -K * T * discountR * normalCDF(-d2);
+
+  const intrinsicValue = Math.max(0, isCall ? S - K : K - S);
+
+  return {
+    price,
+    // Theta per calendar day, vega and rho per 1 percentage point.
+    greeks: {
+      delta,
+      gamma,
+      theta: thetaAnnual / 365,
+      vega: vega / 100,
+      rho: rho / 100,
+    },
+    d1,
+    d2,
+    intrinsicValue,
+    timeValue: price - intrinsicValue,
+  };
+}
+
+export function impliedVolatility(
+  marketPrice: number,
+  params: Omit<OptionParams, "volatility">,
+  tolerance: number = 1e-6,
+  maxIterations: number = 100
+): { volatility: number; iterations: number; method: "newton" | "brent" } {
+  const priceAt = (vol: number) => blackScholes({ ...params, volatility: vol }).price - marketPrice;
+
+  let vol = 0.2;
+  for (let i = 1; i <= maxIterations; i++) {
+    const diff = priceAt(vol);
+    if (Math.abs(diff) < tolerance) return { volatility: vol, iterations: i, method: "newton" };
+    const vega = blackScholes({ ...params, volatility: vol }).greeks.vega * 100;
+    // Newton stalls on deep ITM/OTM options where vega vanishes; fall back to Brent.
+    if (vega < 1e-8) break;
+    const next = vol - diff / vega;
+    if (!(next > 0) || next > 5) break;
+    vol = next;
+  }
+
+  let a = 1e-4;
+  let b = 5;
+  let fa = priceAt(a);
+  let fb = priceAt(b);
+  if (fa * fb > 0) {
+    throw new Error("Market price is outside the no-arbitrage bounds for this option");
+  }
+  if (Math.abs(fa) < Math.abs(fb)) {
+    [a, b] = [b, a];
+    [fa, fb] = [fb, fa];
+  }
+
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let bisected = true;
+
+  for (let i = 1; i <= maxIterations; i++) {
+    if (Math.abs(fb) < tolerance || Math.abs(b - a) < tolerance) {
+      return { volatility: b, iterations: i, method: "brent" };
+    }
+
+    let s: number;
+    if (fa !== fc && fb !== fc) {
+      s =
+        (a * fb * fc) / ((fa - fb) * (fa - fc)) +
+        (b * fa * fc) / ((fb - fa) * (fb - fc)) +
+        (c * fa * fb) / ((fc - fa) * (fc - fb));
+    } else {
+      s = b - (fb * (b - a)) / (fb - fa);
+    }
+
+    const lower = (3 * a + b) / 4;
+    const outOfRange = !((s > Math.min(lower, b)) && (s < Math.max(lower, b)));
+    if (
+      outOfRange ||
+      (bisected && Math.abs(s - b) >= Math.abs(b - c) / 2) ||
+      (!bisected && Math.abs(s - b) >= Math.abs(c - d) / 2)
+    ) {
+      s = (a + b) / 2;
+      bisected = true;
+    } else {
+      bisected = false;
+    }
+
+    const fs = priceAt(s);
+    d = c;
+    c = b;
+    fc = fb;
+
+    if (fa * fs < 0) {
+      b = s;
+      fb = fs;
+    } else {
+      a = s;
+      fa = fs;
+    }
+
+    if (Math.abs(fa) < Math.abs(fb)) {
+      [a, b] = [b, a];
+      [fa, fb] = [fb, fa];
+    }
+  }
+
+  return { volatility: b, iterations: maxIterations, method: "brent" };
+}
+
+export function checkPutCallParity(params: {
+  callPrice: number;
+  putPrice: number;
+  spot: number;
+  strike: number;
+  timeToExpiry: number;
+  riskFreeRate: number;
+  dividendYield?: number;
+}): { lhs: number; rhs: number; deviation: number; holds: boolean; arbitrage?: string } {
+  const { callPrice, putPrice, spot, strike, timeToExpiry, riskFreeRate } = params;
+  const q = params.dividendYield || 0;
+
+  const lhs = callPrice - putPrice;
+  const rhs = spot * Math.exp(-q * timeToExpiry) - strike * Math.exp(-riskFreeRate * timeToExpiry);
+  const deviation = lhs - rhs;
+  const holds = Math.abs(deviation) <= Math.max(0.01, 0.001 * spot);
+
+  return {
+    lhs,
+    rhs,
+    deviation,
+    holds,
+    arbitrage: holds
+      ? undefined
+      : deviation > 0
+        ? "Call rich relative to put: sell call, buy put, buy underlying (conversion)"
+        : "Put rich relative to call: buy call, sell put, short underlying (reversal)",
+  };
+}
+
+export function calculateOptionPnL(params: {
+  underlying: string;
+  premiumPaid: number;
+  currentPrice: number;
+  lots: number;
+  position: "long" | "short";
+  lotSize?: number;
+}): { lotSize: number; quantity: number; pnlPerUnit: number; pnl: number; pnlPercent: number } {
+  const lotSize = params.lotSize || NSE_LOT_SIZES[params.underlying.toUpperCase()];
+  if (!lotSize) {
+    throw new Error(`Unknown lot size for ${params.underlying}; pass lotSize explicitly`);
+  }
+
+  const quantity = lotSize * params.lots;
+  const sign = params.position === "long" ? 1 : -1;
+  const pnlPerUnit = sign * (params.currentPrice - params.premiumPaid);
+
+  return {
+    lotSize,
+    quantity,
+    pnlPerUnit,
+    pnl: pnlPerUnit * quantity,
+    pnlPercent: params.premiumPaid > 0 ? (pnlPerUnit / params.premiumPaid) * 100 : 0,
+  };
+}
+
+export interface OptionsToolMetric {
+  name: string;
+  value: number | string;
+  unit?: string;
+}
+
+const optionTypeSchema: Schema = {
+  type: SchemaType.STRING,
+  format: "enum",
+  enum: ["call", "put"],
+  description: "Option type",
+};
+
+const marketInputs: Record<string, Schema> = {
+  spot: { type: SchemaType.NUMBER, description: "Underlying spot price" },
+  strike: { type: SchemaType.NUMBER, description: "Strike price" },
+  daysToExpiry: { type: SchemaType.NUMBER, description: "Calendar days to expiry" },
+  riskFreeRate: {
+    type: SchemaType.NUMBER,
+    description: "Annual risk-free rate as a decimal (default 0.065, the 91-day T-bill)",
+  },
+  dividendYield: { type: SchemaType.NUMBER, description: "Annual dividend yield as a decimal" },
+};
+
+export const OPTIONS_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: "priceOption",
+    description:
+      "Price a European option with Black-Scholes and return the premium and Greeks (delta, gamma, theta per day, vega and rho per 1%).",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        ...marketInputs,
+        volatility: { type: SchemaType.NUMBER, description: "Annual volatility as a decimal, e.g. 0.15" },
+        optionType: optionTypeSchema,
+      },
+      required: ["spot", "strike", "daysToExpiry", "volatility", "optionType"],
+    },
+  },
+  {
+    name: "impliedVolatility",
+    description: "Solve for the Black-Scholes implied volatility of a European option given its market premium.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        ...marketInputs,
+        marketPrice: { type: SchemaType.NUMBER, description: "Observed option premium" },
+        optionType: optionTypeSchema,
+      },
+      required: ["spot", "strike", "daysToExpiry", "marketPrice", "optionType"],
+    },
+  },
+  {
+    name: "checkPutCallParity",
+    description: "Check put-call parity C - P = S·e^(-qT) - K·e^(-rT) and flag any arbitrage.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        ...marketInputs,
+        callPrice: { type: SchemaType.NUMBER, description: "Call premium" },
+        putPrice: { type: SchemaType.NUMBER, description: "Put premium" },
+      },
+      required: ["spot", "strike", "daysToExpiry", "callPrice", "putPrice"],
+    },
+  },
+  {
+    name: "optionPositionPnL",
+    description: "Compute P&L of an index option position using NSE lot sizes (NIFTY, BANKNIFTY, FINNIFTY, MIDCPNIFTY, SENSEX).",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        underlying: { type: SchemaType.STRING, description: "Index symbol, e.g. NIFTY" },
+        premiumPaid: { type: SchemaType.NUMBER, description: "Entry premium per unit" },
+        currentPrice: { type: SchemaType.NUMBER, description: "Current or exit premium per unit" },
+        lots: { type: SchemaType.NUMBER, description: "Number of lots" },
+        position: { type: SchemaType.STRING, format: "enum", enum: ["long", "short"], description: "Position side" },
+        lotSize: { type: SchemaType.NUMBER, description: "Override lot size for stock options" },
+      },
+      required: ["underlying", "premiumPaid", "currentPrice", "lots", "position"],
+    },
+  },
+];
+
+const DEFAULT_RISK_FREE_RATE = 0.065;
+
+const round = (value: number, digits: number = 4) => parseFloat(value.toFixed(digits));
+
+const rupees = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function executeOptionsTool(
+  name: string,
+  args: Record<string, any>
+): { result: Record<string, unknown>; metrics: OptionsToolMetric[] } | null {
+  const timeToExpiry = Number(args.daysToExpiry) / 365;
+  const riskFreeRate = args.riskFreeRate !== undefined ? Number(args.riskFreeRate) : DEFAULT_RISK_FREE_RATE;
+  const dividendYield = args.dividendYield !== undefined ? Number(args.dividendYield) : 0;
+
+  switch (name) {
+    case "priceOption": {
+      const pricing = blackScholes({
+        spot: Number(args.spot),
+        strike: Number(args.strike),
+        timeToExpiry,
+        volatility: Number(args.volatility),
+        riskFreeRate,
+        dividendYield,
+        optionType: args.optionType,
+      });
+      const label = args.optionType === "put" ? "Put" : "Call";
+      return {
+        result: { ...pricing, riskFreeRate },
+        metrics: [
+          { name: `${label} Premium`, value: rupees(pricing.price) },
+          { name: "Delta", value: round(pricing.greeks.delta) },
+          { name: "Gamma", value: round(pricing.greeks.gamma, 6) },
+          { name: "Theta / day", value: rupees(pricing.greeks.theta) },
+          { name: "Vega / 1%", value: rupees(pricing.greeks.vega) },
+          { name: "Rho / 1%", value: rupees(pricing.greeks.rho) },
+          { name: "Time Value", value: rupees(pricing.timeValue) },
+        ],
+      };
+    }
+
+    case "impliedVolatility": {
+      const iv = impliedVolatility(Number(args.marketPrice), {
+        spot: Number(args.spot),
+        strike: Number(args.strike),
+        timeToExpiry,
+        riskFreeRate,
+        dividendYield,
+        optionType: args.optionType,
+      });
+      const pricing = blackScholes({
+        spot: Number(args.spot),
+        strike: Number(args.strike),
+        timeToExpiry,
+        volatility: iv.volatility,
+        riskFreeRate,
+        dividendYield,
+        optionType: args.optionType,
+      });
+      return {
+        result: { ...iv, greeks: pricing.greeks, riskFreeRate },
+        metrics: [
+          { name: "Implied Volatility", value: round(iv.volatility * 100, 2), unit: "%" },
+          { name: "Delta", value: round(pricing.greeks.delta) },
+          { name: "Vega / 1%", value: rupees(pricing.greeks.vega) },
+          { name: "Solver", value: `${iv.method} (${iv.iterations} it.)` },
+        ],
+      };
+    }
+
+    case "checkPutCallParity": {
+      const parity = checkPutCallParity({
+        callPrice: Number(args.callPrice),
+        putPrice: Number(args.putPrice),
+        spot: Number(args.spot),
+        strike: Number(args.strike),
+        timeToExpiry,
+        riskFreeRate,
+        dividendYield,
+      });
+      return {
+        result: { ...parity, riskFreeRate },
+        metrics: [
+          { name: "C - P", value: rupees(parity.lhs) },
+          { name: "S·e^-qT - K·e^-rT", value: rupees(parity.rhs) },
+          { name: "Deviation", value: rupees(parity.deviation) },
+          { name: "Parity", value: parity.holds ? "Holds" : "Violated" },
+        ],
+      };
+    }
+
+    case "optionPositionPnL": {
+      const pnl = calculateOptionPnL({
+        underlying: String(args.underlying),
+        premiumPaid: Number(args.premiumPaid),
+        currentPrice: Number(args.currentPrice),
+        lots: Number(args.lots),
+        position: args.position === "short" ? "short" : "long",
+        lotSize: args.lotSize !== undefined ? Number(args.lotSize) : undefined,
+      });
+      return {
+        result: pnl,
+        metrics: [
+          { name: "Lot Size", value: pnl.lotSize },
+          { name: "Quantity", value: pnl.quantity },
+          { name: "P&L / unit", value: rupees(pnl.pnlPerUnit) },
+          { name: "Position P&L", value: rupees(pnl.pnl) },
+          { name: "Return", value: round(pnl.pnlPercent, 2), unit: "%" },
+        ],
+      };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { copyPdfPages, extractPdfText, needsOcr, toPageRuns } from "./pdf-text";
+
+const line = (n: number) =>
+  `Clause ${n}: the insurer settles admitted claims within thirty days of the survey report.`;
+
+// Page 1 has a full text layer, page 2 none (a scan), page 3 a short caption,
+// page 4 plenty of characters in a font too small to be the page's content.
+async function buildPdf(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+
+  const body = doc.addPage([612, 792]);
+  for (let i = 0; i < 12; i++) {
+    body.drawText(line(i), { x: 50, y: 740 - i * 18, size: 10, font });
+  }
+  doc.addPage([612, 792]);
+  doc.addPage([612, 792]).drawText("Figure 3", { x: 50, y: 740, size: 10, font });
+  doc.addPage([612, 792]).drawText(`${line(98)} ${line(99)}`, { x: 50, y: 40, size: 2, font });
+
+  return doc.save();
+}
+
+test("extractPdfText: only pages without a usable text layer need OCR", async () => {
+  const pages = await extractPdfText(await buildPdf());
+
+  assert.deepEqual(
+    pages.map((p) => [p.pageNumber, p.needsOcr]),
+    [
+      [1, false],
+      [2, true],
+      [3, true],
+      [4, true],
+    ],
+  );
+  assert.ok(pages[0].text.includes(line(11)));
+  assert.ok(pages[0].regions.length >= 12);
+  assert.equal(pages[1].charCount, 0);
+  assert.ok(pages[2].charCount < 80);
+  // Page 4 has the characters but covers almost none of the page.
+  assert.ok(pages[3].charCount >= 80);
+  assert.ok(pages[3].coverage < 0.005, `coverage ${pages[3].coverage}`);
+});
+
+test("needsOcr: a text layer of unmapped glyphs is sent to OCR", () => {
+  const page = { pageNumber: 1, text: "", charCount: 500, coverage: 0.2 };
+  assert.equal(needsOcr({ ...page, readableRatio: 0.95 }), false);
+  assert.equal(needsOcr({ ...page, readableRatio: 0.3 }), true);
+});
+
+test("toPageRuns: scanned pages are grouped into contiguous runs", async () => {
+  assert.deepEqual(toPageRuns([7, 2, 3, 4, 9, 8]), [
+    [2, 4],
+    [7, 9],
+  ]);
+
+  const copied = await copyPdfPages(await buildPdf(), 2, 4);
+  assert.equal((await PDFDocument.load(copied)).getPageCount(), 3);
+});
@@ -0,0 +1,283 @@
+import { PDFDocument } from "pdf-lib";
+import type { PageText } from "./chunking";
+import type { TextRegion } from "./bounding-box";
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+  charCount: number;
+  // Share of letters, digits and punctuation; fonts without a Unicode map
+  // extract as symbol soup and score low.
+  readableRatio: number;
+  // Share of the page area covered by text boxes.
+  coverage: number;
+  needsOcr: boolean;
+  // Text segments with their page positions, in the order of `text`.
+  regions: TextRegion[];
+}
+
+interface TextRun {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+  // Baseline and top in PDF units (origin bottom-left).
+  y0: number;
+  y1: number;
+}
+
+const MIN_PAGE_CHARS = 80;
+const MIN_READABLE_RATIO = 0.6;
+const MIN_COVERAGE = 0.005;
+const TABLE_MIN_CELLS = 3;
+
+const log = (step: string, data?: object) => {
+  console.log(`[PDF-TEXT] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+export async function loadPdfjs() {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  // There are no worker threads on the edge runtime; a worker module
+  // registered on globalThis makes pdf.js run it in-process instead.
+  const scope = globalThis as typeof globalThis & { pdfjsWorker?: unknown };
+  if (!scope.pdfjsWorker) {
+    scope.pdfjsWorker = await import("pdfjs-dist/legacy/build/pdf.worker.mjs");
+  }
+  return pdfjs;
+}
+
+function groupLines(runs: TextRun[]): TextRun[][] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: TextRun[][] = [];
+  for (const run of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - run.y) <= Math.max(2, run.height * 0.5)) {
+      line.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+  return lines.map((line) => line.sort((a, b) => a.x - b.x));
+}
+
+// Splits a line at gaps wider than a couple of character heights: column
+// gutters and table cell boundaries.
+function toSegments(line: TextRun[]): Segment[] {
+  const segments: Segment[] = [];
+  for (const run of line) {
+    const last = segments[segments.length - 1];
+    const gap = last ? run.x - last.x1 : Infinity;
+    if (last && gap <= Math.max(12, run.height * 2)) {
+      const charWidth = run.str.length ? run.width / run.str.length : 0;
+      const spaced =
+        gap > charWidth * 0.2 && !/\s$/.test(last.text) && !/^\s/.test(run.str);
+      last.text += (spaced ? " " : "") + run.str;
+      last.x1 = Math.max(last.x1, run.x + run.width);
+      last.y0 = Math.min(last.y0, run.y);
+      last.y1 = Math.max(last.y1, run.y + run.height);
+    } else {
+      segments.push({
+        text: run.str,
+        x0: run.x,
+        x1: run.x + run.width,
+        y0: run.y,
+        y1: run.y + run.height,
+      });
+    }
+  }
+  return segments
+    .map((s) => ({ ...s, text: s.text.replace(/\s+/g, " ").trim() }))
+    .filter((s) => s.text);
+}
+
+// A two-column page shows up as many two-segment lines whose second segment
+// starts near the same x. Returns that gutter, or null for single column.
+function findGutter(lines: Segment[][], pageWidth: number): number | null {
+  const starts = lines
+    .filter((segments) => segments.length === 2)
+    .map((segments) => segments[1].x0)
+    .sort((a, b) => a - b);
+  if (starts.length < 5 || starts.length < lines.length * 0.3) return null;
+
+  const median = starts[Math.floor(starts.length / 2)];
+  const aligned = starts.filter(
+    (x) => Math.abs(x - median) <= pageWidth * 0.05,
+  );
+  const central = median > pageWidth * 0.3 && median < pageWidth * 0.7;
+  return central && aligned.length >= starts.length * 0.7 ? median : null;
+}
+
+function formatLines(lines: Segment[][]): string {
+  const out: string[] = [];
+  let inTable = false;
+  for (const segments of lines) {
+    if (segments.length >= TABLE_MIN_CELLS) {
+      out.push(`| ${segments.map((s) => s.text).join(" | ")} |`);
+      if (!inTable) out.push(`|${" --- |".repeat(segments.length)}`);
+      inTable = true;
+    } else {
+      out.push(segments.map((s) => s.text).join("  "));
+      inTable = false;
+    }
+  }
+  return out.join("\n");
+}
+
+// Returns the page text and its lines in the order they were written.
+function layoutPageText(
+  runs: TextRun[],
+  pageWidth: number,
+): { text: string; lines: Segment[][] } {
+  const lines = groupLines(runs).map(toSegments).filter((l) => l.length);
+  const gutter = findGutter(lines, pageWidth);
+  if (gutter === null) return { text: formatLines(lines), lines };
+
+  // Read the left column, then the right; a line spanning the gutter (a
+  // heading or full-width table) closes the columns above it.
+  const tolerance = pageWidth * 0.02;
+  const out: Segment[][] = [];
+  let left: Segment[][] = [];
+  let right: Segment[][] = [];
+  const flush = () => {
+    out.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  for (const segments of lines) {
+    const l = segments.filter((s) => s.x1 <= gutter + tolerance);
+    const r = segments.filter((s) => s.x0 >= gutter - tolerance);
+    if (l.length + r.length < segments.length) {
+      flush();
+      out.push(segments);
+      continue;
+    }
+    if (l.length) left.push(l);
+    if (r.length) right.push(r);
+  }
+  flush();
+  return { text: formatLines(out), lines: out };
+}
+
+export function needsOcr(
+  page: Omit<PdfPageText, "needsOcr" | "regions">,
+): boolean {
+  return (
+    page.charCount < MIN_PAGE_CHARS ||
+    page.readableRatio < MIN_READABLE_RATIO ||
+    page.coverage < MIN_COVERAGE
+  );
+}
+
+export async function extractPdfText(
+  data: ArrayBuffer | Uint8Array,
+): Promise<PdfPageText[]> {
+  const pdfjs = await loadPdfjs();
+  // pdf.js takes ownership of (and detaches) the buffer it is given.
+  const bytes = new Uint8Array(data).slice();
+  const doc = await pdfjs.getDocument({
+    data: bytes,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    disableFontFace: true,
+    verbosity: 0,
+  }).promise;
+
+  const pages: PdfPageText[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const runs: TextRun[] = [];
+      let area = 0;
+      for (const item of content.items) {
+        // pdf.js fills wide gaps with whitespace items; dropping them keeps
+        // column and cell boundaries visible to the layout pass.
+        if (!("str" in item) || !item.str.trim()) continue;
+        const runHeight = Math.abs(item.transform[3]) || item.height;
+        runs.push({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: runHeight,
+        });
+        area += item.width * runHeight;
+      }
+
+      const { text, lines } = layoutPageText(runs, width);
+      const visible = text.replace(/\s/g, "");
+      const readable = visible.match(/[\p{L}\p{N}.,;:%₹$()\-/|']/gu) || [];
+      const measured = {
+        pageNumber,
+        text,
+        charCount: visible.length,
+        readableRatio: visible.length ? readable.length / visible.length : 0,
+        coverage: Math.min(1, area / (width * height || 1)),
+      };
+      const regions = lines.flat().map((segment) => ({
+        pageNumber,
+        text: segment.text,
+        box: {
+          x: segment.x0 / width,
+          y: 1 - segment.y1 / height,
+          width: (segment.x1 - segment.x0) / width,
+          height: (segment.y1 - segment.y0) / height,
+        },
+      }));
+      pages.push({ ...measured, needsOcr: needsOcr(measured), regions });
+      page.cleanup();
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  log("Text layer extracted", {
+    pages: pages.length,
+    needsOcr: pages.filter((p) => p.needsOcr).length,
+  });
+  return pages;
+}
+
+// Groups page numbers into contiguous [first, last] runs so each run can be
+// sent to vision as one sub-document.
+export function toPageRuns(pageNumbers: number[]): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  for (const page of [...pageNumbers].sort((a, b) => a - b)) {
+    const last = runs[runs.length - 1];
+    if (last && page === last[1] + 1) last[1] = page;
+    else runs.push([page, page]);
+  }
+  return runs;
+}
+
+export async function copyPdfPages(
+  data: ArrayBuffer | Uint8Array,
+  firstPage: number,
+  lastPage: number,
+): Promise<Uint8Array> {
+  const source = await PDFDocument.load(data, { ignoreEncryption: true });
+  const indices: number[] = [];
+  for (let page = firstPage; page <= lastPage; page++) indices.push(page - 1);
+
+  const target = await PDFDocument.create();
+  const copied = await target.copyPages(source, indices);
+  copied.forEach((page) => target.addPage(page));
+  return target.save();
+}
+
+export function joinPages(pages: PageText[]): string {
+  return [...pages]
+    .sort((a, b) => a.pageNumber - b.pageNumber)
+    .map((p) => `=== PAGE ${p.pageNumber} ===\n${p.content}`)
+    .join("\n\n");
+}
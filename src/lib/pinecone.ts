@@ -1,3 +1,6 @@
+import type { MetadataFilter, VectorStore } from "./vector-store";
+import { getEmbeddingProvider } from "./llm-provider";
+
 const log = (step: string, data?: object) => {
   console.log(`[PINECONE] ${step}`, data ? JSON.stringify(data) : "");
 };
@@ -52,89 +55,108 @@ async function pineconeRequest<TResponse>(
   return (await res.json()) as TResponse;
 }
 
-export interface PineconeVector {
-  id: string;
-  values: number[];
-  metadata?: Record<string, unknown>;
-}
-
-export interface DocumentChunk {
-  id: string;
-  content: string;
-  metadata: {
-    filename: string;
-    pageNumber: number;
-    sessionId?: string;
-    chunkIndex?: number;
-    totalChunks?: number;
-  };
-  embedding?: number[];
-}
-
-export async function upsertVectors(vectors: PineconeVector[]): Promise<void> {
-  if (vectors.length === 0) return;
-  await pineconeRequest("/vectors/upsert", { vectors });
-}
+// Pinecone REST backend for the vector store; the filter syntax is Pinecone's
+// own, which MetadataFilter mirrors.
+export function createPineconeStore(): VectorStore {
+  return {
+    name: "pinecone",
 
-export async function upsertDocumentChunks(
-  chunks: DocumentChunk[],
-  embeddings: number[][],
-  sessionId: string,
-) {
-  const vectors = chunks.map((chunk, i) => ({
-    id: chunk.id,
-    values: embeddings[i],
-    metadata: {
-      content: chunk.content,
-      filename: chunk.metadata.filename,
-      pageNumber: chunk.metadata.pageNumber,
-      sessionId: sessionId,
-      chunkIndex: i,
-      totalChunks: chunks.length,
+    async upsert(vectors) {
+      if (vectors.length === 0) return;
+      await pineconeRequest("/vectors/upsert", { vectors });
     },
-  }));
 
-  log("Upserting vectors", { count: vectors.length, sessionId });
-  await upsertVectors(vectors);
-  log("Upsert complete");
-}
-
-export async function queryDocuments(
-  queryEmbedding: number[],
-  sessionId: string,
-  topK: number = 15,
-) {
-  log("Querying documents", { sessionId, topK });
-
-  const results = await pineconeRequest<{
-    matches?: Array<Record<string, any>>;
-  }>("/query", {
-    vector: queryEmbedding,
-    topK,
-    includeMetadata: true,
-    filter: {
-      sessionId: { $eq: sessionId },
+    async query(embedding, { topK, filter }) {
+      log("Querying vectors", { topK, filter });
+
+      const results = await pineconeRequest<{
+        matches?: Array<{
+          id: string;
+          score?: number;
+          metadata?: Record<string, unknown>;
+        }>;
+      }>("/query", {
+        vector: embedding,
+        topK,
+        includeMetadata: true,
+        ...(filter ? { filter } : {}),
+      });
+
+      const matches = results.matches || [];
+      log("Query results", {
+        matchCount: matches.length,
+        topScore: matches[0]?.score,
+      });
+
+      return matches.map((m) => ({
+        id: m.id,
+        score: m.score || 0,
+        metadata: m.metadata || {},
+      }));
     },
-  });
 
-  const matches = results.matches || [];
-  log("Query results", {
-    matchCount: matches.length,
-    topScore: matches[0]?.score,
-  });
-
-  return matches;
+    deleteByFilter,
+  };
 }
 
-export async function deleteSessionDocuments(sessionId: string) {
-  log("Deleting session documents", { sessionId });
+const DELETE_BATCH_SIZE = 1000;
+const MAX_DELETE_ROUNDS = 20;
+const DELETE_SETTLE_MS = 500;
+
+async function deleteByFilter(filter: MetadataFilter): Promise<number | null> {
+  log("Deleting vectors", { filter });
 
   try {
-    await pineconeRequest("/vectors/delete", {
-      filter: { sessionId: { $eq: sessionId } },
-    });
-    log("Session documents deleted");
+    await pineconeRequest("/vectors/delete", { filter });
+    log("Vectors deleted by filter");
+    return null;
   } catch (error) {
-    log("Delete error", { error: String(error) });
+    // Serverless indexes reject delete-by-filter; resolve the ids first.
+    log("Filter delete unavailable, deleting by id", {
+      error: String(error).substring(0, 120),
+    });
+  }
+
+  // Any non-zero probe works: the filter, not similarity, selects the ids.
+  const dimensions = getEmbeddingProvider().embeddingDimensions;
+  const probe = new Array(dimensions).fill(1 / Math.sqrt(dimensions));
+  const seen = new Set<string>();
+  let remaining = 0;
+  let waits = 0;
+  for (let round = 0; round < MAX_DELETE_ROUNDS; round++) {
+    const results = await pineconeRequest<{
+      matches?: Array<{ id: string }>;
+    }>("/query", {
+      vector: probe,
+      topK: DELETE_BATCH_SIZE,
+      includeMetadata: false,
+      filter,
+    });
+
+    const matches = (results.matches || []).map((m) => m.id);
+    remaining = matches.length;
+    if (remaining === 0) break;
+
+    // Deletes are eventually consistent: ids already sent can still match,
+    // so only a query with no matches at all means the filter is clear.
+    const ids = matches.filter((id) => !seen.has(id));
+    if (ids.length > 0) {
+      await pineconeRequest("/vectors/delete", { ids });
+      ids.forEach((id) => seen.add(id));
+      waits = 0;
+    } else {
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(DELETE_SETTLE_MS * 2 ** waits++, 4000)),
+      );
+    }
+  }
+
+  if (remaining > 0) {
+    throw new Error(
+      `${remaining}${remaining === DELETE_BATCH_SIZE ? "+" : ""} vectors still match after ${MAX_DELETE_ROUNDS} delete rounds (${seen.size} deletes sent)`,
+    );
   }
+
+  log("Vectors deleted by id", { count: seen.size });
+  return seen.size;
 }
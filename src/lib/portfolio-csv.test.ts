@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsvSeries } from "./portfolio-csv";
+
+test("parseCsvSeries: an ISO date column is the row label, not a series", () => {
+  const csv = [
+    "Date,RELIANCE,TCS",
+    "2024-01-01,2450.5,3810",
+    "2024-01-02,2461.2,3795.4",
+    "2024-01-03,2449.9,3820.1",
+  ].join("\n");
+
+  assert.deepEqual(parseCsvSeries(csv), {
+    RELIANCE: [2450.5, 2461.2, 2449.9],
+    TCS: [3810, 3795.4, 3820.1],
+  });
+});
+
+test("parseCsvSeries: rows with a malformed cell are dropped from every series", () => {
+  const csv = [
+    "RELIANCE,TCS",
+    "1.2%,-0.4%",
+    "0.8%,12abc",
+    "-0.5%,0.9%",
+  ].join("\n");
+
+  const series = parseCsvSeries(csv);
+  assert.deepEqual(Object.keys(series), ["RELIANCE", "TCS"]);
+  assert.equal(series.RELIANCE.length, 2);
+  assert.ok(Math.abs(series.TCS[1] - 0.009) < 1e-12);
+});
@@ -0,0 +1,57 @@
+const log = (step: string, data?: object) => {
+  console.log(`[PORTFOLIO] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+function parseNumber(raw: string): number {
+  const cleaned = raw.trim().replace(/[₹,\s]/g, "");
+  // Number() rejects trailing text, so "2024-01-01" is not read as 2024.
+  const strict = (s: string) => (s === "" ? NaN : Number(s));
+  if (cleaned.endsWith("%")) return strict(cleaned.slice(0, -1)) / 100;
+  return strict(cleaned);
+}
+
+export function parseCsvSeries(csv: string): Record<string, number[]> {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+  if (lines.length < 3) {
+    throw new Error("CSV must have a header row and at least two data rows");
+  }
+
+  const header = lines[0]
+    .split(",")
+    .map((h) => h.trim().replace(/^"|"$/g, ""));
+  const rows = lines.slice(1).map((l) => l.split(","));
+
+  // A leading non-numeric column (dates) is treated as the row label.
+  const firstColumnIsLabel = rows.every((r) =>
+    Number.isNaN(parseNumber(r[0] || "")),
+  );
+  const startColumn = firstColumnIsLabel ? 1 : 0;
+
+  const columns: number[] = [];
+  for (let col = startColumn; col < header.length; col++) {
+    if (header[col]) columns.push(col);
+  }
+
+  // A row with a blank or unparseable cell is dropped across every column,
+  // so the series stay aligned on the same dates.
+  const parsed = rows.map((r) => columns.map((col) => parseNumber(r[col] || "")));
+  const complete = parsed.filter((values) => values.every(Number.isFinite));
+  if (complete.length < parsed.length) {
+    log("Dropped incomplete CSV rows", {
+      dropped: parsed.length - complete.length,
+      kept: complete.length,
+    });
+  }
+  if (complete.length < 2) {
+    throw new Error("CSV must have at least two rows with a value in every column");
+  }
+
+  const series: Record<string, number[]> = {};
+  columns.forEach((col, i) => {
+    series[header[col]] = complete.map((values) => values[i]);
+  });
+  return series;
+}
@@ -0,0 +1,114 @@
+import { Schema, SchemaType } from "@google/generative-ai";
+import type { ChatMessage } from "./gemini";
+import { getLLMProvider } from "./llm-provider";
+import type { RetrievalPlan } from "./retrieval";
+
+export interface RewrittenQuery {
+  standalone: string;
+  subQueries: string[];
+  hypotheticalAnswer?: string;
+}
+
+export interface RewriteOptions {
+  multiQuery?: boolean;
+  hyde?: boolean;
+  maxSubQueries?: number;
+}
+
+const HISTORY_TURNS = 6;
+const HISTORY_CHARS_PER_TURN = 600;
+
+const REWRITE_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    standalone: { type: SchemaType.STRING },
+    subQueries: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+    },
+    hypotheticalAnswer: { type: SchemaType.STRING },
+  },
+  required: ["standalone", "subQueries"],
+};
+
+const log = (step: string, data?: object) => {
+  console.log(`[QUERY-REWRITE] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+export async function rewriteQuery(
+  message: string,
+  history: ChatMessage[],
+  options: RewriteOptions = {},
+): Promise<RewrittenQuery> {
+  const { multiQuery = true, hyde = true, maxSubQueries = 3 } = options;
+  const passthrough: RewrittenQuery = { standalone: message, subQueries: [] };
+
+  if (history.length === 0 && !multiQuery && !hyde) return passthrough;
+
+  const transcript = history
+    .slice(-HISTORY_TURNS)
+    .map(
+      (m) =>
+        `${m.role === "user" ? "User" : "Assistant"}: ${m.content.substring(0, HISTORY_CHARS_PER_TURN)}`,
+    )
+    .join("\n");
+
+  const instructions = [
+    "Rewrite the latest user message as a standalone search query for a financial document index. Resolve pronouns and references such as \"the previous year\", \"that bank\" or \"it\" from the conversation. Keep exact names, section numbers, figures and years. If it is already standalone, return it unchanged.",
+    multiQuery
+      ? `subQueries: if the question asks for several things (comparisons, multiple years, multiple metrics), split it into up to ${maxSubQueries} focused standalone queries; otherwise return an empty list.`
+      : "subQueries: return an empty list.",
+    hyde
+      ? "hypotheticalAnswer: write 2-3 sentences in the style of an annual report or policy document that would answer the query. Invent plausible wording but do not state it as fact; it is only used for search."
+      : "hypotheticalAnswer: omit.",
+  ].join("\n");
+
+  try {
+    const result = await getLLMProvider().generate(
+      `${instructions}
+
+CONVERSATION:
+${transcript || "(none)"}
+
+LATEST USER MESSAGE: ${message}`,
+      { responseSchema: REWRITE_SCHEMA },
+    );
+
+    const parsed = JSON.parse(result.text) as Partial<RewrittenQuery>;
+    const standalone = parsed.standalone?.trim() || message;
+    const subQueries = (parsed.subQueries || [])
+      .map((q) => q.trim())
+      .filter((q) => q && q.toLowerCase() !== standalone.toLowerCase())
+      .slice(0, maxSubQueries);
+    const hypotheticalAnswer = hyde
+      ? parsed.hypotheticalAnswer?.trim() || undefined
+      : undefined;
+
+    log("Query rewritten", {
+      original: message.substring(0, 100),
+      standalone: standalone.substring(0, 100),
+      subQueries: subQueries.length,
+      hyde: !!hypotheticalAnswer,
+    });
+    return { standalone, subQueries, hypotheticalAnswer };
+  } catch (error) {
+    log("Rewrite failed, using original message", {
+      error: String(error).substring(0, 150),
+    });
+    return passthrough;
+  }
+}
+
+// The standalone query runs on both retrievers; the HyDE passage only replaces
+// the embedded text, since keyword search on invented wording adds noise.
+export function toRetrievalPlans(rewritten: RewrittenQuery): RetrievalPlan[] {
+  const plans: RetrievalPlan[] = [{ query: rewritten.standalone }];
+  for (const subQuery of rewritten.subQueries) plans.push({ query: subQuery });
+  if (rewritten.hypotheticalAnswer) {
+    plans.push({
+      query: rewritten.standalone,
+      denseQuery: rewritten.hypotheticalAnswer,
+    });
+  }
+  return plans;
+}
@@ -1,3 +1,10 @@
+import type {
+  ChartConfig,
+  MetricOutput,
+  RiskAnalysisOutput,
+} from "./structured-output";
+import type { IndexingReport } from "./indexing";
+
 type UpstashResult<T> = { result: T };
 
 const log = (step: string, data?: object) => {
@@ -93,6 +100,9 @@ export interface ConversationMessage {
     pageNumber: number;
     excerpt: string;
   }>;
+  chartConfig?: ChartConfig;
+  riskAnalysis?: RiskAnalysisOutput;
+  metrics?: MetricOutput[];
 }
 
 export interface SessionData {
@@ -114,6 +124,7 @@ export interface JobStatus {
   progress: number;
   message: string;
   result?: any;
+  report?: IndexingReport;
   error?: string;
   updatedAt: number;
 }
@@ -200,6 +211,33 @@ export async function addDocument(
   }
 }
 
+export async function removeDocument(
+  sessionId: string,
+  filename: string,
+): Promise<DocumentRef | null> {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+
+  const normalizedFilename = filename.trim();
+  const index = session.documents.findIndex((doc) =>
+    typeof doc === "string"
+      ? doc === normalizedFilename
+      : doc.filename === normalizedFilename,
+  );
+  if (index === -1) return null;
+
+  const [removed] = session.documents.splice(index, 1);
+  session.lastActive = Date.now();
+  await setJson(`session:${sessionId}`, SESSION_TTL, session);
+  log("Document removed", {
+    sessionId,
+    filename: normalizedFilename,
+    totalDocs: session.documents.length,
+  });
+
+  return typeof removed === "string" ? { filename: removed } : removed;
+}
+
 export async function getConversationHistory(
   sessionId: string,
   limit: number = 10,
@@ -214,6 +252,99 @@ export async function deleteSession(sessionId: string): Promise<void> {
   log("Session deleted", { sessionId });
 }
 
+export interface LexicalEntry {
+  id: string;
+  filename: string;
+  pageNumber: number;
+  content: string;
+  chunkType?: string;
+  section?: string;
+  // Encoded as in the vector metadata: "x,y,width,height".
+  boundingBox?: string;
+}
+
+const LEXICAL_BATCH = 100;
+
+// A hash of chunk id to entry, so indexing a document again overwrites its
+// entries instead of adding a second copy that doubles its BM25 weight.
+// Sessions still holding the older `lexical:{session}` list lose it when
+// they are purged or expire.
+const lexicalKey = (sessionId: string) => `lexical:${sessionId}:chunks`;
+
+export async function appendLexicalEntries(
+  sessionId: string,
+  entries: LexicalEntry[],
+): Promise<void> {
+  if (entries.length === 0) return;
+  const key = lexicalKey(sessionId);
+  for (let i = 0; i < entries.length; i += LEXICAL_BATCH) {
+    await upstashCommand<number>([
+      "HSET",
+      key,
+      ...entries
+        .slice(i, i + LEXICAL_BATCH)
+        .flatMap((e) => [e.id, JSON.stringify(e)]),
+    ]);
+  }
+  await upstashCommand<number>(["EXPIRE", key, SESSION_TTL]);
+}
+
+export async function getLexicalEntries(
+  sessionId: string,
+): Promise<LexicalEntry[]> {
+  const values = await upstashCommand<string[] | null>([
+    "HVALS",
+    lexicalKey(sessionId),
+  ]);
+
+  const entries: LexicalEntry[] = [];
+  for (const value of values || []) {
+    try {
+      entries.push(JSON.parse(value) as LexicalEntry);
+    } catch {
+      // Skip malformed entries
+    }
+  }
+  return entries;
+}
+
+// Runs inside Redis so finding a document's entries and deleting them is a
+// single step: appends for other documents are never lost, and the index is
+// never seen half-rewritten.
+const REMOVE_LEXICAL_SCRIPT = `
+local fields = redis.call('HGETALL', KEYS[1])
+local removed = 0
+for i = 1, #fields, 2 do
+  local ok, entry = pcall(cjson.decode, fields[i + 1])
+  if ok and type(entry) == 'table' and entry.filename == ARGV[1] then
+    removed = removed + redis.call('HDEL', KEYS[1], fields[i])
+  end
+end
+return removed
+`;
+
+export async function removeLexicalEntries(
+  sessionId: string,
+  filename: string,
+): Promise<number> {
+  const removed = await upstashCommand<number>([
+    "EVAL",
+    REMOVE_LEXICAL_SCRIPT,
+    1,
+    lexicalKey(sessionId),
+    filename,
+  ]);
+  if (removed > 0) {
+    log("Lexical entries removed", { sessionId, filename, removed });
+  }
+  return removed;
+}
+
+export async function clearLexicalEntries(sessionId: string): Promise<void> {
+  await delKey(lexicalKey(sessionId));
+  await delKey(`lexical:${sessionId}`);
+}
+
 export async function getCachedResponse(
   queryHash: string,
 ): Promise<string | null> {
@@ -0,0 +1,694 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb, RGB } from "pdf-lib";
+import { SessionData, ConversationMessage } from "./redis";
+import {
+  ChartConfig,
+  MetricOutput,
+  RiskAnalysisOutput,
+  toWaterfallRows,
+} from "./structured-output";
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  text: rgb(0.12, 0.14, 0.18),
+  muted: rgb(0.42, 0.45, 0.5),
+  accent: rgb(0.06, 0.72, 0.51),
+  border: rgb(0.82, 0.84, 0.87),
+  panel: rgb(0.96, 0.97, 0.98),
+  negative: rgb(0.86, 0.2, 0.2),
+  warning: rgb(0.96, 0.62, 0.04),
+  total: rgb(0.23, 0.51, 0.96),
+};
+
+const SERIES_COLORS = [
+  rgb(0.06, 0.72, 0.51),
+  rgb(0.23, 0.51, 0.96),
+  rgb(0.55, 0.36, 0.96),
+  rgb(0.96, 0.62, 0.04),
+  rgb(0.93, 0.28, 0.6),
+  rgb(0.02, 0.71, 0.83),
+];
+
+const RISK_COLORS: Record<RiskAnalysisOutput["overallRisk"], RGB> = {
+  low: rgb(0.06, 0.72, 0.51),
+  medium: rgb(0.96, 0.62, 0.04),
+  high: rgb(0.92, 0.35, 0.05),
+  critical: rgb(0.86, 0.2, 0.2),
+};
+
+export interface ExportOptions {
+  title?: string;
+  sessionId?: string;
+}
+
+interface Citation {
+  index: number;
+  filename: string;
+  pageNumber: number;
+  excerpt: string;
+}
+
+interface QAPair {
+  question: string;
+  answer?: ConversationMessage;
+  citations: Citation[];
+}
+
+// Pairs each user turn with the assistant reply that follows it and numbers
+// citations across the whole conversation for the appendix.
+function toQAPairs(messages: ConversationMessage[]): {
+  pairs: QAPair[];
+  citations: Citation[];
+} {
+  const pairs: QAPair[] = [];
+  const citations: Citation[] = [];
+  const citationIndex = new Map<string, number>();
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      pairs.push({ question: message.content, citations: [] });
+      continue;
+    }
+
+    const pair = pairs[pairs.length - 1];
+    if (!pair || pair.answer) continue;
+    pair.answer = message;
+
+    for (const source of message.sources || []) {
+      const key = `${source.filename}#${source.pageNumber}`;
+      let index = citationIndex.get(key);
+      if (index === undefined) {
+        index = citations.length + 1;
+        citationIndex.set(key, index);
+        citations.push({ index, ...source });
+      }
+      if (!pair.citations.some((c) => c.index === index)) {
+        pair.citations.push(citations[index - 1]);
+      }
+    }
+  }
+
+  return { pairs, citations };
+}
+
+function formatValue(value: number | string, unit?: string): string {
+  const formatted =
+    typeof value === "number"
+      ? value.toLocaleString("en-IN", { maximumFractionDigits: 2 })
+      : value;
+  if (!unit) return formatted;
+  return unit === "%" ? `${formatted}%` : `${formatted} ${unit}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").substring(0, 16) + " UTC";
+}
+
+// The standard PDF fonts only cover WinAnsi; map the symbols analysts use
+// and drop anything else rather than failing the whole export.
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/₹/g, "Rs. ")
+    .replace(/[≥]/g, ">=")
+    .replace(/[≤]/g, "<=")
+    .replace(/[→]/g, "->")
+    .replace(/\t/g, "  ")
+    .replace(/[^\x20-\x7E\n•–—‘’“”…€°±×÷]/g, "");
+}
+
+function stripMarkdown(markdown: string): string[] {
+  return markdown
+    .replace(/```[\s\S]*?```/g, "")
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^#{1,6}\s+/, "")
+        .replace(/^\s*[-*]\s+/, "• ")
+        .replace(/\*\*(.*?)\*\*/g, "$1")
+        .replace(/\*(.*?)\*/g, "$1")
+        .replace(/`([^`]*)`/g, "$1")
+        .replace(/^\|?\s*:?-{3,}.*$/, "")
+        .replace(/\|/g, "  ")
+        .trimEnd(),
+    )
+    .filter((line, i, lines) => line.trim() || (i > 0 && lines[i - 1].trim()));
+}
+
+class PdfReportWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private doc: PDFDocument,
+    private font: PDFFont,
+    private bold: PDFFont,
+  ) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 20) this.addPage();
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of toWinAnsi(text).split("\n")) {
+      let current = "";
+      for (const word of paragraph.split(/\s+/)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          current = candidate;
+          continue;
+        }
+        if (current) lines.push(current);
+        current = word;
+        // Hard-break tokens wider than the column (long URLs, IDs).
+        while (font.widthOfTextAtSize(current, size) > width && current.length > 1) {
+          let cut = current.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), size) > width) cut--;
+          lines.push(current.slice(0, cut));
+          current = current.slice(cut);
+        }
+      }
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  text(
+    text: string,
+    options: { size?: number; bold?: boolean; color?: RGB; indent?: number } = {},
+  ) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.font;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.4;
+
+    for (const line of this.wrap(text, font, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(lineHeight);
+      this.page.drawText(line, {
+        x: MARGIN + indent,
+        y: this.y - size,
+        size,
+        font,
+        color: options.color ?? COLORS.text,
+      });
+      this.y -= lineHeight;
+    }
+  }
+
+  rule() {
+    this.ensureSpace(12);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 6 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y - 6 },
+      thickness: 0.5,
+      color: COLORS.border,
+    });
+    this.y -= 12;
+  }
+
+  metricsTable(metrics: MetricOutput[]) {
+    const rowHeight = 18;
+    this.ensureSpace(rowHeight * 2);
+    this.text("Key metrics", { size: 11, bold: true, color: COLORS.accent });
+
+    metrics.forEach((metric, i) => {
+      this.ensureSpace(rowHeight);
+      if (i % 2 === 0) {
+        this.page.drawRectangle({
+          x: MARGIN,
+          y: this.y - rowHeight,
+          width: CONTENT_WIDTH,
+          height: rowHeight,
+          color: COLORS.panel,
+        });
+      }
+      const name = this.wrap(metric.name, this.font, 9, CONTENT_WIDTH * 0.6)[0];
+      const value = toWinAnsi(formatValue(metric.value, metric.unit));
+      this.page.drawText(name, {
+        x: MARGIN + 6,
+        y: this.y - 12.5,
+        size: 9,
+        font: this.font,
+        color: COLORS.text,
+      });
+      this.page.drawText(value, {
+        x: PAGE_WIDTH - MARGIN - 6 - this.bold.widthOfTextAtSize(value, 9),
+        y: this.y - 12.5,
+        size: 9,
+        font: this.bold,
+        color: COLORS.text,
+      });
+      this.y -= rowHeight;
+    });
+    this.gap(8);
+  }
+
+  riskCard(risk: RiskAnalysisOutput) {
+    this.ensureSpace(60);
+    const color = RISK_COLORS[risk.overallRisk] || COLORS.muted;
+    const top = this.y;
+
+    this.gap(6);
+    this.text(
+      `Risk assessment: ${risk.overallRisk.toUpperCase()} (score ${risk.riskScore}/100)`,
+      { size: 11, bold: true, color, indent: 10 },
+    );
+    for (const factor of risk.factors) {
+      const marker = factor.impact === "positive" ? "+" : factor.impact === "negative" ? "-" : "o";
+      this.text(`${marker} ${factor.factor}: ${factor.description}`, { size: 9, indent: 16 });
+    }
+    if (risk.recommendations.length > 0) {
+      this.text("Recommendations", { size: 9, bold: true, indent: 10 });
+      for (const recommendation of risk.recommendations) {
+        this.text(`• ${recommendation}`, { size: 9, indent: 16 });
+      }
+    }
+    this.gap(6);
+
+    // Accent bar only when the card did not break across pages.
+    if (this.y < top) {
+      this.page.drawRectangle({
+        x: MARGIN,
+        y: this.y,
+        width: 3,
+        height: top - this.y,
+        color,
+      });
+    }
+    this.gap(8);
+  }
+
+  chart(config: ChartConfig) {
+    const height = 170;
+    this.ensureSpace(height + 50);
+    this.text(config.title, { size: 11, bold: true, color: COLORS.accent });
+
+    const left = MARGIN + 40;
+    const right = PAGE_WIDTH - MARGIN - (config.series?.some((s) => s.axis === "right") ? 40 : 10);
+    const bottom = this.y - height;
+    const top = this.y - 10;
+    const width = right - left;
+
+    if (config.type === "pie") {
+      this.pieAsBars(config, bottom, top);
+      this.y = bottom - 10;
+      this.gap(10);
+      return;
+    }
+
+    type Plot = { key: string; label: string; kind: "bar" | "line"; axis: "left" | "right"; color: RGB };
+    const plots: Plot[] = (config.series?.length
+      ? config.series
+      : [{ key: "value", label: "value", type: undefined, axis: undefined }]
+    ).map((s, i) => ({
+      key: s.key,
+      label: s.label || s.key,
+      kind:
+        (s.type || (config.type === "combo" ? "bar" : config.type)) === "bar" ||
+        config.type === "waterfall"
+          ? "bar"
+          : "line",
+      axis: s.axis === "right" ? "right" : "left",
+      color: SERIES_COLORS[i % SERIES_COLORS.length],
+    }));
+
+    const waterfall = config.type === "waterfall" ? toWaterfallRows(config.data) : [];
+    const valueOf = (i: number, key: string): number => {
+      if (config.type === "waterfall") return waterfall[i].high;
+      const v = config.data[i][key];
+      return typeof v === "number" ? v : 0;
+    };
+
+    const scaleFor = (axis: "left" | "right") => {
+      const values: number[] = [0];
+      plots
+        .filter((p) => p.axis === axis)
+        .forEach((p) => config.data.forEach((_, i) => values.push(valueOf(i, p.key))));
+      if (config.type === "waterfall") waterfall.forEach((r) => values.push(r.low));
+      config.referenceLines
+        ?.filter((l) => (l.axis || "left") === axis)
+        .forEach((l) => values.push(l.y));
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const span = max - min || 1;
+      return { min, max, toY: (v: number) => bottom + ((v - min) / span) * (top - bottom) };
+    };
+    const scales = { left: scaleFor("left"), right: scaleFor("right") };
+
+    // Axes and zero line
+    this.page.drawLine({ start: { x: left, y: bottom }, end: { x: left, y: top }, thickness: 0.5, color: COLORS.border });
+    this.page.drawLine({
+      start: { x: left, y: scales.left.toY(0) },
+      end: { x: right, y: scales.left.toY(0) },
+      thickness: 0.5,
+      color: COLORS.border,
+    });
+    for (const [value, y] of [
+      [scales.left.max, top],
+      [scales.left.min, bottom],
+    ] as const) {
+      this.page.drawText(toWinAnsi(formatValue(Math.round(value * 100) / 100)), {
+        x: MARGIN,
+        y: y - 3,
+        size: 7,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    }
+
+    const slot = width / config.data.length;
+    const bars = plots.filter((p) => p.kind === "bar");
+    const stacked = config.stacked || config.series?.some((s) => s.stackId);
+    const barWidth = Math.max(2, (slot * 0.7) / (stacked ? 1 : Math.max(1, bars.length)));
+
+    config.data.forEach((point, i) => {
+      const x0 = left + slot * i + slot * 0.15;
+      let stackBase = 0;
+
+      if (config.type === "waterfall") {
+        const row = waterfall[i];
+        const scale = scales.left;
+        this.page.drawRectangle({
+          x: x0,
+          y: scale.toY(row.low),
+          width: slot * 0.7,
+          height: Math.max(0.5, scale.toY(row.high) - scale.toY(row.low)),
+          color: row.isTotal ? COLORS.total : row.change >= 0 ? COLORS.accent : COLORS.negative,
+        });
+      } else {
+        bars.forEach((plot, b) => {
+          const scale = scales[plot.axis];
+          const value = valueOf(i, plot.key);
+          const from = stacked ? stackBase : 0;
+          const to = from + value;
+          if (stacked) stackBase = to;
+          const y0 = scale.toY(Math.min(from, to));
+          this.page.drawRectangle({
+            x: stacked ? x0 : x0 + b * barWidth,
+            y: y0,
+            width: stacked ? slot * 0.7 : barWidth,
+            height: Math.max(0.5, scale.toY(Math.max(from, to)) - y0),
+            color: plot.color,
+          });
+        });
+      }
+
+      const label = this.wrap(point.name, this.font, 7, slot - 2)[0] || "";
+      this.page.drawText(label, {
+        x: left + slot * i + (slot - this.font.widthOfTextAtSize(label, 7)) / 2,
+        y: bottom - 10,
+        size: 7,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    });
+
+    for (const plot of plots.filter((p) => p.kind === "line")) {
+      const scale = scales[plot.axis];
+      for (let i = 1; i < config.data.length; i++) {
+        this.page.drawLine({
+          start: { x: left + slot * (i - 0.5), y: scale.toY(valueOf(i - 1, plot.key)) },
+          end: { x: left + slot * (i + 0.5), y: scale.toY(valueOf(i, plot.key)) },
+          thickness: 1.5,
+          color: plot.color,
+        });
+      }
+    }
+
+    for (const line of config.referenceLines || []) {
+      const y = scales[line.axis === "right" ? "right" : "left"].toY(line.y);
+      this.page.drawLine({
+        start: { x: left, y },
+        end: { x: right, y },
+        thickness: 1,
+        color: COLORS.warning,
+        dashArray: [4, 3],
+      });
+      this.page.drawText(toWinAnsi(line.label || String(line.y)), {
+        x: right - this.font.widthOfTextAtSize(toWinAnsi(line.label || String(line.y)), 7),
+        y: y + 2,
+        size: 7,
+        font: this.font,
+        color: COLORS.warning,
+      });
+    }
+
+    this.y = bottom - 16;
+    if (plots.length > 1) {
+      this.text(plots.map((p) => `${p.label}${p.axis === "right" ? " (right axis)" : ""}`).join("   |   "), {
+        size: 8,
+        color: COLORS.muted,
+      });
+    }
+    this.gap(8);
+  }
+
+  private pieAsBars(config: ChartConfig, bottom: number, top: number) {
+    const total = config.data.reduce((sum, d) => sum + Math.max(0, d.value ?? 0), 0) || 1;
+    const rowHeight = Math.min(16, (top - bottom) / config.data.length);
+
+    config.data.forEach((point, i) => {
+      const share = Math.max(0, point.value ?? 0) / total;
+      const y = top - rowHeight * (i + 1);
+      const label = this.wrap(point.name, this.font, 8, 150)[0] || "";
+      this.page.drawText(label, { x: MARGIN, y: y + 3, size: 8, font: this.font, color: COLORS.text });
+      this.page.drawRectangle({
+        x: MARGIN + 160,
+        y: y + 1,
+        width: Math.max(0.5, (CONTENT_WIDTH - 220) * share),
+        height: rowHeight - 4,
+        color: SERIES_COLORS[i % SERIES_COLORS.length],
+      });
+      this.page.drawText(`${(share * 100).toFixed(1)}%`, {
+        x: PAGE_WIDTH - MARGIN - 40,
+        y: y + 3,
+        size: 8,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    });
+  }
+
+  finish() {
+    const pages = this.doc.getPages();
+    pages.forEach((page, i) => {
+      const label = `Page ${i + 1} of ${pages.length}`;
+      page.drawText(label, {
+        x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(label, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font: this.font,
+        color: COLORS.muted,
+      });
+      page.drawText("Generated by Arthyx", {
+        x: MARGIN,
+        y: MARGIN / 2,
+        size: 8,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    });
+  }
+}
+
+export async function exportSessionPdf(
+  session: SessionData,
+  options: ExportOptions = {},
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const title = options.title || "Arthyx Analyst Report";
+
+  doc.setTitle(title);
+  doc.setProducer("Arthyx");
+  doc.setCreationDate(new Date());
+
+  const writer = new PdfReportWriter(doc, font, bold);
+  const { pairs, citations } = toQAPairs(session.messages);
+  const documents = session.documents.map((d) => (typeof d === "string" ? d : d.filename));
+
+  writer.text(title, { size: 20, bold: true });
+  writer.text(`Exported ${formatDate(Date.now())}${options.sessionId ? `  |  Session ${options.sessionId}` : ""}`, {
+    size: 9,
+    color: COLORS.muted,
+  });
+  if (documents.length > 0) {
+    writer.gap(6);
+    writer.text("Documents analysed", { size: 11, bold: true });
+    documents.forEach((d) => writer.text(`• ${d}`, { size: 9, indent: 8 }));
+  }
+  writer.rule();
+
+  pairs.forEach((pair, i) => {
+    writer.gap(4);
+    writer.text(`Q${i + 1}. ${pair.question}`, { size: 12, bold: true });
+    writer.gap(4);
+
+    if (!pair.answer) {
+      writer.text("No answer recorded.", { size: 10, color: COLORS.muted });
+      writer.rule();
+      return;
+    }
+
+    for (const line of stripMarkdown(pair.answer.content)) {
+      writer.text(line || " ", { size: 10 });
+    }
+    writer.gap(6);
+
+    if (pair.answer.chartConfig) writer.chart(pair.answer.chartConfig);
+    if (pair.answer.riskAnalysis) writer.riskCard(pair.answer.riskAnalysis);
+    if (pair.answer.metrics?.length) writer.metricsTable(pair.answer.metrics);
+
+    if (pair.citations.length > 0) {
+      writer.text(
+        `Sources: ${pair.citations.map((c) => `[${c.index}] ${c.filename}, p. ${c.pageNumber}`).join("; ")}`,
+        { size: 8, color: COLORS.muted },
+      );
+    }
+    writer.rule();
+  });
+
+  if (citations.length > 0) {
+    writer.addPage();
+    writer.text("Appendix: Citations", { size: 16, bold: true });
+    writer.gap(6);
+    for (const citation of citations) {
+      writer.text(`[${citation.index}] ${citation.filename}, Page ${citation.pageNumber}`, {
+        size: 10,
+        bold: true,
+      });
+      writer.text(
+        citation.excerpt.length > 600 ? `${citation.excerpt.substring(0, 600)}...` : citation.excerpt,
+        { size: 8, color: COLORS.muted, indent: 12 },
+      );
+      writer.gap(6);
+    }
+  }
+
+  writer.finish();
+  return doc.save();
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  return [
+    `| ${headers.map(escape).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escape).join(" | ")} |`),
+  ].join("\n");
+}
+
+function chartToMarkdown(config: ChartConfig): string {
+  if (config.type === "waterfall") {
+    return markdownTable(
+      ["Step", "Change", "Running total"],
+      toWaterfallRows(config.data).map((r) => [
+        r.name,
+        r.isTotal ? "" : formatValue(r.change),
+        formatValue(r.total),
+      ]),
+    );
+  }
+
+  const keys = config.series?.length ? config.series : [{ key: "value", label: "Value" }];
+  const table = markdownTable(
+    ["", ...keys.map((s) => s.label || s.key)],
+    config.data.map((point) => [
+      point.name,
+      ...keys.map((s) => {
+        const v = point[s.key];
+        return typeof v === "number" ? formatValue(v) : "";
+      }),
+    ]),
+  );
+  const thresholds = (config.referenceLines || [])
+    .map((l) => `- Threshold: ${l.label || ""} (${formatValue(l.y)})`)
+    .join("\n");
+  return thresholds ? `${table}\n\n${thresholds}` : table;
+}
+
+export function exportSessionMarkdown(
+  session: SessionData,
+  options: ExportOptions = {},
+): string {
+  const { pairs, citations } = toQAPairs(session.messages);
+  const documents = session.documents.map((d) => (typeof d === "string" ? d : d.filename));
+  const sections: string[] = [
+    `# ${options.title || "Arthyx Analyst Report"}\n\n_Exported ${formatDate(Date.now())}${options.sessionId ? ` · Session ${options.sessionId}` : ""}_`,
+  ];
+
+  if (documents.length > 0) {
+    sections.push(`## Documents analysed\n\n${documents.map((d) => `- ${d}`).join("\n")}`);
+  }
+
+  pairs.forEach((pair, i) => {
+    const parts = [`## Q${i + 1}. ${pair.question}`];
+    const answer = pair.answer;
+
+    if (!answer) {
+      parts.push("_No answer recorded._");
+    } else {
+      parts.push(answer.content.trim());
+      if (answer.chartConfig) {
+        parts.push(`### ${answer.chartConfig.title}\n\n${chartToMarkdown(answer.chartConfig)}`);
+      }
+      if (answer.riskAnalysis) {
+        const risk = answer.riskAnalysis;
+        parts.push(
+          [
+            `### Risk assessment: ${risk.overallRisk} (${risk.riskScore}/100)`,
+            ...risk.factors.map((f) => `- **${f.factor}** (${f.impact}): ${f.description}`),
+            ...(risk.recommendations.length
+              ? ["", "**Recommendations**", ...risk.recommendations.map((r) => `- ${r}`)]
+              : []),
+          ].join("\n"),
+        );
+      }
+      if (answer.metrics?.length) {
+        parts.push(
+          `### Key metrics\n\n${markdownTable(
+            ["Metric", "Value"],
+            answer.metrics.map((m) => [m.name, formatValue(m.value, m.unit)]),
+          )}`,
+        );
+      }
+      if (pair.citations.length > 0) {
+        parts.push(
+          `Sources: ${pair.citations.map((c) => `[[${c.index}]](#citation-${c.index}) ${c.filename}, p. ${c.pageNumber}`).join("; ")}`,
+        );
+      }
+    }
+    sections.push(parts.join("\n\n"));
+  });
+
+  if (citations.length > 0) {
+    sections.push(
+      [
+        "## Appendix: Citations",
+        ...citations.map(
+          (c) =>
+            `<a id="citation-${c.index}"></a>**[${c.index}] ${c.filename}, Page ${c.pageNumber}**\n\n> ${c.excerpt
+              .substring(0, 600)
+              .replace(/\n+/g, " ")}`,
+        ),
+      ].join("\n\n"),
+    );
+  }
+
+  return sections.join("\n\n---\n\n") + "\n";
+}
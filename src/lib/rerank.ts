@@ -0,0 +1,211 @@
+import { Schema, SchemaType } from "@google/generative-ai";
+import type { SourceContext } from "./gemini";
+import { getLLMProvider } from "./llm-provider";
+import { tokenize } from "./lexical-index";
+
+export interface RerankOptions {
+  topK?: number;
+  candidates?: number;
+  maxPerDocument?: number;
+  useModel?: boolean;
+}
+
+const DEFAULT_TOP_K = 15;
+const DEFAULT_CANDIDATES = 30;
+const DUPLICATE_THRESHOLD = 0.8;
+const RERANK_EXCERPT_CHARS = 700;
+
+const RERANK_SCHEMA: Schema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      index: { type: SchemaType.INTEGER },
+      score: { type: SchemaType.NUMBER },
+      reason: { type: SchemaType.STRING },
+    },
+    required: ["index", "score", "reason"],
+  },
+};
+
+const log = (step: string, data?: object) => {
+  console.log(`[RERANK] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/\W+/).filter(Boolean);
+  const result = new Set<string>();
+  for (let i = 0; i + 2 < words.length; i++) {
+    result.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  }
+  return result;
+}
+
+// Containment rather than Jaccard, so a short chunk that sits inside a longer
+// overlapping one (chunk overlap, re-indexed pages) counts as a duplicate.
+function containment(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared / Math.min(a.size, b.size);
+}
+
+export function dedupeSources(sources: SourceContext[]): SourceContext[] {
+  const kept: Array<{ source: SourceContext; shingles: Set<string> }> = [];
+  const ids = new Set<string>();
+
+  for (const source of sources) {
+    if (source.chunkId) {
+      if (ids.has(source.chunkId)) continue;
+      ids.add(source.chunkId);
+    }
+    const own = shingles(source.excerpt);
+    const duplicate = kept.some(
+      (k) => containment(own, k.shingles) >= DUPLICATE_THRESHOLD,
+    );
+    if (!duplicate) kept.push({ source, shingles: own });
+  }
+
+  return kept.map((k) => k.source);
+}
+
+function heuristicScore(queryTerms: Set<string>, source: SourceContext): number {
+  const excerptTerms = new Set(tokenize(source.excerpt));
+  let hits = 0;
+  for (const term of queryTerms) if (excerptTerms.has(term)) hits++;
+  const coverage = queryTerms.size ? hits / queryTerms.size : 0;
+  return 0.5 * coverage + 0.5 * source.relevanceScore;
+}
+
+async function scoreWithModel(
+  query: string,
+  sources: SourceContext[],
+): Promise<Map<number, { score: number; reason: string }>> {
+  const excerpts = sources
+    .map(
+      (s, i) =>
+        `[${i}] ${s.filename}, page ${s.pageNumber}:\n${s.excerpt.substring(0, RERANK_EXCERPT_CHARS)}`,
+    )
+    .join("\n\n");
+
+  const result = await getLLMProvider().generate(
+    `Rate how useful each excerpt is for answering the question.
+Score 0-10: 10 = directly states the answer (figures, clause text), 5 = related context, 0 = irrelevant.
+Give a reason of at most 12 words naming what the excerpt contains.
+Return one entry per excerpt index.
+
+QUESTION: ${query}
+
+EXCERPTS:
+${excerpts}`,
+    { responseSchema: RERANK_SCHEMA },
+  );
+
+  const parsed = JSON.parse(result.text) as Array<{
+    index: number;
+    score: number;
+    reason: string;
+  }>;
+
+  const scores = new Map<number, { score: number; reason: string }>();
+  for (const entry of parsed) {
+    if (
+      Number.isInteger(entry.index) &&
+      entry.index >= 0 &&
+      entry.index < sources.length &&
+      Number.isFinite(entry.score)
+    ) {
+      scores.set(entry.index, {
+        score: Math.min(10, Math.max(0, entry.score)) / 10,
+        reason: String(entry.reason || "").substring(0, 120),
+      });
+    }
+  }
+  return scores;
+}
+
+function diversify(
+  ranked: SourceContext[],
+  topK: number,
+  maxPerDocument: number,
+): SourceContext[] {
+  const selected: SourceContext[] = [];
+  const deferred: SourceContext[] = [];
+  const perDocument = new Map<string, number>();
+
+  for (const source of ranked) {
+    if (selected.length >= topK) break;
+    const count = perDocument.get(source.filename) || 0;
+    if (count >= maxPerDocument) {
+      deferred.push(source);
+      continue;
+    }
+    perDocument.set(source.filename, count + 1);
+    selected.push(source);
+  }
+
+  // With too few other documents to fill the budget, take the best of the
+  // capped document rather than returning fewer excerpts.
+  for (const source of deferred) {
+    if (selected.length >= topK) break;
+    selected.push(source);
+  }
+
+  return selected.sort(
+    (a, b) => (b.rerank?.score ?? 0) - (a.rerank?.score ?? 0),
+  );
+}
+
+export async function rerankSources(
+  query: string,
+  sources: SourceContext[],
+  options: RerankOptions = {},
+): Promise<SourceContext[]> {
+  const {
+    topK = DEFAULT_TOP_K,
+    candidates = DEFAULT_CANDIDATES,
+    maxPerDocument = Math.ceil(topK * 0.6),
+    useModel = true,
+  } = options;
+
+  const deduped = dedupeSources(sources).slice(0, candidates);
+  if (deduped.length === 0) return [];
+
+  let modelScores = new Map<number, { score: number; reason: string }>();
+  if (useModel && deduped.length > 1) {
+    try {
+      modelScores = await scoreWithModel(query, deduped);
+    } catch (error) {
+      log("Model rerank failed, using heuristic", {
+        error: String(error).substring(0, 150),
+      });
+    }
+  }
+
+  const queryTerms = new Set(tokenize(query));
+  const scored = deduped
+    .map((source, i): SourceContext => {
+      const model = modelScores.get(i);
+      const score = model ? model.score : heuristicScore(queryTerms, source);
+      return {
+        ...source,
+        relevanceScore: score,
+        rerank: model
+          ? { score, reason: model.reason, method: "model" }
+          : { score, method: "heuristic" },
+      };
+    })
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+  const selected = diversify(scored, topK, maxPerDocument);
+
+  log("Reranked", {
+    candidates: sources.length,
+    deduped: deduped.length,
+    modelScored: modelScores.size,
+    selected: selected.length,
+    documents: new Set(selected.map((s) => s.filename)).size,
+  });
+
+  return selected;
+}
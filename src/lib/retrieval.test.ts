@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryBackend } from "./evaluation";
+import { mergeSources, resolveCitations } from "./gemini";
+import { indexChunks } from "./indexing";
+import { multiRetrieve, retrieveContext, RetrievalBackend } from "./retrieval";
+
+const SESSION = "test";
+
+test("multiRetrieve loads the lexical index once for every plan", async () => {
+  const memory = createMemoryBackend();
+  let loads = 0;
+  const backend: RetrievalBackend = {
+    ...memory,
+    loadLexicalIndex: (sessionId) => {
+      loads++;
+      return memory.loadLexicalIndex(sessionId);
+    },
+  };
+
+  await indexChunks(
+    [
+      {
+        id: "c1",
+        content: "Gross NPA fell to 2.8% of advances in FY25.",
+        pageNumber: 4,
+      },
+      {
+        id: "c2",
+        content: "The capital adequacy ratio stood at 16.2% at year end.",
+        pageNumber: 9,
+      },
+    ],
+    { sessionId: SESSION, filename: "annual-report.pdf", backend },
+  );
+
+  const sources = await multiRetrieve(
+    [
+      { query: "gross NPA" },
+      { query: "capital adequacy ratio" },
+      { query: "asset quality", denseQuery: "Gross NPA and net NPA ratios" },
+    ],
+    SESSION,
+    { backend },
+  );
+
+  assert.equal(loads, 1);
+  assert.deepEqual(
+    sources.map((s) => s.chunkId).sort(),
+    ["c1", "c2"],
+  );
+});
+
+test("indexing a document again replaces its lexical entries", async () => {
+  const backend = createMemoryBackend();
+  const chunks = [
+    {
+      id: "policy_0",
+      content: "Pre-existing diseases are covered after a waiting period of 36 months.",
+      pageNumber: 3,
+    },
+  ];
+
+  for (let run = 0; run < 2; run++) {
+    await indexChunks(chunks, {
+      sessionId: SESSION,
+      filename: "policy.pdf",
+      backend,
+    });
+  }
+
+  const index = await backend.loadLexicalIndex(SESSION);
+  assert.equal(index.docs.length, 1);
+});
+
+test("citations from two documents in one session resolve to their own file", async () => {
+  const backend = createMemoryBackend();
+  const session = "two-docs";
+  // One filename contains the other, so a partial match would cross over.
+  await indexChunks(
+    [
+      {
+        id: "report_0",
+        content: "Segment revenue from retail banking grew 14% to ₹8,240 crore.",
+        pageNumber: 2,
+      },
+    ],
+    { sessionId: session, filename: "report.pdf", backend },
+  );
+  await indexChunks(
+    [
+      {
+        id: "annual_0",
+        content: "Segment revenue from treasury operations fell 6% to ₹1,905 crore.",
+        pageNumber: 2,
+      },
+    ],
+    { sessionId: session, filename: "annual-report.pdf", backend },
+  );
+
+  const { sources } = await retrieveContext("segment revenue", session, {
+    backend,
+    rewrite: false,
+    modelRerank: false,
+  });
+  assert.deepEqual(
+    sources.map((s) => s.filename).sort(),
+    ["annual-report.pdf", "report.pdf"],
+  );
+
+  // A tool call that found the same chunk again must not add a second copy.
+  const treasury = sources.find((s) => s.chunkId === "annual_0")!;
+  const merged = mergeSources(sources, [{ ...treasury }]);
+  assert.equal(merged.filter((s) => s.chunkId === "annual_0").length, 1);
+  assert.equal(merged.length, sources.length);
+
+  const cited = resolveCitations(
+    "Treasury fell [Source: annual-report.pdf, Page 2] while retail grew " +
+      "[Source: report.pdf, Page 2].",
+    merged,
+  );
+  assert.deepEqual(
+    cited.map((s) => [s.filename, s.chunkId]),
+    [
+      ["annual-report.pdf", "annual_0"],
+      ["report.pdf", "report_0"],
+    ],
+  );
+});
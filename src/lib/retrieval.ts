@@ -0,0 +1,274 @@
+import { embedText, ChatMessage, SourceContext } from "./gemini";
+import {
+  queryDocuments,
+  upsertVectors,
+  VectorMatch,
+  VectorRecord,
+} from "./vector-store";
+import {
+  loadLexicalIndex,
+  searchLexicalIndex,
+  LexicalIndex,
+} from "./lexical-index";
+import { appendLexicalEntries, LexicalEntry } from "./redis";
+import { rerankSources } from "./rerank";
+import { decodeBoundingBox } from "./bounding-box";
+import { rewriteQuery, toRetrievalPlans, RewrittenQuery } from "./query-rewrite";
+
+// Everything indexing and retrieval touch outside this process. The default
+// uses the configured embedding provider, vector store and Redis; the
+// evaluation harness swaps in an in-memory one so the same code paths run
+// without credentials.
+export interface RetrievalBackend {
+  embed(text: string): Promise<number[]>;
+  upsertVectors(vectors: VectorRecord[]): Promise<void>;
+  queryVectors(
+    embedding: number[],
+    sessionId: string,
+    topK: number,
+  ): Promise<VectorMatch[]>;
+  appendLexicalEntries(sessionId: string, entries: LexicalEntry[]): Promise<void>;
+  loadLexicalIndex(sessionId: string): Promise<LexicalIndex>;
+}
+
+export const defaultBackend: RetrievalBackend = {
+  embed: embedText,
+  upsertVectors,
+  queryVectors: queryDocuments,
+  appendLexicalEntries,
+  loadLexicalIndex,
+};
+
+export interface RetrievalOptions {
+  topK?: number;
+  candidates?: number;
+  backend?: RetrievalBackend;
+  // Text to embed instead of the query, e.g. a HyDE passage; the lexical
+  // side always searches the query itself.
+  denseQuery?: string;
+  // Shared by the plans of one request; loaded per call when absent.
+  lexicalIndex?: Promise<LexicalIndex>;
+}
+
+export interface RetrievalPlan {
+  query: string;
+  denseQuery?: string;
+}
+
+// Standard RRF constant; it flattens the gap between the first few ranks so
+// neither retriever dominates on a single strong hit.
+const RRF_K = 60;
+
+const log = (step: string, data?: object) => {
+  console.log(`[RETRIEVAL] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+interface Candidate {
+  source: SourceContext;
+  fused: number;
+  dense?: number;
+  lexical?: number;
+}
+
+export async function hybridRetrieve(
+  query: string,
+  sessionId: string,
+  options: RetrievalOptions = {},
+): Promise<SourceContext[]> {
+  const {
+    topK = 30,
+    candidates = 30,
+    denseQuery = query,
+    backend = defaultBackend,
+    lexicalIndex = backend.loadLexicalIndex(sessionId),
+  } = options;
+
+  const [dense, lexical] = await Promise.all([
+    backend
+      .embed(denseQuery)
+      .then((embedding) => backend.queryVectors(embedding, sessionId, candidates))
+      .catch((error) => {
+        log("Dense retrieval failed", { error: String(error).substring(0, 150) });
+        return [];
+      }),
+    lexicalIndex
+      .then((index) => searchLexicalIndex(index, query, candidates))
+      .catch((error) => {
+        log("Lexical retrieval failed", { error: String(error).substring(0, 150) });
+        return [];
+      }),
+  ]);
+
+  const fused = new Map<string, Candidate>();
+  const candidateFor = (id: string, source: SourceContext) => {
+    let candidate = fused.get(id);
+    if (!candidate) {
+      candidate = { source, fused: 0 };
+      fused.set(id, candidate);
+    }
+    return candidate;
+  };
+
+  dense.forEach((match, rank) => {
+    const metadata = (match.metadata || {}) as Record<string, any>;
+    const boundingBox = decodeBoundingBox(metadata.boundingBox);
+    const candidate = candidateFor(match.id, {
+      filename: metadata.filename || "Unknown",
+      pageNumber: metadata.pageNumber || 1,
+      excerpt: (metadata.content || metadata.text || "").substring(0, 4000),
+      relevanceScore: 0,
+      chunkIndex: metadata.chunkIndex,
+      chunkId: match.id,
+      ...(metadata.section ? { section: String(metadata.section) } : {}),
+      ...(boundingBox ? { boundingBox } : {}),
+    });
+    candidate.dense = match.score || 0;
+    candidate.fused += 1 / (RRF_K + rank + 1);
+  });
+
+  lexical.forEach(({ entry, score }, rank) => {
+    const boundingBox = decodeBoundingBox(entry.boundingBox);
+    const candidate = candidateFor(entry.id, {
+      filename: entry.filename,
+      pageNumber: entry.pageNumber,
+      excerpt: entry.content.substring(0, 4000),
+      relevanceScore: 0,
+      chunkId: entry.id,
+      ...(entry.section ? { section: entry.section } : {}),
+      ...(boundingBox ? { boundingBox } : {}),
+    });
+    candidate.lexical = score;
+    candidate.fused += 1 / (RRF_K + rank + 1);
+  });
+
+  const ranked = [...fused.values()].sort((a, b) => b.fused - a.fused);
+  const top = ranked[0]?.fused || 1;
+
+  log("Fused results", {
+    dense: dense.length,
+    lexical: lexical.length,
+    fused: ranked.length,
+    both: ranked.filter((c) => c.dense !== undefined && c.lexical !== undefined)
+      .length,
+  });
+
+  return ranked.slice(0, topK).map((c) => ({
+    ...c.source,
+    relevanceScore: c.fused / top,
+    retrievalScores: {
+      fused: c.fused,
+      ...(c.dense !== undefined ? { dense: c.dense } : {}),
+      ...(c.lexical !== undefined ? { lexical: c.lexical } : {}),
+    },
+  }));
+}
+
+// Runs each plan through hybridRetrieve and fuses the ranked lists again with
+// RRF, so a chunk found by several sub-queries rises above one-off hits.
+// The lexical index is loaded once and shared by every plan.
+export async function multiRetrieve(
+  plans: RetrievalPlan[],
+  sessionId: string,
+  options: Omit<RetrievalOptions, "denseQuery" | "lexicalIndex"> = {},
+): Promise<SourceContext[]> {
+  const { topK = 30, backend = defaultBackend } = options;
+  const lexicalIndex = backend.loadLexicalIndex(sessionId);
+  // Each plan handles a failed load itself; this keeps the shared promise
+  // from being reported as unhandled before they attach.
+  lexicalIndex.catch(() => {});
+
+  if (plans.length === 1) {
+    return hybridRetrieve(plans[0].query, sessionId, {
+      ...options,
+      denseQuery: plans[0].denseQuery,
+      lexicalIndex,
+    });
+  }
+
+  const lists = await Promise.all(
+    plans.map((plan) =>
+      hybridRetrieve(plan.query, sessionId, {
+        ...options,
+        denseQuery: plan.denseQuery,
+        lexicalIndex,
+      }),
+    ),
+  );
+
+  const fused = new Map<string, { source: SourceContext; score: number }>();
+  for (const list of lists) {
+    list.forEach((source, rank) => {
+      const key =
+        source.chunkId ||
+        `${source.filename}:${source.pageNumber}:${source.excerpt.substring(0, 80)}`;
+      const existing = fused.get(key);
+      const contribution = 1 / (RRF_K + rank + 1);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(key, { source, score: contribution });
+      }
+    });
+  }
+
+  const ranked = [...fused.values()].sort((a, b) => b.score - a.score);
+  const top = ranked[0]?.score || 1;
+  log("Multi-query fusion", {
+    queries: plans.length,
+    fused: ranked.length,
+  });
+
+  return ranked.slice(0, topK).map(({ source, score }) => ({
+    ...source,
+    relevanceScore: score / top,
+    retrievalScores: { ...source.retrievalScores, fused: score },
+  }));
+}
+
+export interface ContextOptions {
+  history?: ChatMessage[];
+  topK?: number;
+  candidates?: number;
+  rewrite?: boolean;
+  modelRerank?: boolean;
+  backend?: RetrievalBackend;
+  onStatus?: (message: string) => void;
+}
+
+// The chat's retrieval path: rewrite against the conversation, fan out,
+// fuse, then rerank down to the excerpts the answer is generated from.
+export async function retrieveContext(
+  message: string,
+  sessionId: string,
+  options: ContextOptions = {},
+): Promise<{ sources: SourceContext[]; rewritten: RewrittenQuery }> {
+  const {
+    history = [],
+    topK = 15,
+    candidates = 30,
+    rewrite = true,
+    modelRerank = true,
+    backend,
+    onStatus,
+  } = options;
+
+  let rewritten: RewrittenQuery = { standalone: message, subQueries: [] };
+  if (rewrite) {
+    onStatus?.("Rewriting query...");
+    rewritten = await rewriteQuery(message, history);
+  }
+
+  onStatus?.("Searching documents...");
+  const fused = await multiRetrieve(toRetrievalPlans(rewritten), sessionId, {
+    topK: candidates,
+    backend,
+  });
+
+  onStatus?.("Ranking excerpts...");
+  const sources = await rerankSources(rewritten.standalone, fused, {
+    topK,
+    useModel: modelRerank,
+  });
+
+  return { sources, rewritten };
+}
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  analyzePortfolio,
+  calculateMonteCarloVaR,
+  MAX_HORIZON_DAYS,
+  MAX_PORTFOLIO_SYMBOLS,
+} from "./risk-analyzer";
+
+// Deterministic daily returns with a shared market factor so the covariance
+// matrix is dense.
+function syntheticReturns(symbols: number, days: number): Record<string, number[]> {
+  const market = Array.from({ length: days }, (_, t) => 0.01 * Math.sin(t * 0.7));
+  return Object.fromEntries(
+    Array.from({ length: symbols }, (_, i) => [
+      `SYM${i}`,
+      market.map((m, t) => 0.0002 + m + 0.004 * Math.cos(t * (i + 1.3))),
+    ]),
+  );
+}
+
+test("analyzePortfolio: the largest allowed request finishes well inside maxDuration", () => {
+  const returns = syntheticReturns(MAX_PORTFOLIO_SYMBOLS, 500);
+  const holdings = Object.keys(returns).map((symbol) => ({ symbol, weight: 1 }));
+
+  const started = Date.now();
+  const result = analyzePortfolio(returns, holdings, { horizonDays: MAX_HORIZON_DAYS });
+  const elapsed = Date.now() - started;
+
+  assert.equal(result.horizonDays, MAX_HORIZON_DAYS);
+  assert.ok(result.var.monteCarlo > 0);
+  // The portfolio route allows 30 s; leave room for parsing and a slow host.
+  assert.ok(elapsed < 10_000, `took ${elapsed} ms`);
+});
+
+test("calculateMonteCarloVaR: longer horizons scale by the square root of time", () => {
+  const returns = syntheticReturns(3, 250);
+  const series = Object.values(returns);
+  const weights = [0.5, 0.3, 0.2];
+
+  const oneDay = calculateMonteCarloVaR(series, weights, 0.95, 1_000_000, 1);
+  const quarter = calculateMonteCarloVaR(series, weights, 0.95, 1_000_000, 64);
+  assert.ok(Math.abs(quarter - oneDay * 8) < 1e-6);
+});
+
+test("analyzePortfolio: rejects more symbols than the cap", () => {
+  const returns = syntheticReturns(MAX_PORTFOLIO_SYMBOLS + 1, 20);
+  assert.throws(
+    () => analyzePortfolio(returns, []),
+    /At most 50 symbols/,
+  );
+});
@@ -1,4 +1,10 @@
-import { getSessionGraph, queryRiskContagion, Entity, Relationship } from "./neo4j";
+import {
+  getSessionGraph,
+  queryContagionNetwork,
+  ContagionNetworkEdge,
+  Entity,
+  Relationship,
+} from "./neo4j";
 
 export interface RiskNode {
   id: string;
@@ -32,12 +38,16 @@ export interface RiskAnalysis {
 
 export interface ContagionSimulation {
   sourceEntity: string;
+  shockMagnitude: number;
   affectedEntities: Array<{
     name: string;
     impactLevel: number;
     hops: number;
+    exposureInr: number;
   }>;
   totalExposure: number;
+  debtRank: number;
+  rounds: number;
   systemicRisk: boolean;
 }
 
@@ -78,6 +88,355 @@ export function calculateSharpeRatio(
   return stdDev > 0 ? (avgReturn - riskFreeRate / 252) / stdDev : 0;
 }
 
+export interface PortfolioHolding {
+  symbol: string;
+  quantity?: number;
+  price?: number;
+  value?: number;
+  weight?: number;
+}
+
+export interface PortfolioAnalytics {
+  symbols: string[];
+  weights: number[];
+  observations: number;
+  portfolioValue: number;
+  confidence: number;
+  horizonDays: number;
+  meanReturn: number;
+  volatility: number;
+  var: {
+    historical: number;
+    parametric: number;
+    monteCarlo: number;
+  };
+  expectedShortfall: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  correlation: number[][];
+  portfolioReturns: number[];
+  drawdownSeries: number[];
+}
+
+const TRADING_DAYS = 252;
+const MONTE_CARLO_PATHS = 10000;
+// Monte Carlo simulates a single day and scales by sqrt(horizon), so its cost
+// is paths x symbols^2 whatever the horizon: about 12.5M multiply-adds at the
+// symbol cap, well inside the route's maxDuration.
+export const MAX_HORIZON_DAYS = 250;
+export const MAX_PORTFOLIO_SYMBOLS = 50;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// Acklam's rational approximation of the standard normal quantile.
+export function inverseNormalCDF(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error("Probability must be in (0, 1)");
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function calculateParametricVaR(
+  returns: number[],
+  confidence: number = 0.95,
+  portfolioValue: number = 1000000,
+  horizonDays: number = 1
+): number {
+  const z = inverseNormalCDF(confidence);
+  const mu = mean(returns) * horizonDays;
+  const sigma = standardDeviation(returns) * Math.sqrt(horizonDays);
+  return Math.max(0, (z * sigma - mu) * portfolioValue);
+}
+
+export function calculateExpectedShortfall(
+  returns: number[],
+  confidence: number = 0.95,
+  portfolioValue: number = 1000000
+): number {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tailSize = Math.max(1, Math.floor((1 - confidence) * sorted.length));
+  const tailMean = mean(sorted.slice(0, tailSize));
+  return Math.abs(Math.min(0, tailMean) * portfolioValue);
+}
+
+export function calculateSortinoRatio(
+  returns: number[],
+  riskFreeRate: number = 0.06
+): number {
+  const target = riskFreeRate / TRADING_DAYS;
+  const downside = returns.map(r => Math.min(0, r - target));
+  const downsideDeviation = Math.sqrt(
+    downside.reduce((sum, d) => sum + d * d, 0) / Math.max(1, returns.length)
+  );
+  return downsideDeviation > 0 ? (mean(returns) - target) / downsideDeviation : 0;
+}
+
+export function calculateDrawdownSeries(returns: number[]): number[] {
+  let wealth = 1;
+  let peak = 1;
+  return returns.map(r => {
+    wealth *= 1 + r;
+    peak = Math.max(peak, wealth);
+    return wealth / peak - 1;
+  });
+}
+
+export function calculateMaxDrawdown(returns: number[]): number {
+  return Math.abs(Math.min(0, ...calculateDrawdownSeries(returns)));
+}
+
+export function calculateCorrelationMatrix(series: number[][]): number[][] {
+  const means = series.map(mean);
+  const deviations = series.map((s, i) => s.map(v => v - means[i]));
+  const norms = deviations.map(d => Math.sqrt(d.reduce((sum, v) => sum + v * v, 0)));
+
+  return deviations.map((di, i) =>
+    deviations.map((dj, j) => {
+      if (i === j) return 1;
+      if (norms[i] === 0 || norms[j] === 0) return 0;
+      const dot = di.reduce((sum, v, k) => sum + v * dj[k], 0);
+      return dot / (norms[i] * norms[j]);
+    })
+  );
+}
+
+function covarianceMatrix(series: number[][]): number[][] {
+  const means = series.map(mean);
+  const n = series[0]?.length || 0;
+  return series.map((si, i) =>
+    series.map((sj, j) => {
+      let sum = 0;
+      for (let k = 0; k < n; k++) sum += (si[k] - means[i]) * (sj[k] - means[j]);
+      return n > 1 ? sum / (n - 1) : 0;
+    })
+  );
+}
+
+function choleskyDecomposition(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = 0;
+      for (let k = 0; k < j; k++) sum += lower[i][k] * lower[j][k];
+      if (i === j) {
+        // Clamp tiny negative pivots from near-singular sample covariances.
+        lower[i][j] = Math.sqrt(Math.max(0, matrix[i][i] - sum));
+      } else {
+        lower[i][j] = lower[j][j] > 0 ? (matrix[i][j] - sum) / lower[j][j] : 0;
+      }
+    }
+  }
+  return lower;
+}
+
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function calculateMonteCarloVaR(
+  series: number[][],
+  weights: number[],
+  confidence: number = 0.95,
+  portfolioValue: number = 1000000,
+  horizonDays: number = 1,
+  paths: number = MONTE_CARLO_PATHS,
+  seed: number = 42
+): number {
+  const means = series.map(mean);
+  const lower = choleskyDecomposition(covarianceMatrix(series));
+  const random = seededRandom(seed);
+  const normal = () => {
+    const u = Math.max(random(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const simulated: number[] = [];
+  const z = new Array<number>(series.length);
+  for (let p = 0; p < paths; p++) {
+    for (let i = 0; i < series.length; i++) z[i] = normal();
+    let dayReturn = 0;
+    for (let i = 0; i < series.length; i++) {
+      let shock = 0;
+      for (let k = 0; k <= i; k++) shock += lower[i][k] * z[k];
+      dayReturn += weights[i] * (means[i] + shock);
+    }
+    simulated.push(dayReturn);
+  }
+
+  // Same square-root-of-time scaling as the historical VaR.
+  return calculateVaR(simulated, confidence, portfolioValue).var * Math.sqrt(horizonDays);
+}
+
+function resolveWeights(symbols: string[], holdings: PortfolioHolding[]): number[] {
+  const bySymbol = new Map(holdings.map(h => [h.symbol.toUpperCase(), h]));
+  const raw = symbols.map(symbol => {
+    const h = bySymbol.get(symbol.toUpperCase());
+    if (!h) return 0;
+    if (h.weight !== undefined) return h.weight;
+    if (h.value !== undefined) return h.value;
+    if (h.quantity !== undefined && h.price !== undefined) return h.quantity * h.price;
+    return 0;
+  });
+
+  const total = raw.reduce((a, b) => a + Math.abs(b), 0);
+  if (total === 0) return symbols.map(() => 1 / symbols.length);
+  return raw.map(w => w / total);
+}
+
+export function analyzePortfolio(
+  returnsBySymbol: Record<string, number[]>,
+  holdings: PortfolioHolding[],
+  options: {
+    confidence?: number;
+    portfolioValue?: number;
+    riskFreeRate?: number;
+    horizonDays?: number;
+  } = {}
+): PortfolioAnalytics {
+  const { confidence = 0.95, riskFreeRate = 0.06 } = options;
+  const horizonDays = Math.min(MAX_HORIZON_DAYS, Math.max(1, Math.round(options.horizonDays ?? 1)));
+
+  const symbols = Object.keys(returnsBySymbol).filter(s => returnsBySymbol[s].length > 1);
+  if (symbols.length === 0) {
+    throw new Error("At least one return series with two or more observations is required");
+  }
+  if (symbols.length > MAX_PORTFOLIO_SYMBOLS) {
+    throw new Error(`At most ${MAX_PORTFOLIO_SYMBOLS} symbols can be analyzed at once`);
+  }
+
+  // Align on the most recent common window.
+  const observations = Math.min(...symbols.map(s => returnsBySymbol[s].length));
+  const series = symbols.map(s => returnsBySymbol[s].slice(-observations));
+  const weights = resolveWeights(symbols, holdings);
+
+  const holdingsValue = holdings.reduce(
+    (sum, h) => sum + (h.value ?? (h.quantity !== undefined && h.price !== undefined ? h.quantity * h.price : 0)),
+    0
+  );
+  const portfolioValue = options.portfolioValue ?? (holdingsValue > 0 ? holdingsValue : 1000000);
+
+  const portfolioReturns = Array.from({ length: observations }, (_, t) =>
+    series.reduce((sum, s, i) => sum + weights[i] * s[t], 0)
+  );
+
+  const historical = calculateVaR(portfolioReturns, confidence, portfolioValue).var * Math.sqrt(horizonDays);
+
+  return {
+    symbols,
+    weights,
+    observations,
+    portfolioValue,
+    confidence,
+    horizonDays,
+    meanReturn: mean(portfolioReturns),
+    volatility: standardDeviation(portfolioReturns),
+    var: {
+      historical,
+      parametric: calculateParametricVaR(portfolioReturns, confidence, portfolioValue, horizonDays),
+      monteCarlo: calculateMonteCarloVaR(series, weights, confidence, portfolioValue, horizonDays),
+    },
+    expectedShortfall: calculateExpectedShortfall(portfolioReturns, confidence, portfolioValue) * Math.sqrt(horizonDays),
+    sharpeRatio: calculateSharpeRatio(portfolioReturns, riskFreeRate) * Math.sqrt(TRADING_DAYS),
+    sortinoRatio: calculateSortinoRatio(portfolioReturns, riskFreeRate) * Math.sqrt(TRADING_DAYS),
+    maxDrawdown: calculateMaxDrawdown(portfolioReturns),
+    correlation: calculateCorrelationMatrix(series),
+    portfolioReturns,
+    drawdownSeries: calculateDrawdownSeries(portfolioReturns),
+  };
+}
+
+const TABLE_CELLS = /^\s*\|(.*)\|\s*$/;
+const TABLE_SEPARATOR_ROW = /^\s*\|?[\s:|-]*-{3,}[\s:|-]*$/;
+
+// Rewrites markdown tables as "label: value (header)" lines so the ratio
+// patterns, which expect a label followed by its value, also read tables.
+// Each data row becomes a line keyed by its first cell, and each column one
+// keyed by its header, covering metrics laid out either way.
+export function flattenMarkdownTables(text: string): string {
+  const out: string[] = [];
+  let table: string[][] = [];
+
+  const flush = () => {
+    const [header, ...rows] = table;
+    table = [];
+    if (!header || !rows.length) {
+      if (header) out.push(header.join(" "));
+      return;
+    }
+    for (const row of rows) {
+      const values = row
+        .slice(1)
+        .map((value, i) => (value ? `${value} (${header[i + 1] || ""})` : ""))
+        .filter(Boolean);
+      if (row[0] && values.length) out.push(`${row[0]}: ${values.join(", ")}`);
+    }
+    header.slice(1).forEach((name, i) => {
+      const values = rows
+        .map((row) => (row[i + 1] ? `${row[i + 1]} (${row[0]})` : ""))
+        .filter(Boolean);
+      if (name && values.length) out.push(`${name}: ${values.join(", ")}`);
+    });
+  };
+
+  for (const line of text.split("\n")) {
+    const cells = line.match(TABLE_CELLS);
+    if (cells) {
+      if (!TABLE_SEPARATOR_ROW.test(line)) {
+        // Escaped pipes (\|) are cell content, not boundaries.
+        table.push(
+          cells[1]
+            .replace(/\\\|/g, "\u0000")
+            .split("|")
+            .map((c) => c.replace(/\u0000/g, "|").trim()),
+        );
+      }
+      continue;
+    }
+    if (table.length) flush();
+    out.push(line);
+  }
+  if (table.length) flush();
+  return out.join("\n");
+}
+
 export function extractFinancialMetrics(text: string): {
   amounts: Array<{ value: number; currency: string; context: string }>;
   percentages: Array<{ value: number; context: string }>;
@@ -128,8 +487,9 @@ export function extractFinancialMetrics(text: string): {
     { name: "NNPA", regex: /NNPA\s*[:\-]?\s*([\d.]+)%?/i },
   ];
 
+  const flattened = flattenMarkdownTables(text);
   for (const { name, regex } of ratioPatterns) {
-    const match = text.match(regex);
+    const match = flattened.match(regex);
     if (match) {
       ratios.push({ name, value: parseFloat(match[1]) });
     }
@@ -138,44 +498,256 @@ export function extractFinancialMetrics(text: string): {
   return { amounts, percentages, ratios };
 }
 
+// Share of a counterparty's distress passed along an edge a -[TYPE]-> b.
+// "upstream" is b's distress hitting a (e.g. a borrower defaulting on its
+// lender), "downstream" is a's distress hitting b. Only claim-bearing edges
+// carry a rupee exposure.
+const RELATIONSHIP_WEIGHTS: Record<
+  string,
+  { upstream: number; downstream: number; claim: boolean }
+> = {
+  LENDS_TO: { upstream: 0.9, downstream: 0.2, claim: true },
+  HAS_EXPOSURE: { upstream: 0.9, downstream: 0.2, claim: true },
+  GUARANTEES: { upstream: 0.8, downstream: 0.1, claim: true },
+  OWNS: { upstream: 0.6, downstream: 0.3, claim: true },
+  GOVERNED_BY: { upstream: 0.05, downstream: 0.05, claim: false },
+  SUBJECT_TO: { upstream: 0.05, downstream: 0.05, claim: false },
+  CONTAINS: { upstream: 0.02, downstream: 0.02, claim: false },
+};
+
+const DEFAULT_RELATIONSHIP_WEIGHT = { upstream: 0.15, downstream: 0.15, claim: false };
+
+const NON_PROPAGATING_TYPES = new Set(["Amount", "amount", "Date", "date"]);
+
+interface ImpactLink {
+  from: string;
+  to: string;
+  weight: number;
+  amount?: number;
+}
+
+function buildImpactLinks(edges: ContagionNetworkEdge[]): ImpactLink[] {
+  const amountNodes = new Map<string, number>();
+  for (const edge of edges) {
+    if (edge.type !== "EXPOSURE_AMOUNT") continue;
+    const counterparty = edge.properties.counterparty as string | undefined;
+    const value = Number(edge.properties.value);
+    if (counterparty && Number.isFinite(value)) {
+      amountNodes.set(`${edge.from}->${counterparty}`, value);
+    }
+  }
+
+  const links: ImpactLink[] = [];
+  for (const edge of edges) {
+    if (NON_PROPAGATING_TYPES.has(edge.fromType) || NON_PROPAGATING_TYPES.has(edge.toType)) {
+      continue;
+    }
+
+    const weights = RELATIONSHIP_WEIGHTS[edge.type] || DEFAULT_RELATIONSHIP_WEIGHT;
+    const rawAmount = Number(edge.properties.amount);
+    const amount = Number.isFinite(rawAmount) && rawAmount > 0
+      ? rawAmount
+      : amountNodes.get(`${edge.from}->${edge.to}`);
+
+    const stake = Number(edge.properties.stake);
+    const upstream = edge.type === "OWNS" && Number.isFinite(stake) && stake > 0
+      ? Math.min(1, stake)
+      : weights.upstream;
+
+    links.push({
+      from: edge.to,
+      to: edge.from,
+      weight: upstream,
+      amount: weights.claim ? amount : undefined,
+    });
+    links.push({ from: edge.from, to: edge.to, weight: weights.downstream });
+  }
+
+  // A creditor's loss from one counterparty is scaled by that counterparty's
+  // share of the creditor's total rupee claims in the graph.
+  const claimsByCreditor = new Map<string, number>();
+  for (const link of links) {
+    if (link.amount) {
+      claimsByCreditor.set(link.to, (claimsByCreditor.get(link.to) || 0) + link.amount);
+    }
+  }
+  for (const link of links) {
+    const totalClaims = claimsByCreditor.get(link.to);
+    if (link.amount && totalClaims) {
+      link.weight *= link.amount / totalClaims;
+    }
+  }
+
+  return links;
+}
+
+function computeHops(links: ImpactLink[], source: string): Map<string, number> {
+  const neighbours = new Map<string, Set<string>>();
+  for (const link of links) {
+    if (!neighbours.has(link.from)) neighbours.set(link.from, new Set());
+    neighbours.get(link.from)!.add(link.to);
+  }
+
+  const hops = new Map<string, number>([[source, 0]]);
+  const queue = [source];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of neighbours.get(current) || []) {
+      if (!hops.has(next)) {
+        hops.set(next, hops.get(current)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+  return hops;
+}
+
 export async function simulateRiskContagion(
   sessionId: string,
   sourceEntity: string,
-  shockMagnitude: number = 0.1
+  shockMagnitude: number = 0.1,
+  maxDepth: number = 3
 ): Promise<ContagionSimulation> {
-  const paths = await queryRiskContagion(sessionId, sourceEntity, 3);
-  
-  const affectedEntities: Array<{ name: string; impactLevel: number; hops: number }> = [];
-  const seen = new Set<string>();
-
-  for (const path of paths) {
-    for (let i = 1; i < path.path.length; i++) {
-      const entity = path.path[i];
-      if (!seen.has(entity) && entity !== sourceEntity) {
-        seen.add(entity);
-        const decay = Math.pow(0.6, i);
-        affectedEntities.push({
-          name: entity,
-          impactLevel: shockMagnitude * decay,
-          hops: i,
-        });
+  const edges = await queryContagionNetwork(sessionId, sourceEntity, maxDepth);
+  const links = buildImpactLinks(edges);
+
+  const incoming = new Map<string, ImpactLink[]>();
+  for (const link of links) {
+    if (!incoming.has(link.to)) incoming.set(link.to, []);
+    incoming.get(link.to)!.push(link);
+  }
+
+  // DebtRank: each entity propagates its distress exactly once, in the round
+  // after it first becomes distressed, so cycles cannot amplify the shock.
+  const distress = new Map<string, number>([[sourceEntity, Math.min(1, shockMagnitude)]]);
+  const inactive = new Set<string>();
+  let active = new Set<string>([sourceEntity]);
+  let rounds = 0;
+
+  while (active.size > 0 && rounds < maxDepth + 2) {
+    rounds++;
+    const next = new Map(distress);
+
+    for (const [node, links] of incoming) {
+      if (inactive.has(node) || active.has(node)) continue;
+      let added = 0;
+      for (const link of links) {
+        if (active.has(link.from)) {
+          added += link.weight * (distress.get(link.from) || 0);
+        }
+      }
+      if (added > 0) {
+        next.set(node, Math.min(1, (distress.get(node) || 0) + added));
       }
     }
+
+    for (const node of active) inactive.add(node);
+    active = new Set(
+      [...next.keys()].filter(
+        (node) => !inactive.has(node) && (next.get(node) || 0) > (distress.get(node) || 0)
+      )
+    );
+    for (const [node, value] of next) distress.set(node, value);
   }
 
-  affectedEntities.sort((a, b) => b.impactLevel - a.impactLevel);
+  const hops = computeHops(links, sourceEntity);
 
-  const totalExposure = affectedEntities.reduce((sum, e) => sum + e.impactLevel, 0);
-  const systemicRisk = affectedEntities.length > 5 || totalExposure > 0.3;
+  const affectedEntities: ContagionSimulation["affectedEntities"] = [];
+  for (const [name, impactLevel] of distress) {
+    if (name === sourceEntity || impactLevel <= 0) continue;
+
+    const exposureInr = (incoming.get(name) || []).reduce(
+      (sum, link) => sum + (link.amount || 0) * (distress.get(link.from) || 0),
+      0
+    );
+
+    affectedEntities.push({
+      name,
+      impactLevel,
+      hops: hops.get(name) || 1,
+      exposureInr,
+    });
+  }
+
+  affectedEntities.sort(
+    (a, b) => b.exposureInr - a.exposureInr || b.impactLevel - a.impactLevel
+  );
+
+  const totalExposure = affectedEntities.reduce((sum, e) => sum + e.exposureInr, 0);
+  const debtRank = affectedEntities.reduce((sum, e) => sum + e.impactLevel, 0);
+  const systemicRisk =
+    affectedEntities.filter(e => e.impactLevel >= 0.05).length > 5 || debtRank > 0.3;
 
   return {
     sourceEntity,
-    affectedEntities: affectedEntities.slice(0, 10),
+    shockMagnitude,
+    affectedEntities: affectedEntities.slice(0, 25),
     totalExposure,
+    debtRank,
+    rounds,
     systemicRisk,
   };
 }
 
+const CONTAGION_TRIGGERS: Array<{ regex: RegExp; shock: number }> = [
+  {
+    regex: /what\s+(?:if|happens\s+if|would\s+happen\s+if)\s+(.+?)\s+(?:defaults?|collapses?|fails?|goes\s+bankrupt|becomes\s+insolvent)\b/i,
+    shock: 1.0,
+  },
+  {
+    regex: /what\s+(?:if|happens\s+if)\s+(.+?)\s+(?:is|gets)\s+(?:downgraded|stressed|shocked)\b/i,
+    shock: 0.3,
+  },
+  {
+    regex: /(?:simulate|model)\s+(?:a\s+)?(?:default|contagion|shock)\s+(?:of|at|from|for)\s+(.+?)(?:[?.!,]|$)/i,
+    shock: 1.0,
+  },
+];
+
+// A percentage only sets the shock when it is tied to a shock word, so a
+// "12% NPA ratio" or "7.5% yield" elsewhere in the message is ignored.
+const SHOCK_PATTERNS = [
+  /(\d+(?:\.\d+)?)\s*%\s*(?:shock|loss|haircut|default|write-?down)\b/i,
+  /(?:shock|loss|haircut|write-?down)\s+(?:of\s+)?(\d+(?:\.\d+)?)\s*%/i,
+];
+
+export function detectContagionScenario(
+  message: string
+): { sourceEntity: string; shockMagnitude: number } | null {
+  for (const { regex, shock } of CONTAGION_TRIGGERS) {
+    const match = message.match(regex);
+    if (!match) continue;
+
+    const sourceEntity = match[1].replace(/^(?:the|a|an)\s+/i, "").trim();
+    if (sourceEntity.length < 2) continue;
+
+    const percentMatch = SHOCK_PATTERNS.map((p) => message.match(p)).find(Boolean);
+    const shockMagnitude = percentMatch
+      ? Math.min(1, parseFloat(percentMatch[1]) / 100)
+      : shock;
+
+    return { sourceEntity, shockMagnitude };
+  }
+
+  return null;
+}
+
+export async function resolveGraphEntity(
+  sessionId: string,
+  name: string
+): Promise<string | null> {
+  const graph = await getSessionGraph(sessionId);
+  const target = name.toLowerCase();
+
+  const exact = graph.nodes.find(n => n.id?.toLowerCase() === target);
+  if (exact) return exact.id;
+
+  const partial = graph.nodes.find(
+    n => n.id && (n.id.toLowerCase().includes(target) || target.includes(n.id.toLowerCase()))
+  );
+  return partial?.id || null;
+}
+
 export function generateRiskReport(
   metrics: ReturnType<typeof extractFinancialMetrics>,
   entities: Entity[]
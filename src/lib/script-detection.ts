@@ -0,0 +1,105 @@
+// Unicode-block script detection for choosing an OCR engine and its
+// language data. Shared by the server and the browser OCR path.
+export type Script =
+  | "latin"
+  | "devanagari"
+  | "bengali"
+  | "gurmukhi"
+  | "gujarati"
+  | "oriya"
+  | "tamil"
+  | "telugu"
+  | "kannada"
+  | "malayalam";
+
+const INDIC_BLOCKS: Array<[Script, number, number]> = [
+  ["devanagari", 0x0900, 0x097f],
+  ["bengali", 0x0980, 0x09ff],
+  ["gurmukhi", 0x0a00, 0x0a7f],
+  ["gujarati", 0x0a80, 0x0aff],
+  ["oriya", 0x0b00, 0x0b7f],
+  ["tamil", 0x0b80, 0x0bff],
+  ["telugu", 0x0c00, 0x0c7f],
+  ["kannada", 0x0c80, 0x0cff],
+  ["malayalam", 0x0d00, 0x0d7f],
+];
+
+// Tesseract traineddata per script. Marathi shares Devanagari with Hindi,
+// and English is always added for the figures and terms mixed into Indic
+// financial documents.
+const TESSERACT_LANGUAGES: Record<Script, string[]> = {
+  latin: ["eng"],
+  devanagari: ["hin", "mar"],
+  bengali: ["ben"],
+  gurmukhi: ["pan"],
+  gujarati: ["guj"],
+  oriya: ["ori"],
+  tamil: ["tam"],
+  telugu: ["tel"],
+  kannada: ["kan"],
+  malayalam: ["mal"],
+};
+
+const LANGUAGE_HINTS: Record<Script, string[]> = {
+  latin: ["en"],
+  devanagari: ["hi", "mr"],
+  bengali: ["bn"],
+  gurmukhi: ["pa"],
+  gujarati: ["gu"],
+  oriya: ["or"],
+  tamil: ["ta"],
+  telugu: ["te"],
+  kannada: ["kn"],
+  malayalam: ["ml"],
+};
+
+// Script names as reported by Tesseract's orientation and script detection.
+const OSD_SCRIPTS: Record<string, Script> = {
+  Latin: "latin",
+  Devanagari: "devanagari",
+  Bengali: "bengali",
+  Gurmukhi: "gurmukhi",
+  Gujarati: "gujarati",
+  Oriya: "oriya",
+  Tamil: "tamil",
+  Telugu: "telugu",
+  Kannada: "kannada",
+  Malayalam: "malayalam",
+};
+
+// Scripts making up at least minShare of the letters, most common first.
+export function detectScripts(text: string, minShare = 0.1): Script[] {
+  const counts = new Map<Script, number>();
+  let letters = 0;
+
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    let script: Script | undefined;
+    if (/[A-Za-z]/.test(ch)) script = "latin";
+    else script = INDIC_BLOCKS.find(([, lo, hi]) => code >= lo && code <= hi)?.[0];
+    if (!script) continue;
+    counts.set(script, (counts.get(script) || 0) + 1);
+    letters++;
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count / (letters || 1) >= minShare)
+    .sort((a, b) => b[1] - a[1])
+    .map(([script]) => script);
+}
+
+export function isIndic(script: Script): boolean {
+  return script !== "latin";
+}
+
+export function scriptFromOsd(name: string | null | undefined): Script | null {
+  return (name && OSD_SCRIPTS[name]) || null;
+}
+
+export function tesseractLanguages(scripts: Script[]): string[] {
+  return [...new Set([...scripts.flatMap((s) => TESSERACT_LANGUAGES[s]), "eng"])];
+}
+
+export function languageHints(scripts: Script[]): string[] {
+  return [...new Set([...scripts.flatMap((s) => LANGUAGE_HINTS[s]), "en"])];
+}
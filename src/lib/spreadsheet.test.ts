@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { strToU8, zipSync } from "fflate";
+import { parseCsv, parseSpreadsheet } from "./spreadsheet";
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const REL_NS =
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// A cell value: strings go inline, numbers take an optional style index.
+type Cell = string | number | [number, number];
+
+function sheetXml(rows: Record<number, Cell[]>): string {
+  const body = Object.entries(rows)
+    .map(([r, cells]) => {
+      const xml = cells
+        .map((cell, c) => {
+          const ref = `${String.fromCharCode(65 + c)}${r}`;
+          if (typeof cell === "string") {
+            return `<c r="${ref}" t="inlineStr"><is><t>${cell}</t></is></c>`;
+          }
+          const [value, style] = typeof cell === "number" ? [cell, 0] : cell;
+          return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+        })
+        .join("");
+      return `<row r="${r}">${xml}</row>`;
+    })
+    .join("");
+  return `<worksheet ${NS}><sheetData>${body}</sheetData></worksheet>`;
+}
+
+function buildXlsx(sheets: Array<{ name: string; rows: Record<number, Cell[]> }>): Uint8Array {
+  const files: Record<string, Uint8Array> = {
+    "xl/workbook.xml": strToU8(
+      `<workbook ${NS} ${REL_NS}><sheets>${sheets
+        .map((s, i) => `<sheet name="${s.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+        .join("")}</sheets></workbook>`,
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+        .map((_, i) => `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`)
+        .join("")}</Relationships>`,
+    ),
+    // Style 1 is a date, style 2 a percentage.
+    "xl/styles.xml": strToU8(
+      `<styleSheet ${NS}><cellXfs><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="10"/></cellXfs></styleSheet>`,
+    ),
+  };
+  sheets.forEach((s, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(s.rows));
+  });
+  return zipSync(files);
+}
+
+test("parseCsv: quoted fields keep delimiters, newlines and escaped quotes", () => {
+  const csv = 'Borrower,Note,Exposure\r\n"Tata Steel, Ltd","said ""stable""\nin Q3",1200\n';
+
+  assert.deepEqual(parseCsv(csv), [
+    ["Borrower", "Note", "Exposure"],
+    ["Tata Steel, Ltd", 'said "stable"\nin Q3', "1200"],
+  ]);
+  assert.deepEqual(parseCsv("a;b\n1,5;2"), [["a", "b"], ["1,5", "2"]]);
+});
+
+test("parseSpreadsheet: ranges carry their sheet, cell range and formatted values", () => {
+  const xlsx = buildXlsx([
+    { name: "Summary", rows: { 1: ["Total", 42] } },
+    {
+      name: "NPA",
+      rows: {
+        2: ["Asset quality by quarter"],
+        3: ["Quarter", "Date", "GNPA"],
+        4: ["Q1", [45382, 1], [0.031, 2]],
+        5: ["Q2", [45473, 1], [0.028, 2]],
+      },
+    },
+  ]);
+
+  const parsed = parseSpreadsheet(xlsx, "asset-quality.xlsx");
+  assert.equal(parsed.sheetCount, 2);
+
+  const npa = parsed.ranges.find((r) => r.sheetName === "NPA")!;
+  assert.equal(npa.sheetIndex, 2);
+  assert.equal(npa.range, "A2:C5");
+  assert.equal(npa.caption, "Asset quality by quarter");
+  assert.deepEqual(npa.header, ["Quarter", "Date", "GNPA"]);
+  assert.deepEqual(npa.rows, [
+    { row: 4, values: ["Q1", "2024-03-31", "3.1%"] },
+    { row: 5, values: ["Q2", "2024-06-30", "2.8%"] },
+  ]);
+
+  const chunk = parsed.chunks.find((c) => c.section === "NPA")!;
+  assert.equal(chunk.pageNumber, 2);
+  assert.equal(chunk.cellRange, "A2:C5");
+  assert.ok(chunk.content.startsWith('Sheet "NPA", range A2:C5\nAsset quality by quarter'));
+});
+
+test("parseSpreadsheet: a range split across chunks repeats its header", () => {
+  const rows = Array.from(
+    { length: 40 },
+    (_, i) => `Borrower ${i} Ltd,Infrastructure,${1000 + i * 37}`,
+  );
+  const csv = ["Borrower,Sector,Exposure", ...rows].join("\n");
+
+  const parsed = parseSpreadsheet(new TextEncoder().encode(csv), "exposures.csv", {
+    chunkSize: 600,
+  });
+
+  assert.ok(parsed.chunks.length > 1);
+  const covered: string[] = [];
+  for (const chunk of parsed.chunks) {
+    const [description, table] = chunk.content.split("\n\n");
+    assert.equal(description, `Sheet "exposures", range ${chunk.cellRange}`);
+    assert.ok(table.startsWith("| Borrower | Sector | Exposure |\n| --- | --- | --- |"));
+    covered.push(chunk.cellRange!);
+  }
+  assert.equal(covered[0].split(":")[0], "A2");
+  assert.equal(covered[covered.length - 1].split(":")[1], "C41");
+});
@@ -0,0 +1,402 @@
+import type { TextChunk } from "./chunking";
+import {
+  attr,
+  child,
+  descendants,
+  elements,
+  openPackage,
+  text,
+  textOf,
+  XmlNode,
+} from "./ooxml";
+
+export interface Sheet {
+  name: string;
+  // Sparse grid keyed by zero-based row, then column.
+  cells: Map<number, Map<number, string>>;
+}
+
+export interface SheetRange {
+  sheetIndex: number;
+  sheetName: string;
+  // A1-style reference covering the caption, header and data rows.
+  range: string;
+  caption?: string;
+  header: string[];
+  // Data rows with their one-based spreadsheet row numbers.
+  rows: Array<{ row: number; values: string[] }>;
+  firstColumn: number;
+}
+
+export interface ParsedSpreadsheet {
+  text: string;
+  sheetCount: number;
+  ranges: SheetRange[];
+  chunks: TextChunk[];
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+
+// Built-in number formats that render as dates or times.
+const DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+const PERCENT_FORMAT_IDS = new Set([9, 10]);
+
+const log = (step: string, data?: object) => {
+  console.log(`[SPREADSHEET] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function parseCellRef(ref: string): { row: number; col: number } | null {
+  const match = ref.match(/^\$?([A-Z]+)\$?(\d+)$/i);
+  if (!match) return null;
+  let col = 0;
+  for (const ch of match[1].toUpperCase()) col = col * 26 + ch.charCodeAt(0) - 64;
+  return { row: parseInt(match[2], 10) - 1, col: col - 1 };
+}
+
+function cleanNumber(value: number): string {
+  return String(parseFloat(value.toPrecision(15)));
+}
+
+type NumberKind = "date" | "percent" | "number";
+
+function formatKind(code: string): NumberKind {
+  // Quoted literals, escapes and [colour]/[locale] sections aren't tokens.
+  const tokens = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  if (tokens.includes("%")) return "percent";
+  return /[dmyhs]/i.test(tokens) ? "date" : "number";
+}
+
+function readStyles(styles: XmlNode | null): NumberKind[] {
+  if (!styles) return [];
+  const custom = new Map<number, NumberKind>();
+  for (const fmt of descendants(styles, "numFmt")) {
+    custom.set(Number(attr(fmt, "numFmtId")), formatKind(attr(fmt, "formatCode") || ""));
+  }
+
+  const cellXfs = descendants(styles, "cellXfs")[0];
+  return (cellXfs ? elements(cellXfs, "xf") : []).map((xf) => {
+    const id = Number(attr(xf, "numFmtId") || 0);
+    if (custom.has(id)) return custom.get(id)!;
+    if (DATE_FORMAT_IDS.has(id)) return "date";
+    if (PERCENT_FORMAT_IDS.has(id)) return "percent";
+    return "number";
+  });
+}
+
+function serialToIso(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86400000));
+  const iso = date.toISOString();
+  if (Number.isInteger(serial)) return iso.slice(0, 10);
+  // Time-only formats store a fraction of a day.
+  return serial < 1 ? iso.slice(11, 19) : iso.slice(0, 19).replace("T", " ");
+}
+
+function cellValue(
+  cell: XmlNode,
+  sharedStrings: string[],
+  styles: NumberKind[],
+  date1904: boolean,
+): string {
+  const type = attr(cell, "t") || "n";
+  const raw = text(child(cell, "v"));
+
+  switch (type) {
+    case "s":
+      return sharedStrings[Number(raw)] ?? "";
+    case "inlineStr": {
+      const is = child(cell, "is");
+      return is ? textOf(is, "t") : "";
+    }
+    case "b":
+      return raw === "1" ? "TRUE" : "FALSE";
+    case "str":
+    case "e":
+    case "d":
+      return raw;
+  }
+
+  if (raw === "") return "";
+  const value = Number(raw);
+  if (!Number.isFinite(value)) return raw;
+
+  const kind = styles[Number(attr(cell, "s") || 0)] || "number";
+  if (kind === "date") return serialToIso(value, date1904);
+  if (kind === "percent") return `${cleanNumber(value * 100)}%`;
+  return cleanNumber(value);
+}
+
+export function parseXlsx(data: ArrayBuffer | Uint8Array): Sheet[] {
+  const pkg = openPackage(data);
+  const workbook = pkg.xml("xl/workbook.xml");
+  if (!workbook) throw new Error("Not an XLSX workbook (xl/workbook.xml missing)");
+
+  const sharedStringsXml = pkg.xml("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? descendants(sharedStringsXml, "si").map((si) => textOf(si, "t"))
+    : [];
+  const styles = readStyles(pkg.xml("xl/styles.xml"));
+  const date1904 = ["1", "true"].includes(
+    attr(descendants(workbook, "workbookPr")[0], "date1904") || "",
+  );
+  const rels = pkg.relationships("xl/workbook.xml");
+
+  const sheets: Sheet[] = [];
+  for (const entry of descendants(workbook, "sheet")) {
+    const name = attr(entry, "name") || `Sheet${sheets.length + 1}`;
+    const path = rels.get(attr(entry, "id") || "");
+    const xml = path ? pkg.xml(path) : null;
+    if (!xml) {
+      // Chart sheets and dialog sheets have no cell data.
+      log("Sheet skipped", { name, path });
+      continue;
+    }
+
+    const cells = new Map<number, Map<number, string>>();
+    let rowIndex = -1;
+    for (const row of descendants(xml, "row")) {
+      const r = Number(attr(row, "r"));
+      rowIndex = Number.isFinite(r) && r > 0 ? r - 1 : rowIndex + 1;
+      let colIndex = -1;
+      for (const cell of elements(row, "c")) {
+        const ref = parseCellRef(attr(cell, "r") || "");
+        colIndex = ref ? ref.col : colIndex + 1;
+        const value = cellValue(cell, sharedStrings, styles, date1904).trim();
+        if (!value) continue;
+        if (!cells.has(rowIndex)) cells.set(rowIndex, new Map());
+        cells.get(rowIndex)!.set(colIndex, value);
+      }
+    }
+    sheets.push({ name, cells });
+  }
+
+  return sheets;
+}
+
+function sniffDelimiter(csv: string): string {
+  const sample = csv.split(/\r?\n/).slice(0, 10).join("\n").replace(/"[^"]*"/g, "");
+  const candidates = [",", ";", "\t"];
+  const counts = candidates.map((d) => sample.split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ",";
+}
+
+// RFC 4180: quoted fields may contain delimiters, newlines and "" escapes.
+export function parseCsv(csv: string, delimiter = sniffDelimiter(csv)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = csv.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && !field) {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function csvToSheet(csv: string, name: string): Sheet {
+  const cells = new Map<number, Map<number, string>>();
+  parseCsv(csv).forEach((values, r) => {
+    values.forEach((value, c) => {
+      if (!value.trim()) return;
+      if (!cells.has(r)) cells.set(r, new Map());
+      cells.get(r)!.set(c, value.trim());
+    });
+  });
+  return { name, cells };
+}
+
+// Splits a sheet into blocks separated by empty rows. A block whose first
+// row is a single cell above a wider row reads as a titled table.
+export function findRanges(sheet: Sheet, sheetIndex: number): SheetRange[] {
+  const rowNumbers = [...sheet.cells.keys()].sort((a, b) => a - b);
+  const blocks: number[][] = [];
+  for (const r of rowNumbers) {
+    const block = blocks[blocks.length - 1];
+    if (block && r === block[block.length - 1] + 1) block.push(r);
+    else blocks.push([r]);
+  }
+
+  return blocks.map((block) => {
+    let firstColumn = Infinity;
+    let lastColumn = 0;
+    for (const r of block) {
+      for (const c of sheet.cells.get(r)!.keys()) {
+        firstColumn = Math.min(firstColumn, c);
+        lastColumn = Math.max(lastColumn, c);
+      }
+    }
+    const width = lastColumn - firstColumn + 1;
+    const values = (r: number) =>
+      Array.from({ length: width }, (_, i) => sheet.cells.get(r)!.get(firstColumn + i) || "");
+
+    let headerAt = 0;
+    let caption: string | undefined;
+    const first = sheet.cells.get(block[0])!;
+    if (block.length > 2 && first.size === 1 && width > 1) {
+      caption = [...first.values()][0];
+      headerAt = 1;
+    }
+
+    const header = values(block[headerAt]).map(
+      (h, i) => h || `Column ${columnName(firstColumn + i)}`,
+    );
+    const range = `${columnName(firstColumn)}${block[0] + 1}:${columnName(lastColumn)}${block[block.length - 1] + 1}`;
+
+    return {
+      sheetIndex,
+      sheetName: sheet.name,
+      range,
+      caption,
+      header,
+      rows: block.slice(headerAt + 1).map((r) => ({ row: r + 1, values: values(r) })),
+      firstColumn,
+    };
+  });
+}
+
+const escapeCell = (value: string) =>
+  value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+function tableLines(range: SheetRange, rows: SheetRange["rows"]): string[] {
+  return [
+    `| ${range.header.map(escapeCell).join(" | ")} |`,
+    `|${" --- |".repeat(range.header.length)}`,
+    ...rows.map((r) => `| ${r.values.map(escapeCell).join(" | ")} |`),
+  ];
+}
+
+function describe(range: SheetRange, cellRange: string): string {
+  const lines = [`Sheet "${range.sheetName}", range ${cellRange}`];
+  if (range.caption) lines.push(range.caption);
+  return lines.join("\n");
+}
+
+// One table chunk per range; ranges over chunkSize split by rows with the
+// header repeated, each piece carrying the cells it covers.
+function rangeChunks(range: SheetRange, chunkSize: number): Array<Omit<TextChunk, "chunkIndex">> {
+  const first = columnName(range.firstColumn);
+  const last = columnName(range.firstColumn + range.header.length - 1);
+  const pieces: SheetRange["rows"][] = [];
+  let current: SheetRange["rows"] = [];
+  let length = tableLines(range, []).join("\n").length + 80;
+
+  for (const row of range.rows) {
+    const rowLength = tableLines(range, [row])[2].length + 1;
+    if (current.length && length + rowLength > chunkSize) {
+      pieces.push(current);
+      current = [];
+      length = tableLines(range, []).join("\n").length + 80;
+    }
+    current.push(row);
+    length += rowLength;
+  }
+  if (current.length || !pieces.length) pieces.push(current);
+
+  return pieces.map((rows) => {
+    const cellRange =
+      pieces.length === 1 || !rows.length
+        ? range.range
+        : `${first}${rows[0].row}:${last}${rows[rows.length - 1].row}`;
+    return {
+      content: `${describe(range, cellRange)}\n\n${tableLines(range, rows).join("\n")}`,
+      pageNumber: range.sheetIndex,
+      type: "table",
+      section: range.sheetName,
+      cellRange,
+    };
+  });
+}
+
+export function sheetsToDocument(
+  sheets: Sheet[],
+  options: { chunkSize?: number } = {},
+): ParsedSpreadsheet {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const sections: string[] = [];
+  const ranges: SheetRange[] = [];
+  const chunks: TextChunk[] = [];
+
+  sheets.forEach((sheet, i) => {
+    const sheetRanges = findRanges(sheet, i + 1);
+    if (!sheetRanges.length) return;
+    ranges.push(...sheetRanges);
+
+    sections.push(
+      [
+        `=== SHEET ${i + 1}: ${sheet.name} ===`,
+        ...sheetRanges.map(
+          (range) => `${describe(range, range.range)}\n\n${tableLines(range, range.rows).join("\n")}`,
+        ),
+      ].join("\n\n"),
+    );
+    for (const range of sheetRanges) {
+      for (const chunk of rangeChunks(range, chunkSize)) {
+        chunks.push({ ...chunk, chunkIndex: chunks.length });
+      }
+    }
+  });
+
+  log("Spreadsheet parsed", {
+    sheets: sheets.length,
+    ranges: ranges.length,
+    chunks: chunks.length,
+  });
+  return { text: sections.join("\n\n"), sheetCount: sheets.length, ranges, chunks };
+}
+
+export function parseSpreadsheet(
+  buffer: ArrayBuffer | Uint8Array,
+  filename: string,
+  options: { chunkSize?: number } = {},
+): ParsedSpreadsheet {
+  const ext = filename.toLowerCase().split(".").pop();
+  const sheets =
+    ext === "csv"
+      ? [
+          csvToSheet(
+            new TextDecoder().decode(buffer),
+            filename.replace(/\.[^.]+$/, ""),
+          ),
+        ]
+      : parseXlsx(buffer);
+  return sheetsToDocument(sheets, options);
+}
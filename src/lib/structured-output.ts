@@ -0,0 +1,543 @@
+import { ResponseSchema, SchemaType } from "@google/generative-ai";
+
+export type ChartType =
+  | "bar"
+  | "line"
+  | "pie"
+  | "area"
+  | "scatter"
+  | "combo"
+  | "waterfall";
+
+export type SeriesType = "bar" | "line" | "area";
+
+export interface ChartSeries {
+  key: string;
+  label?: string;
+  type?: SeriesType;
+  axis?: "left" | "right";
+  stackId?: string;
+  color?: string;
+}
+
+export interface ChartReferenceLine {
+  y: number;
+  label?: string;
+  axis?: "left" | "right";
+  color?: string;
+}
+
+export interface ChartDataPoint {
+  name: string;
+  value?: number;
+  isTotal?: boolean;
+  [key: string]: string | number | boolean | undefined;
+}
+
+export interface ChartConfig {
+  type: ChartType;
+  title: string;
+  data: ChartDataPoint[];
+  series?: ChartSeries[];
+  referenceLines?: ChartReferenceLine[];
+  stacked?: boolean;
+  yAxisLabels?: { left?: string; right?: string };
+}
+
+export interface RiskAnalysisOutput {
+  overallRisk: "low" | "medium" | "high" | "critical";
+  riskScore: number;
+  factors: Array<{
+    factor: string;
+    impact: "positive" | "negative" | "neutral";
+    description: string;
+  }>;
+  recommendations: string[];
+}
+
+export interface MetricOutput {
+  name: string;
+  value: number | string;
+  unit?: string;
+  change?: number;
+}
+
+export interface StructuredBlocks {
+  chartConfig?: ChartConfig;
+  riskAnalysis?: RiskAnalysisOutput;
+  metrics?: MetricOutput[];
+}
+
+export type StructuredKey = keyof StructuredBlocks;
+
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+export interface StructuredValidationError {
+  block: "chart" | "risk" | "metrics";
+  errors: string[];
+  raw: string;
+}
+
+export const CHART_TYPES: ChartType[] = [
+  "bar",
+  "line",
+  "pie",
+  "area",
+  "scatter",
+  "combo",
+  "waterfall",
+];
+const SERIES_TYPES: SeriesType[] = ["bar", "line", "area"];
+const RISK_LEVELS = ["low", "medium", "high", "critical"] as const;
+const IMPACTS = ["positive", "negative", "neutral"] as const;
+
+export const BLOCK_NAMES: Record<StructuredKey, StructuredValidationError["block"]> = {
+  chartConfig: "chart",
+  riskAnalysis: "risk",
+  metrics: "metrics",
+};
+
+export const CHART_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    type: { type: SchemaType.STRING, format: "enum", enum: CHART_TYPES },
+    title: { type: SchemaType.STRING },
+    data: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: { type: SchemaType.STRING },
+          value: { type: SchemaType.NUMBER },
+          // Response schemas cannot express per-series keys, so repaired
+          // multi-series points carry values aligned with `series` order.
+          values: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER } },
+          isTotal: { type: SchemaType.BOOLEAN },
+        },
+        required: ["name"],
+      },
+    },
+    series: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          key: { type: SchemaType.STRING },
+          label: { type: SchemaType.STRING },
+          type: { type: SchemaType.STRING, format: "enum", enum: SERIES_TYPES },
+          axis: { type: SchemaType.STRING, format: "enum", enum: ["left", "right"] },
+          stackId: { type: SchemaType.STRING },
+        },
+        required: ["key"],
+      },
+    },
+    referenceLines: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          y: { type: SchemaType.NUMBER },
+          label: { type: SchemaType.STRING },
+          axis: { type: SchemaType.STRING, format: "enum", enum: ["left", "right"] },
+        },
+        required: ["y"],
+      },
+    },
+    stacked: { type: SchemaType.BOOLEAN },
+  },
+  required: ["type", "title", "data"],
+};
+
+export const RISK_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    overallRisk: { type: SchemaType.STRING, format: "enum", enum: [...RISK_LEVELS] },
+    riskScore: { type: SchemaType.NUMBER },
+    factors: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          factor: { type: SchemaType.STRING },
+          impact: { type: SchemaType.STRING, format: "enum", enum: [...IMPACTS] },
+          description: { type: SchemaType.STRING },
+        },
+        required: ["factor", "impact", "description"],
+      },
+    },
+    recommendations: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+  },
+  required: ["overallRisk", "riskScore", "factors", "recommendations"],
+};
+
+export const METRICS_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      name: { type: SchemaType.STRING },
+      value: { type: SchemaType.NUMBER },
+      unit: { type: SchemaType.STRING },
+      change: { type: SchemaType.NUMBER },
+    },
+    required: ["name", "value"],
+  },
+};
+
+export const RESPONSE_SCHEMAS: Record<StructuredKey, ResponseSchema> = {
+  chartConfig: CHART_RESPONSE_SCHEMA,
+  riskAnalysis: RISK_RESPONSE_SCHEMA,
+  metrics: METRICS_RESPONSE_SCHEMA,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Models often quote numbers or keep thousands separators ("1,234.5", "12%").
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const cleaned = value.replace(/[₹,%\s]/g, "");
+  if (!cleaned || isNaN(Number(cleaned))) return undefined;
+  return Number(cleaned);
+}
+
+function validateSeries(input: unknown, errors: string[]): ChartSeries[] | undefined {
+  if (input === undefined) return undefined;
+  if (!Array.isArray(input)) {
+    errors.push("series must be an array");
+    return undefined;
+  }
+
+  const series: ChartSeries[] = [];
+  input.forEach((s, i) => {
+    if (!isObject(s) || typeof s.key !== "string" || !s.key.trim()) {
+      errors.push(`series[${i}].key must be a non-empty string`);
+      return;
+    }
+    if (s.type !== undefined && !SERIES_TYPES.includes(s.type as SeriesType)) {
+      errors.push(`series[${i}].type must be one of ${SERIES_TYPES.join(", ")}`);
+      return;
+    }
+    if (s.axis !== undefined && s.axis !== "left" && s.axis !== "right") {
+      errors.push(`series[${i}].axis must be "left" or "right"`);
+      return;
+    }
+    series.push({
+      key: s.key,
+      label: typeof s.label === "string" ? s.label : undefined,
+      type: s.type as SeriesType | undefined,
+      axis: s.axis as ChartSeries["axis"],
+      stackId: typeof s.stackId === "string" ? s.stackId : undefined,
+      color: typeof s.color === "string" ? s.color : undefined,
+    });
+  });
+  return series;
+}
+
+function validateReferenceLines(
+  input: unknown,
+  errors: string[],
+): ChartReferenceLine[] | undefined {
+  if (input === undefined) return undefined;
+  if (!Array.isArray(input)) {
+    errors.push("referenceLines must be an array");
+    return undefined;
+  }
+
+  const lines: ChartReferenceLine[] = [];
+  input.forEach((l, i) => {
+    const y = isObject(l) ? toNumber(l.y) : undefined;
+    if (!isObject(l) || y === undefined) {
+      errors.push(`referenceLines[${i}].y must be a number`);
+      return;
+    }
+    lines.push({
+      y,
+      label: typeof l.label === "string" ? l.label : undefined,
+      axis: l.axis === "right" ? "right" : "left",
+      color: typeof l.color === "string" ? l.color : undefined,
+    });
+  });
+  return lines;
+}
+
+export function validateChartConfig(input: unknown): ValidationResult<ChartConfig> {
+  const errors: string[] = [];
+  if (!isObject(input)) return { errors: ["chart must be an object"] };
+
+  const type = input.type as ChartType;
+  if (!CHART_TYPES.includes(type)) {
+    errors.push(`type must be one of ${CHART_TYPES.join(", ")}`);
+  }
+  if (typeof input.title !== "string" || !input.title.trim()) {
+    errors.push("title must be a non-empty string");
+  }
+  if (!Array.isArray(input.data)) {
+    errors.push("data must be an array");
+    return { errors };
+  }
+
+  const series = validateSeries(input.series, errors);
+  const referenceLines = validateReferenceLines(input.referenceLines, errors);
+  const multiSeries = !!series && series.length > 0;
+
+  if (multiSeries && (type === "pie" || type === "scatter" || type === "waterfall")) {
+    errors.push(`${type} charts take a single value per point, not series`);
+  }
+  if (type === "combo" && !multiSeries) {
+    errors.push("combo charts require at least one series");
+  }
+
+  const data: ChartDataPoint[] = [];
+  input.data.forEach((point, i) => {
+    if (!isObject(point)) {
+      errors.push(`data[${i}] must be an object`);
+      return;
+    }
+    if (typeof point.name !== "string" && typeof point.name !== "number") {
+      errors.push(`data[${i}].name must be a string`);
+    }
+
+    const { values, ...rest } = point;
+    const normalized: ChartDataPoint = {
+      ...(rest as object),
+      name: String(point.name),
+      isTotal: point.isTotal === true ? true : undefined,
+    };
+
+    if (multiSeries) {
+      series!.forEach((s, j) => {
+        const raw = Array.isArray(values) ? values[j] : point[s.key];
+        const value = toNumber(raw);
+        if (value === undefined) {
+          errors.push(`data[${i}].${s.key} must be a number`);
+        } else {
+          normalized[s.key] = value;
+        }
+      });
+    } else {
+      const value = toNumber(point.value);
+      // Waterfall totals may omit value; the renderer derives the running sum.
+      if (value === undefined && !(type === "waterfall" && normalized.isTotal)) {
+        errors.push(`data[${i}].value must be a number`);
+      }
+      normalized.value = value;
+    }
+
+    data.push(normalized);
+  });
+
+  if (data.length < 2) errors.push("data must contain at least 2 points");
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      type,
+      title: input.title as string,
+      data,
+      series: multiSeries ? series : undefined,
+      referenceLines: referenceLines?.length ? referenceLines : undefined,
+      stacked: input.stacked === true ? true : undefined,
+      yAxisLabels: isObject(input.yAxisLabels)
+        ? {
+            left: typeof input.yAxisLabels.left === "string" ? input.yAxisLabels.left : undefined,
+            right: typeof input.yAxisLabels.right === "string" ? input.yAxisLabels.right : undefined,
+          }
+        : undefined,
+    },
+    errors,
+  };
+}
+
+export interface WaterfallRow {
+  name: string;
+  // Extent of the bar; a step that crosses zero spans both sides.
+  low: number;
+  high: number;
+  // Segments for a chart stacked with a sign offset, where positive values
+  // stack up from zero and negative ones down: an invisible base, then the
+  // bar's part above zero and its part below.
+  base: number;
+  positive: number;
+  negative: number;
+  change: number;
+  total: number;
+  isTotal: boolean;
+}
+
+function barSegments(low: number, high: number) {
+  if (low >= 0) return { base: low, positive: high - low, negative: 0 };
+  if (high <= 0) return { base: high, positive: 0, negative: low - high };
+  return { base: 0, positive: high, negative: low };
+}
+
+// Waterfall bars float on an invisible base bar; totals reset to the
+// running sum (or their explicit value) and are drawn from zero.
+export function toWaterfallRows(data: ChartDataPoint[]): WaterfallRow[] {
+  let running = 0;
+  return data.map((point) => {
+    const start = point.isTotal ? 0 : running;
+    const change = point.value ?? (point.isTotal ? running : 0);
+    running = point.isTotal ? change : running + change;
+    const low = Math.min(start, running);
+    const high = Math.max(start, running);
+    return {
+      name: point.name,
+      low,
+      high,
+      ...barSegments(low, high),
+      change,
+      total: running,
+      isTotal: Boolean(point.isTotal),
+    };
+  });
+}
+
+export function validateRiskAnalysis(input: unknown): ValidationResult<RiskAnalysisOutput> {
+  const errors: string[] = [];
+  if (!isObject(input)) return { errors: ["risk must be an object"] };
+
+  if (!RISK_LEVELS.includes(input.overallRisk as (typeof RISK_LEVELS)[number])) {
+    errors.push(`overallRisk must be one of ${RISK_LEVELS.join(", ")}`);
+  }
+  const riskScore = toNumber(input.riskScore);
+  if (riskScore === undefined || riskScore < 0 || riskScore > 100) {
+    errors.push("riskScore must be a number between 0 and 100");
+  }
+
+  const factors: RiskAnalysisOutput["factors"] = [];
+  if (!Array.isArray(input.factors)) {
+    errors.push("factors must be an array");
+  } else {
+    input.factors.forEach((f, i) => {
+      if (!isObject(f) || typeof f.factor !== "string") {
+        errors.push(`factors[${i}].factor must be a string`);
+        return;
+      }
+      if (!IMPACTS.includes(f.impact as (typeof IMPACTS)[number])) {
+        errors.push(`factors[${i}].impact must be one of ${IMPACTS.join(", ")}`);
+        return;
+      }
+      factors.push({
+        factor: f.factor,
+        impact: f.impact as RiskAnalysisOutput["factors"][number]["impact"],
+        description: typeof f.description === "string" ? f.description : "",
+      });
+    });
+  }
+
+  const recommendations = input.recommendations ?? [];
+  if (!Array.isArray(recommendations) || recommendations.some((r) => typeof r !== "string")) {
+    errors.push("recommendations must be an array of strings");
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      overallRisk: input.overallRisk as RiskAnalysisOutput["overallRisk"],
+      riskScore: riskScore!,
+      factors,
+      recommendations: recommendations as string[],
+    },
+    errors,
+  };
+}
+
+export function validateMetrics(input: unknown): ValidationResult<MetricOutput[]> {
+  if (!Array.isArray(input)) return { errors: ["metrics must be an array"] };
+
+  const errors: string[] = [];
+  const metrics: MetricOutput[] = [];
+
+  input.forEach((m, i) => {
+    if (!isObject(m) || typeof m.name !== "string" || !m.name.trim()) {
+      errors.push(`metrics[${i}].name must be a non-empty string`);
+      return;
+    }
+    if (typeof m.value !== "number" && typeof m.value !== "string") {
+      errors.push(`metrics[${i}].value must be a number or string`);
+      return;
+    }
+    if (m.unit !== undefined && typeof m.unit !== "string") {
+      errors.push(`metrics[${i}].unit must be a string`);
+      return;
+    }
+    const change = m.change === undefined ? undefined : toNumber(m.change);
+    if (m.change !== undefined && change === undefined) {
+      errors.push(`metrics[${i}].change must be a number`);
+      return;
+    }
+    metrics.push({
+      name: m.name,
+      value: m.value,
+      unit: m.unit as string | undefined,
+      change,
+    });
+  });
+
+  if (metrics.length === 0 && errors.length === 0) errors.push("metrics must not be empty");
+  if (errors.length > 0) return { errors };
+  return { value: metrics, errors };
+}
+
+export const VALIDATORS: {
+  [K in StructuredKey]-?: (input: unknown) => ValidationResult<NonNullable<StructuredBlocks[K]>>;
+} = {
+  chartConfig: validateChartConfig,
+  riskAnalysis: validateRiskAnalysis,
+  metrics: validateMetrics,
+};
+
+const BLOCK_PATTERNS: Record<StructuredKey, RegExp> = {
+  chartConfig: /```chart\n?([\s\S]*?)```/,
+  riskAnalysis: /```risk\n?([\s\S]*?)```/,
+  metrics: /```metrics\n?([\s\S]*?)```/,
+};
+
+export function parseAndValidate<K extends StructuredKey>(
+  key: K,
+  raw: string,
+): ValidationResult<NonNullable<StructuredBlocks[K]>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch (error) {
+    return { errors: [`invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  return VALIDATORS[key](parsed) as ValidationResult<NonNullable<StructuredBlocks[K]>>;
+}
+
+export function extractStructuredBlocks(text: string): {
+  blocks: StructuredBlocks;
+  invalid: StructuredValidationError[];
+} {
+  const blocks: StructuredBlocks = {};
+  const invalid: StructuredValidationError[] = [];
+
+  for (const key of Object.keys(BLOCK_PATTERNS) as StructuredKey[]) {
+    const match = text.match(BLOCK_PATTERNS[key]);
+    if (!match) continue;
+
+    const result = parseAndValidate(key, match[1]);
+    if (result.value) {
+      (blocks as Record<StructuredKey, unknown>)[key] = result.value;
+    } else {
+      invalid.push({ block: BLOCK_NAMES[key], errors: result.errors, raw: match[1].trim() });
+    }
+  }
+
+  return { blocks, invalid };
+}
+
+export function stripStructuredBlocks(text: string): string {
+  return text
+    .replace(/```chart\n?[\s\S]*?```/g, "")
+    .replace(/```risk\n?[\s\S]*?```/g, "")
+    .replace(/```metrics\n?[\s\S]*?```/g, "")
+    .trim();
+}
@@ -106,6 +106,26 @@ export async function deleteFileAdmin(
   }
 }
 
+// Read URL for a stored file. Signed with the service key when it is set,
+// so the bucket can stay private; otherwise the public URL.
+export async function getFileUrl(
+  path: string,
+  expiresIn: number = 3600,
+  bucket: string = "documents",
+): Promise<string> {
+  try {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(path, expiresIn);
+    if (error) throw error;
+    return data.signedUrl;
+  } catch {
+    const { data } = getSupabaseClient().storage.from(bucket).getPublicUrl(path);
+    return data.publicUrl;
+  }
+}
+
 export async function getSignedUploadUrl(
   filename: string,
   bucket: string = "documents",
@@ -0,0 +1,168 @@
+import { createWorker, OEM } from "tesseract.js";
+import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { extractPdfText, joinPages, loadPdfjs } from "./pdf-text";
+import type { PageText } from "./chunking";
+import {
+  detectScripts,
+  scriptFromOsd,
+  tesseractLanguages,
+  Script,
+} from "./script-detection";
+
+// Browser-side OCR with Tesseract and Indic traineddata. Pages with a usable
+// PDF text layer keep it; only scanned pages are rendered and recognized.
+// The result goes to /api/index as pre-extracted text.
+
+export interface TesseractResult {
+  text: string;
+  pages: number;
+  ocrPages: number[];
+  // 0-1 mean word confidence keyed by page number.
+  pageConfidence: Record<number, number>;
+  scripts: Script[];
+}
+
+const RENDER_SCALE = 2;
+
+// Traineddata is fetched from the tesseract.js CDN unless a mirror is set.
+const langPath = process.env.NEXT_PUBLIC_TESSDATA_URL || undefined;
+
+const log = (step: string, data?: object) => {
+  console.log(`[TESSERACT] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+// Orientation and script detection needs the legacy engine and the osd
+// model; when it cannot tell, the caller falls back to the text layer.
+async function detectImageScripts(image: HTMLCanvasElement | File): Promise<Script[]> {
+  const worker = await createWorker("osd", OEM.TESSERACT_ONLY, {
+    langPath,
+    legacyCore: true,
+    legacyLang: true,
+  });
+  try {
+    const { data } = await worker.detect(image);
+    const script = scriptFromOsd(data.script);
+    log("Script detected", { script: data.script, confidence: data.script_confidence });
+    return script ? [script] : [];
+  } catch (error) {
+    log("Script detection failed", { error: String(error).substring(0, 150) });
+    return [];
+  } finally {
+    await worker.terminate();
+  }
+}
+
+async function renderPage(
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+): Promise<HTMLCanvasElement> {
+  const page = await doc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+  return canvas;
+}
+
+async function recognizeImages(
+  images: Array<{ pageNumber: number; image: HTMLCanvasElement | File }>,
+  scripts: Script[],
+  onProgress?: (step: string) => void,
+): Promise<Array<PageText & { confidence: number }>> {
+  const languages = tesseractLanguages(scripts);
+  onProgress?.(`Loading Tesseract (${languages.join("+")})...`);
+  const worker = await createWorker(languages, OEM.LSTM_ONLY, { langPath });
+
+  const pages: Array<PageText & { confidence: number }> = [];
+  try {
+    for (const { pageNumber, image } of images) {
+      onProgress?.(`Recognizing page ${pageNumber}...`);
+      const { data } = await worker.recognize(image);
+      pages.push({
+        pageNumber,
+        content: data.text.trim(),
+        confidence: Math.max(0, Math.min(1, data.confidence / 100)),
+      });
+    }
+  } finally {
+    await worker.terminate();
+  }
+  return pages;
+}
+
+export async function recognizeWithTesseract(
+  file: File,
+  onProgress?: (step: string) => void,
+): Promise<TesseractResult> {
+  const isPdf = file.name.toLowerCase().endsWith(".pdf");
+
+  if (!isPdf) {
+    onProgress?.("Detecting script...");
+    let scripts = await detectImageScripts(file);
+    if (!scripts.length) scripts = ["latin", "devanagari"];
+    const [page] = await recognizeImages([{ pageNumber: 1, image: file }], scripts, onProgress);
+    return {
+      text: joinPages([page]),
+      pages: 1,
+      ocrPages: [1],
+      pageConfidence: { 1: Math.round(page.confidence * 1000) / 1000 },
+      scripts,
+    };
+  }
+
+  onProgress?.("Reading PDF text layer...");
+  const data = new Uint8Array(await file.arrayBuffer());
+  const native = await extractPdfText(data);
+  const pages: PageText[] = native
+    .filter((p) => !p.needsOcr)
+    .map((p) => ({ pageNumber: p.pageNumber, content: p.text }));
+  const ocrPages = native.filter((p) => p.needsOcr).map((p) => p.pageNumber);
+  const pageConfidence: Record<number, number> = {};
+  let scripts = detectScripts(pages.map((p) => p.content).join("\n").substring(0, 5000));
+
+  if (ocrPages.length) {
+    const pdfjs = await loadPdfjs();
+    const doc = await pdfjs.getDocument({
+      data: data.slice(),
+      isEvalSupported: false,
+      verbosity: 0,
+    }).promise;
+
+    try {
+      const images: Array<{ pageNumber: number; image: HTMLCanvasElement }> = [];
+      for (const pageNumber of ocrPages) {
+        onProgress?.(`Rendering page ${pageNumber}/${native.length}...`);
+        images.push({ pageNumber, image: await renderPage(doc, pageNumber) });
+      }
+
+      // A scanned page can be in a script the text layer never shows, so
+      // the first one is checked as well.
+      onProgress?.("Detecting script...");
+      const detected = await detectImageScripts(images[0].image);
+      scripts = [...new Set([...detected, ...scripts])];
+      if (!scripts.length) scripts = ["latin", "devanagari"];
+
+      for (const page of await recognizeImages(images, scripts, onProgress)) {
+        pages.push(page);
+        pageConfidence[page.pageNumber] = Math.round(page.confidence * 1000) / 1000;
+      }
+    } finally {
+      await doc.destroy();
+    }
+  }
+
+  log("Recognized", {
+    pages: native.length,
+    ocrPages: ocrPages.length,
+    scripts,
+  });
+  return {
+    text: joinPages(pages),
+    pages: native.length,
+    ocrPages,
+    pageConfidence,
+    scripts,
+  };
+}
@@ -21,3 +21,34 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength - 3) + "...";
 }
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  crore: 10000000,
+  cr: 10000000,
+  lakh: 100000,
+  lac: 100000,
+  million: 1000000,
+  mn: 1000000,
+  billion: 1000000000,
+  bn: 1000000000,
+};
+
+export function parseIndianAmount(raw: string): number | null {
+  const match = raw.match(
+    /([\d,]+(?:\.\d+)?)\s*(crores?|cr|lakhs?|lacs?|millions?|mn|billions?|bn)?\b/i,
+  );
+  if (!match) return null;
+
+  const value = parseFloat(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(value)) return null;
+
+  const unit = match[2]?.toLowerCase().replace(/s$/, "");
+  return unit ? value * (AMOUNT_MULTIPLIERS[unit] || 1) : value;
+}
+
+export function formatIndianCurrency(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 10000000) return `₹${(value / 10000000).toLocaleString("en-IN", { maximumFractionDigits: 2 })} Cr`;
+  if (abs >= 100000) return `₹${(value / 100000).toLocaleString("en-IN", { maximumFractionDigits: 2 })} L`;
+  return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+}
@@ -0,0 +1,180 @@
+import { createPineconeStore } from "./pinecone";
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: Record<string, unknown>;
+}
+
+type FilterValue = string | number | boolean;
+
+// Pinecone's metadata filter syntax; a bare value means $eq.
+export type MetadataFilter = Record<
+  string,
+  | FilterValue
+  | {
+      $eq?: FilterValue;
+      $ne?: FilterValue;
+      $in?: FilterValue[];
+      $nin?: FilterValue[];
+    }
+>;
+
+export interface VectorQuery {
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+export interface VectorStore {
+  readonly name: "pinecone" | "memory";
+  upsert(vectors: VectorRecord[]): Promise<void>;
+  query(embedding: number[], query: VectorQuery): Promise<VectorMatch[]>;
+  // Resolves to the number of vectors removed, or null when the backend
+  // does not report it.
+  deleteByFilter(filter: MetadataFilter): Promise<number | null>;
+}
+
+const log = (step: string, data?: object) => {
+  console.log(`[VECTOR-STORE] ${step}`, data ? JSON.stringify(data) : "");
+};
+
+export function matchesFilter(
+  metadata: Record<string, unknown> = {},
+  filter: MetadataFilter = {},
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata[key] as FilterValue | undefined;
+    if (typeof condition !== "object") return value === condition;
+    if ("$eq" in condition && value !== condition.$eq) return false;
+    if ("$ne" in condition && value === condition.$ne) return false;
+    if (condition.$in && !condition.$in.includes(value as FilterValue)) {
+      return false;
+    }
+    if (condition.$nin && condition.$nin.includes(value as FilterValue)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * (b[i] || 0);
+    normA += a[i] * a[i];
+    normB += (b[i] || 0) * (b[i] || 0);
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Brute-force cosine search over a Map. Fine for development, air-gapped
+// single-instance deployments and tests; contents live only as long as the
+// process.
+export function createMemoryVectorStore(
+  records: Map<string, VectorRecord> = new Map(),
+): VectorStore {
+  return {
+    name: "memory",
+
+    async upsert(vectors) {
+      for (const vector of vectors) records.set(vector.id, vector);
+    },
+
+    async query(embedding, { topK, filter }) {
+      const matches: VectorMatch[] = [];
+      for (const record of records.values()) {
+        if (!matchesFilter(record.metadata, filter)) continue;
+        matches.push({
+          id: record.id,
+          score: cosine(embedding, record.values),
+          metadata: record.metadata || {},
+        });
+      }
+      return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+    },
+
+    async deleteByFilter(filter) {
+      let deleted = 0;
+      for (const [id, record] of records) {
+        if (matchesFilter(record.metadata, filter)) {
+          records.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+}
+
+// Kept on globalThis so the dev server's module reloads don't drop the
+// in-memory index between requests.
+const globalRecords = globalThis as typeof globalThis & {
+  __arthyxVectors?: Map<string, VectorRecord>;
+};
+
+let store: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    const name = (process.env.VECTOR_STORE || "pinecone").toLowerCase();
+    if (name === "pinecone") {
+      store = createPineconeStore();
+    } else if (name === "memory") {
+      globalRecords.__arthyxVectors ??= new Map();
+      store = createMemoryVectorStore(globalRecords.__arthyxVectors);
+    } else {
+      throw new Error(
+        `Unknown vector store "${name}" (expected pinecone or memory)`,
+      );
+    }
+    log("Vector store selected", { store: store.name });
+  }
+  return store;
+}
+
+export function setVectorStore(next: VectorStore) {
+  store = next;
+}
+
+export async function upsertVectors(vectors: VectorRecord[]): Promise<void> {
+  await getVectorStore().upsert(vectors);
+}
+
+export async function queryDocuments(
+  queryEmbedding: number[],
+  sessionId: string,
+  topK: number = 15,
+): Promise<VectorMatch[]> {
+  return getVectorStore().query(queryEmbedding, {
+    topK,
+    filter: { sessionId: { $eq: sessionId } },
+  });
+}
+
+export async function deleteSessionDocuments(sessionId: string) {
+  try {
+    await getVectorStore().deleteByFilter({ sessionId: { $eq: sessionId } });
+    log("Session documents deleted", { sessionId });
+  } catch (error) {
+    log("Delete error", { error: String(error) });
+    throw error;
+  }
+}
+
+export async function deleteDocumentVectors(
+  sessionId: string,
+  filename: string,
+): Promise<number | null> {
+  return getVectorStore().deleteByFilter({
+    sessionId: { $eq: sessionId },
+    filename: { $eq: filename },
+  });
+}
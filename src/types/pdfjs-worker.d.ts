@@ -0,0 +1,3 @@
+// pdf.js ships no types for its worker entry; it is only registered on
+// globalThis so pdf.js can run it in-process.
+declare module "pdfjs-dist/legacy/build/pdf.worker.mjs";